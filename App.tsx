@@ -1,20 +1,247 @@
-import React, { useState, useMemo } from 'react';
-import { MotorParams, Language } from './types';
-import { DEFAULT_PARAMS, TRANSLATIONS } from './constants';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { MotorParams, Language, Design, DesignSummary, DesignOverlay, SimulationResult, ChartSettings, ProjectFile, MeasurementSet, AnalysisTool, DriveCycleInput, VehicleParams, LoadCurve, CurrentLoopSettings, BatterySettings, ToleranceSettings, SweepSettings, InverseDesignSettings, ParamsHistory } from './types';
+import { DEFAULT_CHART_SETTINGS, DEFAULT_PARAMS, DEFAULT_VEHICLE, DEFAULT_LOAD_CURVE, DEFAULT_CURRENT_LOOP, DEFAULT_BATTERY, DEFAULT_TOLERANCE, DEFAULT_SWEEP, DEFAULT_INVERSE_DESIGN, TRANSLATIONS } from './constants';
 import { calculateMotorCharacteristics } from './utils/motorPhysics';
+import { createDesign, summarizeResult } from './utils/workspace';
+import { PROJECT_SCHEMA_VERSION, loadAutosave, parseProject, serializeProject, writeAutosave } from './utils/project';
+import { downloadText, toFileName } from './utils/download';
+import { compareMeasurements } from './utils/measurement';
+import { analyzeLoad } from './utils/loadCurve';
+import { createHistory, pushHistory, jumpHistory } from './utils/history';
+import { diagnoseDesign } from './utils/validation';
 import ParameterInput from './components/ParameterInput';
 import ResultsPanel from './components/ResultsPanel';
+import DesignWorkspace from './components/DesignWorkspace';
+import ProjectNotes from './components/ProjectNotes';
+import MeasurementPanel from './components/MeasurementPanel';
+import ParameterFitPanel from './components/ParameterFitPanel';
+import DriveCyclePanel from './components/DriveCyclePanel';
+import LoadCurvePanel from './components/LoadCurvePanel';
+import CurrentLoopPanel from './components/CurrentLoopPanel';
+import BatteryPanel from './components/BatteryPanel';
+import TolerancePanel from './components/TolerancePanel';
+import SweepPanel from './components/SweepPanel';
+import InverseDesignPanel from './components/InverseDesignPanel';
+import AnalysisPanel from './components/AnalysisPanel';
+import HistoryPanel from './components/HistoryPanel';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+
+// Delay between the last edit and writing the autosave (ms)
+const AUTOSAVE_DELAY = 500;
+
+const createDefaultProject = (language: Language): ProjectFile => {
+  const design = createDesign(DEFAULT_PARAMS, `${TRANSLATIONS[language].design} 1`, []);
+  return {
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    name: '',
+    savedAt: '',
+    language,
+    designs: [design],
+    activeDesignId: design.id,
+    baselineDesignId: design.id,
+    chartSettings: DEFAULT_CHART_SETTINGS,
+    notes: ''
+  };
+};
 
 const App: React.FC = () => {
-  const [params, setParams] = useState<MotorParams>(DEFAULT_PARAMS);
-  const [language, setLanguage] = useState<Language>('zh');
+  const [initialProject] = useState<ProjectFile>(() => loadAutosave() ?? createDefaultProject('zh'));
+  const [language, setLanguage] = useState<Language>(initialProject.language);
+  const [projectName, setProjectName] = useState(initialProject.name);
+  const [notes, setNotes] = useState(initialProject.notes);
+  const [chartSettings, setChartSettings] = useState<ChartSettings>(initialProject.chartSettings);
+  const [designs, setDesigns] = useState<Design[]>(initialProject.designs);
+  const [activeDesignId, setActiveDesignId] = useState(initialProject.activeDesignId);
+  const [baselineDesignId, setBaselineDesignId] = useState(initialProject.baselineDesignId);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const [measurement, setMeasurement] = useState<MeasurementSet | null>(null);
+  const [driveCycle, setDriveCycle] = useState<DriveCycleInput | null>(null);
+  const [vehicle, setVehicle] = useState<VehicleParams>(DEFAULT_VEHICLE);
+  const [loadCurve, setLoadCurve] = useState<LoadCurve>(DEFAULT_LOAD_CURVE);
+  const [currentLoop, setCurrentLoop] = useState<CurrentLoopSettings>(DEFAULT_CURRENT_LOOP);
+  const [battery, setBattery] = useState<BatterySettings>(DEFAULT_BATTERY);
+  const [tolerance, setTolerance] = useState<ToleranceSettings>(DEFAULT_TOLERANCE);
+  const [sweep, setSweep] = useState<SweepSettings>(DEFAULT_SWEEP);
+  const [inverseDesign, setInverseDesign] = useState<InverseDesignSettings>(DEFAULT_INVERSE_DESIGN);
+  const [analysisTool, setAnalysisTool] = useState<AnalysisTool>('measurement');
+  // Undo history per design, started on its first edit in this session
+  const [histories, setHistories] = useState<Record<string, ParamsHistory>>({});
+  const openFileRef = useRef<HTMLInputElement>(null);
+  const importFileRef = useRef<HTMLInputElement>(null);
 
   const t = TRANSLATIONS[language];
 
-  // Use useMemo to prevent unnecessary recalculations on re-renders if params haven't changed
-  const result = useMemo(() => {
-    return calculateMotorCharacteristics(params);
-  }, [params]);
+  const serializedProject = useMemo(() => serializeProject({
+    name: projectName,
+    language,
+    designs,
+    activeDesignId,
+    baselineDesignId,
+    chartSettings,
+    notes
+  }), [projectName, language, designs, activeDesignId, baselineDesignId, chartSettings, notes]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => writeAutosave(serializedProject), AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [serializedProject]);
+
+  const applyProject = (project: ProjectFile) => {
+    setLanguage(project.language);
+    setProjectName(project.name);
+    setNotes(project.notes);
+    setChartSettings(project.chartSettings);
+    setDesigns(project.designs);
+    setActiveDesignId(project.activeDesignId);
+    setBaselineDesignId(project.baselineDesignId);
+    setHistories({});
+    setProjectError(null);
+  };
+
+  const readProjectFile = async (e: React.ChangeEvent<HTMLInputElement>): Promise<ProjectFile | null> => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return null;
+    try {
+      return parseProject(await file.text());
+    } catch (err) {
+      setProjectError(`${t.projectError}: ${err instanceof Error ? err.message : String(err)}`);
+      return null;
+    }
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const project = await readProjectFile(e);
+    if (project) applyProject(project);
+  };
+
+  // Appends the designs of another project; ids and colors are reassigned to avoid clashes
+  const handleImportDesigns = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const project = await readProjectFile(e);
+    if (!project) return;
+    const imported: Design[] = [];
+    project.designs.forEach(design => {
+      const copy = createDesign(design.params, design.name, [...designs, ...imported]);
+      imported.push({ ...copy, visible: design.visible });
+    });
+    setDesigns(ds => [...ds, ...imported]);
+    setProjectError(null);
+  };
+
+  const handleSaveProject = () => {
+    downloadText(serializedProject, toFileName(projectName || t.projectName, 'pmsm.json'), 'application/json');
+  };
+
+  const handleNewProject = () => {
+    if (!window.confirm(t.confirmNewProject)) return;
+    applyProject(createDefaultProject(language));
+  };
+
+  const activeDesign = designs.find(d => d.id === activeDesignId) ?? designs[0];
+  const params = activeDesign.params;
+
+  const storedHistory = histories[activeDesign.id];
+  const history = storedHistory && storedHistory.entries[storedHistory.index].params === params
+    ? storedHistory
+    : createHistory(params);
+
+  const showParams = (newParams: MotorParams) => {
+    setDesigns(ds => ds.map(d => d.id === activeDesign.id ? { ...d, params: newParams } : d));
+  };
+
+  const setParams = (newParams: MotorParams) => {
+    setHistories(hs => ({ ...hs, [activeDesign.id]: pushHistory(history, newParams) }));
+    showParams(newParams);
+  };
+
+  const handleJumpHistory = (index: number) => {
+    const moved = jumpHistory(history, index);
+    if (moved.index === history.index) return;
+    setHistories(hs => ({ ...hs, [activeDesign.id]: moved }));
+    showParams(moved.entries[moved.index].params);
+  };
+
+  // The shortcut listener is registered once and reaches the current history through this ref
+  const stepHistory = (step: number) => handleJumpHistory(history.index + step);
+  const stepHistoryRef = useRef(stepHistory);
+  stepHistoryRef.current = stepHistory;
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'TEXTAREA' || target.isContentEditable ||
+        (target instanceof HTMLInputElement && target.type !== 'number' && target.type !== 'checkbox')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) stepHistoryRef.current(-1);
+      else if ((key === 'z' && e.shiftKey) || key === 'y') stepHistoryRef.current(1);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handlePinHistory = (index: number) => {
+    const entry = history.entries[index];
+    const time = new Date(entry.time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+    setDesigns(ds => [...ds, createDesign(entry.params, `${activeDesign.name} @ ${time}`, ds)]);
+  };
+
+  // Results are cached per params object, so editing one design does not recompute the others
+  const resultCache = useRef(new WeakMap<MotorParams, SimulationResult>());
+  const results = useMemo(() => {
+    const byId: Record<string, SimulationResult> = {};
+    designs.forEach(design => {
+      let designResult = resultCache.current.get(design.params);
+      if (!designResult) {
+        designResult = calculateMotorCharacteristics(design.params);
+        resultCache.current.set(design.params, designResult);
+      }
+      byId[design.id] = designResult;
+    });
+    return byId;
+  }, [designs]);
+
+  const result = results[activeDesign.id];
+
+  const measurementComparison = useMemo(() => {
+    return measurement ? compareMeasurements(params, result, measurement) : null;
+  }, [params, result, measurement]);
+
+  const loadAnalysis = useMemo(() => analyzeLoad(params, result, loadCurve), [params, result, loadCurve]);
+  const diagnostics = useMemo(() => diagnoseDesign(params, result), [params, result]);
+
+  const summaries = useMemo(() => {
+    const byId: Record<string, DesignSummary> = {};
+    designs.forEach(design => {
+      byId[design.id] = summarizeResult(results[design.id]);
+    });
+    return byId;
+  }, [designs, results]);
+
+  const overlays: DesignOverlay[] = designs
+    .filter(d => d.visible && d.id !== activeDesign.id)
+    .map(d => ({ id: d.id, name: d.name, color: d.color, result: results[d.id] }));
+
+  const handleDuplicateDesign = () => {
+    const design = createDesign({ ...params }, `${t.design} ${designs.length + 1}`, designs);
+    setDesigns(ds => [...ds, design]);
+    setActiveDesignId(design.id);
+  };
+
+  const handleRemoveDesign = (id: string) => {
+    const remaining = designs.filter(d => d.id !== id);
+    if (remaining.length === 0) return;
+    setDesigns(remaining);
+    if (id === activeDesignId) setActiveDesignId(remaining[0].id);
+    if (id === baselineDesignId) setBaselineDesignId(remaining[0].id);
+  };
+
+  const handleUpdateDesign = (id: string, changes: Partial<Omit<Design, 'id' | 'params'>>) => {
+    setDesigns(ds => ds.map(d => d.id === id ? { ...d, ...changes } : d));
+  };
 
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col">
@@ -33,6 +260,47 @@ const App: React.FC = () => {
              </div>
           </div>
           <div className="flex items-center space-x-4">
+            <input
+              type="text"
+              value={projectName}
+              onChange={(e) => setProjectName(e.target.value)}
+              placeholder={t.projectName}
+              title={t.autosaved}
+              className="hidden md:block w-44 rounded border border-gray-300 px-2 py-1 text-sm bg-gray-50"
+            />
+            <div className="flex rounded-md shadow-sm" role="group">
+              <button
+                type="button"
+                onClick={handleNewProject}
+                className="px-3 py-1 rounded-l border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                {t.newProject}
+              </button>
+              <button
+                type="button"
+                onClick={() => openFileRef.current?.click()}
+                className="px-3 py-1 border-t border-b border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                {t.openProject}
+              </button>
+              <button
+                type="button"
+                onClick={() => importFileRef.current?.click()}
+                title={t.importDesignsHint}
+                className="px-3 py-1 border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                {t.importDesigns}
+              </button>
+              <button
+                type="button"
+                onClick={handleSaveProject}
+                className="px-3 py-1 rounded-r border-t border-b border-r border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                {t.saveProject}
+              </button>
+            </div>
+            <input ref={openFileRef} type="file" accept=".json,application/json" className="hidden" onChange={handleOpenProject} />
+            <input ref={importFileRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportDesigns} />
             <button 
               onClick={() => setLanguage(l => l === 'en' ? 'zh' : 'en')}
               className="px-3 py-1 rounded border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50"
@@ -46,18 +314,176 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      {projectError && (
+        <div className="max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 pt-4">
+          <div className="flex items-center justify-between rounded-md border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-700">
+            <span>{projectError}</span>
+            <button type="button" onClick={() => setProjectError(null)} className="ml-4 font-bold">×</button>
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="flex-1 max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8 h-full">
           
           {/* Left Column: Inputs */}
           <div className="lg:col-span-4 xl:col-span-3">
-            <ParameterInput params={params} onChange={setParams} language={language} />
+            <ParameterInput params={params} onChange={setParams} language={language} diagnostics={diagnostics} />
+            <HistoryPanel history={history} language={language} onJump={handleJumpHistory} onPin={handlePinHistory} />
           </div>
 
           {/* Right Column: Charts */}
-          <div className="lg:col-span-8 xl:col-span-9 min-h-[500px]">
-            <ResultsPanel result={result} params={params} language={language} />
+          <div className="lg:col-span-8 xl:col-span-9 min-h-[500px] flex flex-col gap-8">
+            <DiagnosticsPanel diagnostics={diagnostics} language={language} />
+            <ResultsPanel
+              result={result}
+              params={params}
+              language={language}
+              settings={chartSettings}
+              onSettingsChange={setChartSettings}
+              projectName={projectName}
+              name={activeDesign.name}
+              color={activeDesign.color}
+              overlays={overlays}
+              measurement={measurement}
+              load={loadCurve.showOnChart ? loadAnalysis : null}
+              diagnostics={diagnostics}
+            />
+            <AnalysisPanel
+              title={t.analysisTools}
+              active={analysisTool}
+              onChange={setAnalysisTool}
+              tabs={[
+                {
+                  key: 'measurement',
+                  label: t.measuredData,
+                  content: (
+                    <MeasurementPanel
+                      measurement={measurement}
+                      comparison={measurementComparison}
+                      onChange={setMeasurement}
+                      language={language}
+                    />
+                  )
+                },
+                {
+                  key: 'parameterFit',
+                  label: t.parameterFit,
+                  content: (
+                    <ParameterFitPanel
+                      params={params}
+                      measurement={measurement}
+                      onApply={setParams}
+                      language={language}
+                    />
+                  )
+                },
+                {
+                  key: 'driveCycle',
+                  label: t.driveCycle,
+                  content: (
+                    <DriveCyclePanel
+                      params={params}
+                      cycle={driveCycle}
+                      onCycleChange={setDriveCycle}
+                      vehicle={vehicle}
+                      onVehicleChange={setVehicle}
+                      language={language}
+                    />
+                  )
+                },
+                {
+                  key: 'loadCurve',
+                  label: t.loadCurve,
+                  content: (
+                    <LoadCurvePanel
+                      load={loadCurve}
+                      analysis={loadAnalysis}
+                      onChange={setLoadCurve}
+                      language={language}
+                    />
+                  )
+                },
+                {
+                  key: 'currentLoop',
+                  label: t.currentLoop,
+                  content: (
+                    <CurrentLoopPanel
+                      params={params}
+                      settings={currentLoop}
+                      onChange={setCurrentLoop}
+                      language={language}
+                    />
+                  )
+                },
+                {
+                  key: 'battery',
+                  label: t.battery,
+                  content: (
+                    <BatteryPanel
+                      params={params}
+                      result={result}
+                      battery={battery}
+                      onChange={setBattery}
+                      language={language}
+                    />
+                  )
+                },
+                {
+                  key: 'tolerance',
+                  label: t.tolerance,
+                  content: (
+                    <TolerancePanel
+                      params={params}
+                      result={result}
+                      settings={tolerance}
+                      onChange={setTolerance}
+                      language={language}
+                    />
+                  )
+                },
+                {
+                  key: 'sweep',
+                  label: t.sweep,
+                  content: (
+                    <SweepPanel
+                      params={params}
+                      settings={sweep}
+                      onChange={setSweep}
+                      language={language}
+                    />
+                  )
+                },
+                {
+                  key: 'inverseDesign',
+                  label: t.inverseDesign,
+                  content: (
+                    <InverseDesignPanel
+                      params={params}
+                      result={result}
+                      settings={inverseDesign}
+                      onChange={setInverseDesign}
+                      onApply={setParams}
+                      language={language}
+                    />
+                  )
+                }
+              ]}
+            />
+            <DesignWorkspace
+              designs={designs}
+              summaries={summaries}
+              activeDesignId={activeDesign.id}
+              baselineDesignId={baselineDesignId}
+              language={language}
+              onSelect={setActiveDesignId}
+              onSetBaseline={setBaselineDesignId}
+              onUpdate={handleUpdateDesign}
+              onDuplicate={handleDuplicateDesign}
+              onRemove={handleRemoveDesign}
+            />
+            <ProjectNotes notes={notes} onChange={setNotes} language={language} />
           </div>
         </div>
       </main>
@@ -0,0 +1,219 @@
+/**
+ * Headless runner for the physics engine.
+ *
+ *   npm run cli -- motor.json -o motor.csv
+ *   npm run cli -- --vdc 24 --imax 20 --enableFluxWeakening true --format json
+ *   npm run cli -- designs/*.json --out results/
+ *
+ * Inputs are MotorParams JSON files or saved project files (every design is run).
+ * Without inputs the default parameters are used; flags override fields of every input.
+ */
+import { readFileSync, writeFileSync, mkdirSync, existsSync, statSync } from 'node:fs';
+import { basename, extname, join, resolve } from 'node:path';
+import { MotorParams, TorqueDirection } from '../types';
+import { DEFAULT_PARAMS } from '../constants';
+import { calculateMotorCharacteristics, calculateTheoreticalMaxSpeed } from '../utils/motorPhysics';
+import { normalizeParams, parseProject } from '../utils/project';
+import { csvField, resultToCsv } from '../utils/export';
+import { summarizeResult } from '../utils/workspace';
+
+type OutputFormat = 'csv' | 'json';
+
+// Every MotorParams field except the flux map, which is a table with no command-line form
+type OverrideKey = Exclude<keyof MotorParams, 'fluxMap'>;
+
+const OVERRIDE_KEYS = (Object.keys(DEFAULT_PARAMS) as (keyof MotorParams)[])
+  .filter((key): key is OverrideKey => key !== 'fluxMap');
+
+const findOverrideKey = (name: string) => OVERRIDE_KEYS.find(key => key === name);
+
+interface CliOptions {
+  inputs: string[];
+  out: string | null;
+  format: OutputFormat | null;
+  overrides: Partial<Record<OverrideKey, string>>;
+  direction: TorqueDirection;
+  autoMaxSpeed: boolean;
+}
+
+interface RunCase {
+  name: string;
+  params: MotorParams;
+}
+
+const USAGE = `Usage: pmsm [options] [params.json ...]
+
+Runs calculateMotorCharacteristics for each MotorParams or project file.
+
+Options:
+  -o, --out <path>         Output file (single case) or directory (several cases).
+                           Without --out a single case is written to stdout.
+  -f, --format <csv|json>  Output format (default: from the --out extension, else csv)
+  --set <key=value>        Override a MotorParams field, may be repeated
+  --<field> <value>        Same as --set <field>=<value>, e.g. --vdc 48
+  --direction <motoring|generating>
+  --auto-max-speed         Set maxSpeed to the theoretical maximum speed first
+  -h, --help               Show this help
+
+Several cases also write summary.csv (max torque, base speed, peak power, MTPA angle).`;
+
+class UsageError extends Error {}
+
+const parseArgs = (argv: string[]): CliOptions => {
+  const options: CliOptions = {
+    inputs: [],
+    out: null,
+    format: null,
+    overrides: {},
+    direction: 'motoring',
+    autoMaxSpeed: false
+  };
+
+  const next = (i: number, flag: string) => {
+    const value = argv[i + 1];
+    if (value === undefined) throw new UsageError(`Missing value for ${flag}`);
+    return value;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h' || arg === '--help') {
+      console.log(USAGE);
+      process.exit(0);
+    } else if (arg === '-o' || arg === '--out') {
+      options.out = next(i++, arg);
+    } else if (arg === '-f' || arg === '--format') {
+      const format = next(i++, arg);
+      if (format !== 'csv' && format !== 'json') throw new UsageError(`Unknown format "${format}"`);
+      options.format = format;
+    } else if (arg === '--direction') {
+      const direction = next(i++, arg);
+      if (direction !== 'motoring' && direction !== 'generating') throw new UsageError(`Unknown direction "${direction}"`);
+      options.direction = direction;
+    } else if (arg === '--auto-max-speed') {
+      options.autoMaxSpeed = true;
+    } else if (arg === '--set') {
+      const [name, ...rest] = next(i++, arg).split('=');
+      if (rest.length === 0) throw new UsageError(`--set expects key=value, got "${name}"`);
+      const key = findOverrideKey(name);
+      if (!key) throw new UsageError(`Unknown parameter "${name}"`);
+      options.overrides[key] = rest.join('=');
+    } else if (arg.startsWith('--')) {
+      const [flag, inline] = arg.slice(2).split(/=(.*)/s);
+      const key = findOverrideKey(flag);
+      if (!key) throw new UsageError(`Unknown option "${arg}"`);
+      options.overrides[key] = inline ?? next(i++, arg);
+    } else {
+      options.inputs.push(arg);
+    }
+  }
+
+  return options;
+};
+
+// Converts the override strings to the type of the default value
+const applyOverrides = (params: MotorParams, overrides: Partial<Record<OverrideKey, string>>): MotorParams => {
+  const result: Record<string, unknown> = { ...params };
+  OVERRIDE_KEYS.forEach(key => {
+    const text = overrides[key];
+    if (text === undefined) return;
+    const fallback = DEFAULT_PARAMS[key];
+    if (typeof fallback === 'number') {
+      const value = Number(text);
+      if (!isFinite(value)) throw new UsageError(`${key} must be a number, got "${text}"`);
+      result[key] = value;
+    } else if (typeof fallback === 'boolean') {
+      if (text !== 'true' && text !== 'false') throw new UsageError(`${key} must be true or false, got "${text}"`);
+      result[key] = text === 'true';
+    } else {
+      result[key] = text;
+    }
+  });
+  return normalizeParams(result);
+};
+
+const loadCases = (file: string): RunCase[] => {
+  const name = basename(file, extname(file)).replace(/\.pmsm$/, '');
+  const project = parseProject(readFileSync(file, 'utf8'));
+  if (project.designs.length === 1) return [{ name, params: project.designs[0].params }];
+  return project.designs.map(design => ({ name: `${name}_${design.name || design.id}`, params: design.params }));
+};
+
+const formatOutput = (runCase: RunCase, options: CliOptions, format: OutputFormat) => {
+  let params = applyOverrides(runCase.params, options.overrides);
+  const theoreticalMaxSpeed = calculateTheoreticalMaxSpeed(params);
+  if (options.autoMaxSpeed) params = { ...params, maxSpeed: theoreticalMaxSpeed };
+
+  const result = calculateMotorCharacteristics(params, options.direction);
+  const summary = { ...summarizeResult(result), theoreticalMaxSpeed };
+
+  const content = format === 'json'
+    ? JSON.stringify({ name: runCase.name, direction: options.direction, params, summary, points: result.points }, null, 2) + '\n'
+    : resultToCsv({ projectName: '', designName: runCase.name, params, result });
+  return { content, summary };
+};
+
+const toFileBase = (name: string) => name.replace(/[\\/:*?"<>|\s]+/g, '_');
+
+// Inputs with the same base name (a/motor.json, b/motor.json) would overwrite each other's output
+const withUniqueNames = (cases: RunCase[]): RunCase[] => {
+  const used = new Set<string>();
+  return cases.map(runCase => {
+    let name = runCase.name;
+    for (let n = 2; used.has(toFileBase(name)); n++) name = `${runCase.name}_${n}`;
+    used.add(toFileBase(name));
+    return { ...runCase, name };
+  });
+};
+
+// `npm run` changes into the package directory; resolve paths against where it was invoked
+const BASE_DIR = process.env.INIT_CWD ?? process.cwd();
+
+const main = () => {
+  const options = parseArgs(process.argv.slice(2));
+  options.inputs = options.inputs.map(file => resolve(BASE_DIR, file));
+  if (options.out) options.out = resolve(BASE_DIR, options.out) + (options.out.endsWith('/') ? '/' : '');
+  const cases = options.inputs.length > 0
+    ? options.inputs.flatMap(loadCases)
+    : [{ name: 'default', params: DEFAULT_PARAMS }];
+
+  const outIsDirectory = options.out !== null
+    && (cases.length > 1 || options.out.endsWith('/') || (existsSync(options.out) && statSync(options.out).isDirectory()));
+  const format: OutputFormat = options.format
+    ?? (options.out && !outIsDirectory && extname(options.out).toLowerCase() === '.json' ? 'json' : 'csv');
+
+  if (!outIsDirectory) {
+    if (cases.length > 1) throw new UsageError('Several cases need --out <directory>');
+    const { content } = formatOutput(cases[0], options, format);
+    if (options.out) writeFileSync(options.out, content);
+    else process.stdout.write(content);
+    return;
+  }
+
+  const dir = options.out!;
+  mkdirSync(dir, { recursive: true });
+  const summaryRows = ['name,max_torque_Nm,base_speed_rpm,max_power_kW,mtpa_angle_deg,theoretical_max_speed_rpm'];
+  withUniqueNames(cases).forEach(runCase => {
+    const { content, summary } = formatOutput(runCase, options, format);
+    const file = join(dir, `${toFileBase(runCase.name)}.${format}`);
+    writeFileSync(file, content);
+    summaryRows.push([
+      csvField(runCase.name),
+      summary.maxTorque,
+      summary.baseSpeed,
+      summary.maxPower,
+      summary.mtpaAngle,
+      summary.theoreticalMaxSpeed
+    ].join(','));
+    console.error(`${file}: ${summary.maxTorque.toFixed(3)} Nm, ${summary.maxPower.toFixed(3)} kW`);
+  });
+  writeFileSync(join(dir, 'summary.csv'), summaryRows.join('\n') + '\n');
+};
+
+try {
+  main();
+} catch (err) {
+  console.error(`pmsm: ${err instanceof Error ? err.message : String(err)}`);
+  if (err instanceof UsageError) console.error(`Run with --help for usage.`);
+  process.exit(err instanceof UsageError ? 2 : 1);
+}
@@ -0,0 +1,56 @@
+import React from 'react';
+import { AnalysisTool } from '../types';
+
+export interface AnalysisTab {
+  key: AnalysisTool;
+  label: string;
+  content: React.ReactNode;
+}
+
+interface AnalysisPanelProps {
+  title: string;
+  tabs: AnalysisTab[];
+  active: AnalysisTool;
+  onChange: (tool: AnalysisTool) => void;
+}
+
+/**
+ * Card with one tab per analysis tool; only the active tool is rendered.
+ */
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ title, tabs, active, onChange }) => {
+  const current = tabs.find(tab => tab.key === active) ?? tabs[0];
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <div className="flex items-center space-x-2 mb-4">
+        <svg className="w-6 h-6 text-orange-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+        </svg>
+        <h2 className="text-xl font-bold text-gray-800">{title}</h2>
+      </div>
+
+      <div className="flex flex-wrap border-b border-gray-200 mb-4" role="tablist">
+        {tabs.map(tab => (
+          <button
+            key={tab.key}
+            type="button"
+            role="tab"
+            aria-selected={tab.key === current.key}
+            onClick={() => onChange(tab.key)}
+            className={`px-4 py-2 -mb-px text-xs font-medium border-b-2 ${
+              tab.key === current.key
+                ? 'border-blue-600 text-blue-700'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {current.content}
+    </div>
+  );
+};
+
+export default AnalysisPanel;
@@ -0,0 +1,219 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { Language, MotorParams, SimulationResult, BatterySettings, BatteryPoint } from '../types';
+import { COLORS, SERIES_PALETTE, TRANSLATIONS } from '../constants';
+import { calculateBatteryCases } from '../utils/battery';
+
+interface BatteryPanelProps {
+  params: MotorParams;
+  result: SimulationResult; // Envelope at the ideal (constant) vdc
+  battery: BatterySettings;
+  onChange: (battery: BatterySettings) => void;
+  language: Language;
+}
+
+type NumericSetting = 'cellsInSeries' | 'resistance' | 'cutoffVoltage';
+
+const BatteryPanel: React.FC<BatteryPanelProps> = ({ params, result, battery, onChange, language }) => {
+  const t = TRANSLATIONS[language];
+  const update = (changes: Partial<BatterySettings>) => onChange({ ...battery, ...changes });
+
+  const simulation = useMemo(() => {
+    try {
+      return { cases: calculateBatteryCases(params, battery), error: null };
+    } catch (err) {
+      return { cases: [], error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [params, battery]);
+  const { cases, error } = simulation;
+
+  const handleNumber = (key: NumericSetting, text: string) => {
+    const value = parseFloat(text);
+    if (!isFinite(value) || value < 0) return;
+    update({ [key]: key === 'cellsInSeries' ? Math.max(1, Math.round(value)) : value });
+  };
+
+  const numberField = (key: NumericSetting, label: string, step: number) => (
+    <label className="block text-xs font-medium text-gray-700">
+      {label}
+      <input
+        type="number"
+        step={step}
+        defaultValue={battery[key]}
+        onChange={e => handleNumber(key, e.target.value)}
+        className="mt-1 block w-full rounded border border-gray-300 px-2 py-1 text-xs"
+      />
+    </label>
+  );
+
+  const series = cases.map((batteryCase, idx) => ({
+    key: `soc-${batteryCase.soc}`,
+    name: `${t.soc} ${batteryCase.soc}%`,
+    color: SERIES_PALETTE[idx % SERIES_PALETTE.length],
+    points: batteryCase.points
+  }));
+
+  const chart = (
+    title: string,
+    dataKey: keyof BatteryPoint,
+    extra?: React.ReactNode
+  ) => (
+    <div>
+      <p className="text-xs font-semibold text-gray-500 uppercase mb-1">{title}</p>
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart margin={{ top: 10, right: 20, left: 10, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={COLORS.grid} />
+            <XAxis
+              dataKey="speedRPM"
+              type="number"
+              domain={[0, 'dataMax']}
+              allowDuplicatedCategory={false}
+              label={{ value: t.speedRPM, position: 'insideBottomRight', offset: -10 }}
+            />
+            <YAxis width={60} />
+            <Tooltip
+              formatter={(value: number) => value.toFixed(3)}
+              labelFormatter={(speed: number) => `${speed} RPM`}
+            />
+            <Legend verticalAlign="top" height={30} />
+            {extra}
+            {series.map(s => (
+              <Line
+                key={s.key}
+                type="monotone"
+                data={s.points}
+                dataKey={dataKey}
+                name={s.name}
+                stroke={s.color}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+
+  return (
+    <div>
+      <p className="text-xs text-gray-500 mb-3">{t.batteryHint}</p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+        {numberField('cellsInSeries', t.cellsInSeries, 1)}
+        {numberField('resistance', t.packResistance, 0.01)}
+        {numberField('cutoffVoltage', t.cutoffVoltage, 0.5)}
+        <label className="block text-xs font-medium text-gray-700">
+          {t.socLevels}
+          <input
+            type="text"
+            value={battery.socLevels}
+            onChange={e => update({ socLevels: e.target.value })}
+            className="mt-1 block w-full rounded border border-gray-300 px-2 py-1 text-xs"
+          />
+        </label>
+      </div>
+      <label className="block text-xs font-medium text-gray-700 mb-4">
+        {t.ocvCurve}
+        <input
+          type="text"
+          value={battery.ocvCurve}
+          onChange={e => update({ ocvCurve: e.target.value })}
+          className="mt-1 block w-full rounded border border-gray-300 px-2 py-1 text-xs font-mono"
+        />
+        <span className="text-gray-400 font-normal">{t.ocvCurveHint}</span>
+      </label>
+
+      {error && <p className="mb-2 text-xs text-red-600">{error}</p>}
+
+      {cases.length > 0 && (
+        <>
+          <div className="overflow-x-auto mb-4">
+            <table className="min-w-full text-xs text-gray-700">
+              <thead>
+                <tr className="border-b text-gray-500">
+                  <th className="text-left py-1 pr-4">{t.soc}</th>
+                  <th className="text-right py-1 pr-4">{t.openCircuitVoltage}</th>
+                  <th className="text-right py-1 pr-4">{t.baseSpeed}</th>
+                  <th className="text-right py-1 pr-4">{t.peakPower}</th>
+                  <th className="text-right py-1 pr-4">{t.minBusVoltage}</th>
+                  <th className="text-right py-1 pr-4">{t.maxDcCurrent}</th>
+                  <th className="text-right py-1">{t.maxBatteryPower}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {cases.map((batteryCase, idx) => (
+                  <tr key={batteryCase.soc} className="border-b border-gray-100">
+                    <td className="py-1 pr-4 font-semibold" style={{ color: series[idx].color }}>
+                      {batteryCase.soc}%
+                    </td>
+                    <td className="text-right py-1 pr-4">{batteryCase.openCircuitVoltage.toFixed(2)} V</td>
+                    <td className="text-right py-1 pr-4">{batteryCase.baseSpeed.toFixed(0)} RPM</td>
+                    <td className="text-right py-1 pr-4">{batteryCase.maxPower.toFixed(3)} kW</td>
+                    <td className={`text-right py-1 pr-4 ${batteryCase.minBusVoltage < battery.cutoffVoltage ? 'text-red-600 font-semibold' : ''}`}>
+                      {batteryCase.minBusVoltage.toFixed(2)} V
+                    </td>
+                    <td className="text-right py-1 pr-4">{batteryCase.maxDcCurrent.toFixed(2)} A</td>
+                    <td className="text-right py-1">{batteryCase.maxBatteryPower.toFixed(1)} W</td>
+                  </tr>
+                ))}
+                <tr className="text-gray-400">
+                  <td className="py-1 pr-4">{t.idealBus} ({params.vdc} V)</td>
+                  <td className="text-right py-1 pr-4">—</td>
+                  <td className="text-right py-1 pr-4">{result.baseSpeed.toFixed(0)} RPM</td>
+                  <td className="text-right py-1 pr-4">{result.maxPower.toFixed(3)} kW</td>
+                  <td className="text-right py-1 pr-4">—</td>
+                  <td className="text-right py-1 pr-4">—</td>
+                  <td className="text-right py-1">—</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          {cases.some(batteryCase => batteryCase.minBusVoltage < battery.cutoffVoltage) && (
+            <p className="mb-3 text-xs text-red-600">{t.undervoltageWarning}</p>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {chart(t.torqueNm, 'torque', (
+              <Line
+                type="monotone"
+                data={result.points}
+                dataKey="torque"
+                name={`${t.idealBus} ${params.vdc} V`}
+                stroke={COLORS.text}
+                strokeDasharray="6 3"
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+            {chart(t.busVoltageV, 'busVoltage', (
+              <ReferenceLine
+                y={battery.cutoffVoltage}
+                stroke="red"
+                strokeDasharray="3 3"
+                label={{ value: t.cutoffVoltage, position: 'insideBottomRight', fill: 'red', fontSize: 12 }}
+              />
+            ))}
+            {chart(t.dcCurrentA, 'dcCurrent')}
+            {chart(t.batteryPowerW, 'batteryPower')}
+          </div>
+          <p className="mt-2 text-xs text-gray-400">{t.batteryNote}</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatteryPanel;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { CsvTable, ColumnField, ColumnMapping, guessColumnMapping } from '../utils/csv';
+
+interface ColumnMappingDialogProps {
+  title: string;
+  table: CsvTable;
+  fields: ColumnField[];
+  language: Language;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+// Number of data rows shown in the preview
+const PREVIEW_ROWS = 5;
+
+const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({ title, table, fields, language, onConfirm, onCancel }) => {
+  const t = TRANSLATIONS[language];
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping(table.headers, fields));
+
+  const missingRequired = fields.some(field => field.required && mapping[field.key] == null);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" role="dialog" aria-modal="true">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6">
+        <h3 className="text-lg font-bold text-gray-800 mb-1">{title}</h3>
+        <p className="text-xs text-gray-500 mb-4">{t.columnMappingHint}</p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+          {fields.map(field => (
+            <div key={field.key} className="flex flex-col space-y-1">
+              <label className="text-xs font-semibold text-gray-500 uppercase tracking-wide">
+                {field.label}{field.required && <span className="text-red-500"> *</span>}
+              </label>
+              <select
+                value={mapping[field.key] ?? ''}
+                onChange={(e) => setMapping(m => ({
+                  ...m,
+                  [field.key]: e.target.value === '' ? null : Number(e.target.value)
+                }))}
+                className="rounded-md border border-gray-300 px-2 py-1.5 text-sm bg-gray-50"
+              >
+                <option value="">{t.notMapped}</option>
+                {table.headers.map((header, idx) => (
+                  <option key={idx} value={idx}>{header}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <div className="overflow-x-auto border border-gray-200 rounded-md mb-4">
+          <table className="min-w-full text-xs text-gray-700">
+            <thead className="bg-gray-50">
+              <tr>
+                {table.headers.map((header, idx) => (
+                  <th key={idx} className="text-left px-2 py-1 whitespace-nowrap">{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                <tr key={r} className="border-t border-gray-100">
+                  {table.headers.map((_, c) => (
+                    <td key={c} className="px-2 py-1 whitespace-nowrap">{row[c]}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-gray-400 mb-4">{t.rowsFound}: {table.rows.length}</p>
+
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-1.5 rounded border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            {t.cancel}
+          </button>
+          <button
+            type="button"
+            disabled={missingRequired}
+            onClick={() => onConfirm(mapping)}
+            className="px-4 py-1.5 rounded bg-blue-600 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {t.confirm}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingDialog;
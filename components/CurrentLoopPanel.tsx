@@ -0,0 +1,217 @@
+import React, { useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { Language, MotorParams, CurrentLoopSettings, StepMetrics } from '../types';
+import { COLORS, TRANSLATIONS } from '../constants';
+import { simulateCurrentLoop, tuneCurrentLoop } from '../utils/currentLoop';
+
+interface CurrentLoopPanelProps {
+  params: MotorParams;
+  settings: CurrentLoopSettings;
+  onChange: (settings: CurrentLoopSettings) => void;
+  language: Language;
+}
+
+type NumericSetting = Exclude<keyof CurrentLoopSettings, 'decoupling'>;
+
+interface SettingField {
+  key: NumericSetting;
+  label: string;
+  scale: number; // Stored value × scale = shown value
+  step: number;
+}
+
+const CurrentLoopPanel: React.FC<CurrentLoopPanelProps> = ({ params, settings, onChange, language }) => {
+  const t = TRANSLATIONS[language];
+  // Remounts the gain inputs after auto-tuning so they show the new values
+  const [tuneCount, setTuneCount] = useState(0);
+  const update = (changes: Partial<CurrentLoopSettings>) => onChange({ ...settings, ...changes });
+
+  const simulation = useMemo(() => {
+    try {
+      return { result: simulateCurrentLoop(params, settings), error: null };
+    } catch (err) {
+      return { result: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [params, settings]);
+  const { result, error } = simulation;
+
+  // Time axis in ms, |v| for the voltage chart
+  const data = useMemo(() => (result?.samples ?? []).map(s => ({
+    ...s,
+    timeMs: s.time * 1000,
+    vMag: Math.hypot(s.vd, s.vq)
+  })), [result]);
+
+  const operatingFields: SettingField[] = [
+    { key: 'speedRPM', label: t.speedRPM, scale: 1, step: 100 },
+    { key: 'initialTorque', label: t.initialTorque, scale: 1, step: 0.01 },
+    { key: 'finalTorque', label: t.finalTorque, scale: 1, step: 0.01 },
+    { key: 'stepTime', label: t.stepTimeMs, scale: 1000, step: 0.1 },
+    { key: 'duration', label: t.durationMs, scale: 1000, step: 0.5 },
+    { key: 'sampleRate', label: t.sampleRateKhz, scale: 1e-3, step: 1 }
+  ];
+  const gainFields: SettingField[] = [
+    { key: 'kpD', label: t.kpD, scale: 1, step: 0.01 },
+    { key: 'kiD', label: t.kiD, scale: 1, step: 10 },
+    { key: 'kpQ', label: t.kpQ, scale: 1, step: 0.01 },
+    { key: 'kiQ', label: t.kiQ, scale: 1, step: 10 }
+  ];
+
+  const handleNumber = (field: SettingField, text: string) => {
+    const value = parseFloat(text) / field.scale;
+    if (!isFinite(value)) return;
+    // Torques may be negative (braking steps); everything else is a magnitude
+    if (value < 0 && field.key !== 'initialTorque' && field.key !== 'finalTorque') return;
+    update({ [field.key]: value });
+  };
+
+  const handleAutoTune = () => {
+    update(tuneCurrentLoop(params, settings.bandwidth));
+    setTuneCount(count => count + 1);
+  };
+
+  const numberInput = (field: SettingField, keyPrefix = '') => (
+    <label key={`${keyPrefix}${field.key}`} className="block text-xs font-medium text-gray-700">
+      {field.label}
+      <input
+        type="number"
+        step={field.step}
+        defaultValue={Number((settings[field.key] * field.scale).toPrecision(6))}
+        onChange={e => handleNumber(field, e.target.value)}
+        className="mt-1 block w-full rounded border border-gray-300 px-2 py-1 text-xs"
+      />
+    </label>
+  );
+
+  const formatMs = (seconds: number | null) => (seconds === null ? t.notSettled : `${(seconds * 1000).toFixed(3)} ms`);
+  const metricRows: { axis: string; metrics: StepMetrics | null }[] = result
+    ? [{ axis: 'd', metrics: result.metrics.d }, { axis: 'q', metrics: result.metrics.q }]
+    : [];
+
+  const chart = (title: string, lines: React.ReactNode, extra?: React.ReactNode) => (
+    <div>
+      <p className="text-xs font-semibold text-gray-500 uppercase mb-1">{title}</p>
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 10, right: 20, left: 10, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={COLORS.grid} />
+            <XAxis
+              dataKey="timeMs"
+              type="number"
+              domain={[0, 'dataMax']}
+              tickFormatter={(time: number) => time.toFixed(1)}
+              label={{ value: t.timeMs, position: 'insideBottomRight', offset: -10 }}
+            />
+            <YAxis width={60} />
+            <Tooltip
+              formatter={(value: number) => value.toFixed(3)}
+              labelFormatter={(time: number) => `${time.toFixed(3)} ms`}
+            />
+            <Legend verticalAlign="top" height={30} />
+            {lines}
+            {extra}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+
+  return (
+    <div>
+      <p className="text-xs text-gray-500 mb-3">{t.currentLoopHint}</p>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3 mb-3">
+        {operatingFields.map(field => numberInput(field))}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3 mb-4 items-end">
+        <div className="flex items-end space-x-2">
+          {numberInput({ key: 'bandwidth', label: t.bandwidthHz, scale: 1, step: 100 })}
+          <button
+            type="button"
+            onClick={handleAutoTune}
+            title={t.autoTuneHint}
+            className="px-2 py-1 rounded border border-gray-300 text-xs font-medium text-gray-700 hover:bg-gray-50"
+          >
+            {t.autoTune}
+          </button>
+        </div>
+        {gainFields.map(field => numberInput(field, `${tuneCount}-`))}
+        <label className="flex items-center text-xs font-medium text-gray-700 pb-1">
+          <input
+            type="checkbox"
+            checked={settings.decoupling}
+            onChange={e => update({ decoupling: e.target.checked })}
+            className="w-4 h-4 mr-2 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+          />
+          {t.decoupling}
+        </label>
+      </div>
+
+      {error && <p className="mb-2 text-xs text-red-600">{error}</p>}
+
+      {result && (
+        <>
+          <div className="overflow-x-auto mb-4">
+            <table className="min-w-full text-xs text-gray-700">
+              <thead>
+                <tr className="border-b text-gray-500">
+                  <th className="text-left py-1 pr-4">{t.axis}</th>
+                  <th className="text-right py-1 pr-4">{t.riseTime}</th>
+                  <th className="text-right py-1 pr-4">{t.overshoot}</th>
+                  <th className="text-right py-1">{t.settlingTime}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {metricRows.map(({ axis, metrics }) => (
+                  <tr key={axis} className="border-b border-gray-100">
+                    <td className="py-1 pr-4 font-semibold">i{axis}</td>
+                    <td className="text-right py-1 pr-4">{metrics ? formatMs(metrics.riseTime) : '—'}</td>
+                    <td className="text-right py-1 pr-4">{metrics ? `${metrics.overshoot.toFixed(1)}%` : '—'}</td>
+                    <td className="text-right py-1">{metrics ? formatMs(metrics.settlingTime) : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {chart(t.currentsA, [
+              <Line key="idRef" type="stepAfter" dataKey="idRef" name={`id ${t.reference}`} stroke={COLORS.accent} strokeDasharray="4 4" dot={false} isAnimationActive={false} />,
+              <Line key="iqRef" type="stepAfter" dataKey="iqRef" name={`iq ${t.reference}`} stroke={COLORS.primary} strokeDasharray="4 4" dot={false} isAnimationActive={false} />,
+              <Line key="id" type="linear" dataKey="id" name="id" stroke={COLORS.accent} strokeWidth={2} dot={false} isAnimationActive={false} />,
+              <Line key="iq" type="linear" dataKey="iq" name="iq" stroke={COLORS.primary} strokeWidth={2} dot={false} isAnimationActive={false} />
+            ])}
+            {chart(t.voltagesV, [
+              <Line key="vd" type="stepAfter" dataKey="vd" name="vd" stroke={COLORS.accent} strokeWidth={2} dot={false} isAnimationActive={false} />,
+              <Line key="vq" type="stepAfter" dataKey="vq" name="vq" stroke={COLORS.primary} strokeWidth={2} dot={false} isAnimationActive={false} />,
+              <Line key="vMag" type="stepAfter" dataKey="vMag" name="|v|" stroke={COLORS.text} strokeDasharray="2 3" dot={false} isAnimationActive={false} />
+            ], (
+              <ReferenceLine
+                y={result.vLim}
+                stroke="red"
+                strokeDasharray="3 3"
+                label={{ value: t.voltageLimit, position: 'insideTopRight', fill: 'red', fontSize: 12 }}
+              />
+            ))}
+            {chart(t.torqueNm, [
+              <Line key="torque" type="linear" dataKey="torque" name={t.torqueNm} stroke={COLORS.secondary} strokeWidth={2} dot={false} isAnimationActive={false} />
+            ])}
+          </div>
+          <p className="mt-2 text-xs text-gray-400">{t.currentLoopNote}</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CurrentLoopPanel;
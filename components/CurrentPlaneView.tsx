@@ -0,0 +1,275 @@
+import React, { useEffect, useId, useMemo, useState } from 'react';
+import { Language, MotorParams, OperatingRegion, SimulationResult, CurrentPlanePoint } from '../types';
+import { COLORS, TRANSLATIONS } from '../constants';
+import { calculateCurrentPlane } from '../utils/currentPlane';
+import { niceTicks, formatTick } from './Heatmap';
+
+interface CurrentPlaneViewProps {
+  params: MotorParams;
+  result: SimulationResult;
+  language: Language;
+}
+
+// Equal id and iq scales, so the current limit is drawn as a circle
+const WIDTH = 800;
+const HEIGHT = 525;
+const MARGIN = { top: 20, right: 170, bottom: 50, left: 70 };
+const PLOT_W = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_H = HEIGHT - MARGIN.top - MARGIN.bottom;
+// Visible id range in units of Imax; the iq range follows from the aspect ratio
+const ID_VIEW: [number, number] = [-1.3, 0.3];
+const IQ_VIEW_MIN = -0.1;
+
+// Constant-torque curves as fractions of the peak torque
+const TORQUE_FRACTIONS = [0.25, 0.5, 0.75, 1];
+// Playback step interval (ms)
+const PLAY_INTERVAL = 60;
+
+const CURRENT_LIMIT_COLOR = '#dc2626'; // Red 600
+const TORQUE_COLOR = '#94a3b8';        // Slate 400
+
+const CurrentPlaneView: React.FC<CurrentPlaneViewProps> = ({ params, result, language }) => {
+  const t = TRANSLATIONS[language];
+  const clipId = `current-plane-clip-${useId()}`;
+  const { points, maxTorque } = result;
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const current = points[Math.min(index, points.length - 1)];
+
+  // Steps through the envelope; stops at its end
+  useEffect(() => {
+    if (!playing) return;
+    const timer = window.setInterval(() => {
+      setIndex(i => {
+        if (i + 1 >= points.length) {
+          setPlaying(false);
+          return i;
+        }
+        return i + 1;
+      });
+    }, PLAY_INTERVAL);
+    return () => window.clearInterval(timer);
+  }, [playing, points.length]);
+
+  const { imax } = params;
+  const idMin = ID_VIEW[0] * imax;
+  const idMax = ID_VIEW[1] * imax;
+  const iqMin = IQ_VIEW_MIN * imax;
+  const iqMax = iqMin + ((idMax - idMin) * PLOT_H) / PLOT_W;
+
+  const speedRPM = current?.speedRPM ?? 0;
+  const geometry = useMemo(() => {
+    const levels = TORQUE_FRACTIONS.map(f => f * maxTorque);
+    return calculateCurrentPlane(params, speedRPM, levels, [idMin, idMax], iqMax);
+  }, [params, speedRPM, maxTorque, idMin, idMax, iqMax]);
+  // The contour through the operating point itself
+  const pointContour = useMemo(() => {
+    if (!current || current.torque <= 0) return null;
+    return calculateCurrentPlane(params, speedRPM, [current.torque], [idMin, idMax], iqMax).torqueContours[0];
+  }, [params, speedRPM, current, idMin, idMax, iqMax]);
+
+  if (!current) return null;
+
+  const sx = (id: number) => MARGIN.left + ((id - idMin) / (idMax - idMin)) * PLOT_W;
+  const sy = (iq: number) => MARGIN.top + PLOT_H - ((iq - iqMin) / (iqMax - iqMin)) * PLOT_H;
+
+  // Polyline path that breaks where the curve has no point
+  const curvePath = (curve: CurrentPlanePoint[]) => {
+    let path = '';
+    let drawing = false;
+    curve.forEach(pt => {
+      if (pt.iq === null) {
+        drawing = false;
+        return;
+      }
+      path += `${drawing ? 'L' : 'M'}${sx(pt.id)},${sy(pt.iq)}`;
+      drawing = true;
+    });
+    return path;
+  };
+
+  // Reachable area under the voltage limit, closed down to iq = 0
+  const voltageArea = () => {
+    const segments: CurrentPlanePoint[][] = [];
+    geometry.voltageLimit.forEach((pt, i) => {
+      if (pt.iq === null) return;
+      if (i === 0 || geometry.voltageLimit[i - 1].iq === null) segments.push([]);
+      segments[segments.length - 1].push(pt);
+    });
+    return segments
+      .map(seg => `M${sx(seg[0].id)},${sy(0)}${seg.map(pt => `L${sx(pt.id)},${sy(pt.iq!)}`).join('')}L${sx(seg[seg.length - 1].id)},${sy(0)}Z`)
+      .join('');
+  };
+
+  // Label position: the rightmost visible point of a curve
+  const labelPoint = (curve: CurrentPlanePoint[]) => {
+    for (let i = curve.length - 1; i >= 0; i--) {
+      const iq = curve[i].iq;
+      if (iq !== null && iq <= iqMax) return { id: curve[i].id, iq };
+    }
+    return null;
+  };
+
+  const regionLabels: Record<OperatingRegion, string> = {
+    constantTorque: t.regionConstantTorque,
+    fluxWeakening: t.regionFluxWeakening,
+    mtpv: t.regionMtpv,
+    voltageLimited: t.regionVoltageLimited
+  };
+
+  const trail = points.slice(0, Math.min(index, points.length - 1) + 1);
+  const currentMag = Math.hypot(current.id, current.iq);
+  const xTicks = niceTicks(idMin, idMax);
+  const yTicks = niceTicks(iqMin, iqMax);
+
+  const legend = [
+    { label: t.currentLimit, color: CURRENT_LIMIT_COLOR, dash: undefined },
+    { label: t.voltageLimitCurve, color: COLORS.accent, dash: undefined },
+    { label: t.mtpaTrajectory, color: COLORS.primary, dash: undefined },
+    { label: t.constantTorqueCurves, color: TORQUE_COLOR, dash: '4 3' },
+    { label: t.operatingTrajectory, color: COLORS.secondary, dash: undefined }
+  ];
+
+  return (
+    <div className="flex-1 flex flex-col">
+      <div className="flex flex-wrap items-center gap-3 mb-2">
+        <button
+          type="button"
+          onClick={() => {
+            if (!playing && index >= points.length - 1) setIndex(0);
+            setPlaying(!playing);
+          }}
+          className="px-3 py-1 rounded bg-blue-600 text-white text-xs font-medium hover:bg-blue-700"
+        >
+          {playing ? t.pause : t.play}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={points.length - 1}
+          value={Math.min(index, points.length - 1)}
+          onChange={e => {
+            setPlaying(false);
+            setIndex(parseInt(e.target.value, 10));
+          }}
+          className="flex-1 min-w-[160px]"
+        />
+        <span className="text-xs font-medium text-gray-700 w-24 text-right">{current.speedRPM} RPM</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2 mb-2 text-xs">
+        {[
+          [t.region, regionLabels[current.region]],
+          ['id', `${current.id.toFixed(2)} A`],
+          ['iq', `${current.iq.toFixed(2)} A`],
+          ['|i|', `${currentMag.toFixed(2)} A`],
+          [t.torqueNm.split(' ')[0], `${current.torque.toFixed(3)} Nm`],
+          [t.voltageUtilResult, `${(current.voltageIndex * 100).toFixed(1)} %`]
+        ].map(([label, value]) => (
+          <div key={label} className="px-2 py-1 bg-gray-100 rounded-md">
+            <span className="text-gray-500 block">{label}</span>
+            <span className="font-semibold text-gray-800">{value}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex-1 min-h-[400px]">
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-full" preserveAspectRatio="xMidYMid meet">
+          <defs>
+            <clipPath id={clipId}>
+              <rect x={MARGIN.left} y={MARGIN.top} width={PLOT_W} height={PLOT_H} />
+            </clipPath>
+          </defs>
+
+          <rect x={MARGIN.left} y={MARGIN.top} width={PLOT_W} height={PLOT_H} fill="#f8fafc" stroke={COLORS.grid} />
+          {xTicks.map(tick => (
+            <line key={`gx-${tick}`} x1={sx(tick)} x2={sx(tick)} y1={MARGIN.top} y2={MARGIN.top + PLOT_H} stroke={COLORS.grid} />
+          ))}
+          {yTicks.map(tick => (
+            <line key={`gy-${tick}`} x1={MARGIN.left} x2={MARGIN.left + PLOT_W} y1={sy(tick)} y2={sy(tick)} stroke={COLORS.grid} />
+          ))}
+
+          <g clipPath={`url(#${clipId})`}>
+            <line x1={sx(0)} x2={sx(0)} y1={MARGIN.top} y2={MARGIN.top + PLOT_H} stroke={COLORS.text} strokeWidth={0.8} />
+            <line x1={MARGIN.left} x2={MARGIN.left + PLOT_W} y1={sy(0)} y2={sy(0)} stroke={COLORS.text} strokeWidth={0.8} />
+
+            <path d={voltageArea()} fill={COLORS.accent} fillOpacity={0.12} stroke="none" />
+            <path d={curvePath(geometry.voltageLimit)} fill="none" stroke={COLORS.accent} strokeWidth={2} />
+
+            {geometry.torqueContours.map(contour => {
+              const label = labelPoint(contour.points);
+              return (
+                <g key={contour.torque}>
+                  <path d={curvePath(contour.points)} fill="none" stroke={TORQUE_COLOR} strokeWidth={1} strokeDasharray="4 3" />
+                  {label && (
+                    <text x={sx(label.id) - 4} y={sy(label.iq) - 4} fontSize={10} textAnchor="end" fill={COLORS.text}>
+                      {contour.torque.toFixed(3)} Nm
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+            {pointContour && (
+              <path d={curvePath(pointContour.points)} fill="none" stroke={COLORS.secondary} strokeWidth={1} strokeDasharray="2 2" />
+            )}
+
+            <circle cx={sx(0)} cy={sy(0)} r={sx(imax) - sx(0)} fill="none" stroke={CURRENT_LIMIT_COLOR} strokeWidth={2} />
+            <path d={curvePath(geometry.mtpa)} fill="none" stroke={COLORS.primary} strokeWidth={2} />
+
+            <polyline
+              points={points.map(pt => `${sx(pt.id)},${sy(pt.iq)}`).join(' ')}
+              fill="none"
+              stroke={COLORS.secondary}
+              strokeWidth={1}
+              opacity={0.3}
+            />
+            <polyline
+              points={trail.map(pt => `${sx(pt.id)},${sy(pt.iq)}`).join(' ')}
+              fill="none"
+              stroke={COLORS.secondary}
+              strokeWidth={2.5}
+            />
+            <line x1={sx(0)} y1={sy(0)} x2={sx(current.id)} y2={sy(current.iq)} stroke={COLORS.text} strokeWidth={1.5} />
+            <circle cx={sx(current.id)} cy={sy(current.iq)} r={6} fill={COLORS.secondary} stroke="white" strokeWidth={2} />
+          </g>
+
+          {/* Axes */}
+          {xTicks.map(tick => (
+            <g key={`x-${tick}`}>
+              <line x1={sx(tick)} x2={sx(tick)} y1={MARGIN.top + PLOT_H} y2={MARGIN.top + PLOT_H + 5} stroke={COLORS.text} />
+              <text x={sx(tick)} y={MARGIN.top + PLOT_H + 18} fontSize={11} textAnchor="middle" fill={COLORS.text}>{formatTick(tick)}</text>
+            </g>
+          ))}
+          {yTicks.map(tick => (
+            <g key={`y-${tick}`}>
+              <line x1={MARGIN.left - 5} x2={MARGIN.left} y1={sy(tick)} y2={sy(tick)} stroke={COLORS.text} />
+              <text x={MARGIN.left - 8} y={sy(tick) + 4} fontSize={11} textAnchor="end" fill={COLORS.text}>{formatTick(tick)}</text>
+            </g>
+          ))}
+          <text x={MARGIN.left + PLOT_W / 2} y={HEIGHT - 8} fontSize={12} textAnchor="middle" fill={COLORS.text}>id (A)</text>
+          <text
+            x={16}
+            y={MARGIN.top + PLOT_H / 2}
+            fontSize={12}
+            textAnchor="middle"
+            fill={COLORS.text}
+            transform={`rotate(-90, 16, ${MARGIN.top + PLOT_H / 2})`}
+          >
+            iq (A)
+          </text>
+
+          {/* Legend */}
+          {legend.map((entry, i) => (
+            <g key={entry.label} transform={`translate(${MARGIN.left + PLOT_W + 16}, ${MARGIN.top + 10 + i * 22})`}>
+              <line x1={0} x2={20} y1={0} y2={0} stroke={entry.color} strokeWidth={2} strokeDasharray={entry.dash} />
+              <text x={26} y={4} fontSize={11} fill={COLORS.text}>{entry.label}</text>
+            </g>
+          ))}
+        </svg>
+      </div>
+      <p className="mt-2 text-xs text-gray-400">{t.currentPlaneNote}</p>
+    </div>
+  );
+};
+
+export default CurrentPlaneView;
@@ -0,0 +1,278 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { Diagnostic, Language, MotorParams, SimulationResult } from '../types';
+import { COLORS, TRANSLATIONS } from '../constants';
+import FormulaBlock from './FormulaBlock';
+import { getParamLabels, formatParamValue } from '../utils/paramLabels';
+import { getDiagnosticMessages, getSeverityLabels } from '../utils/validation';
+import { niceTicks, formatTick } from './Heatmap';
+
+export interface DesignReportProps {
+  language: Language;
+  projectName: string;
+  designName: string;
+  params: MotorParams;
+  result: SimulationResult;
+  diagnostics: Diagnostic[];
+  generatedAt: Date;
+}
+
+// SI units of the stored values (the form shows some of them scaled)
+const PARAM_UNITS: Partial<Record<keyof MotorParams, string>> = {
+  rs: 'Ω',
+  ld: 'H',
+  lq: 'H',
+  psif: 'Wb',
+  vdc: 'V',
+  imax: 'A',
+  maxSpeed: 'RPM',
+  ironLossHyst: 'W/Hz·Wb²',
+  ironLossEddy: 'W/Hz²·Wb²',
+  frictionTorque: 'Nm',
+  windageCoeff: 'W/(rad/s)³',
+  referenceTemp: '°C',
+  windingTemp: '°C',
+  magnetTemp: '°C',
+  copperTempCoeff: '%/K',
+  magnetTempCoeff: '%/K',
+  ambientTemp: '°C',
+  thermalResWinding: 'K/W',
+  thermalResMagnet: 'K/W',
+  thermalResCooling: 'K/W',
+  thermalCapWinding: 'J/K',
+  thermalCapMagnet: 'J/K',
+  thermalCapHousing: 'J/K',
+  maxWindingTemp: '°C',
+  maxMagnetTemp: '°C'
+};
+
+const SEVERITY_COLORS = { error: '#dc2626', warning: '#d97706', info: '#6b7280' };
+
+// Printed on A4 with the browser's default margins
+const REPORT_STYLES = `
+  body { font-family: 'Inter', 'Helvetica Neue', Arial, 'PingFang SC', 'Microsoft YaHei', sans-serif; color: #1e293b; margin: 32px auto; max-width: 760px; font-size: 13px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 28px 0 8px; padding-bottom: 4px; border-bottom: 1px solid #e2e8f0; }
+  .meta { color: #64748b; font-size: 12px; }
+  .meta span { margin-right: 16px; }
+  .results { display: grid; grid-template-columns: repeat(3, 1fr); gap: 8px; }
+  .results div { background: #f1f5f9; border-radius: 6px; padding: 6px 10px; }
+  .results .label { display: block; color: #64748b; font-size: 11px; }
+  .results .value { font-weight: bold; font-size: 14px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 3px 8px; border-bottom: 1px solid #f1f5f9; }
+  th { color: #64748b; font-weight: 600; border-bottom-color: #e2e8f0; }
+  td.number { text-align: right; font-variant-numeric: tabular-nums; }
+  .diagnostics li { margin-bottom: 4px; }
+  .severity { font-weight: bold; margin-right: 6px; }
+  .detail { color: #64748b; }
+  .formulas { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 12px; }
+  .formulas h4 { display: none; }
+  .formulas p { margin: 3px 0; }
+  .formulas .uppercase { text-transform: uppercase; color: #64748b; font-family: inherit; margin-top: 12px; }
+  .formulas .italic { font-style: italic; color: #64748b; margin-top: 12px; }
+  svg { display: block; }
+  section { page-break-inside: avoid; }
+  @media print { body { margin: 0 auto; } }
+`;
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 340;
+const MARGIN = { top: 30, right: 64, bottom: 44, left: 64 };
+
+// Ticks from zero up to the first tick at or above max
+const axisTicks = (max: number, count?: number) => {
+  const ticks = niceTicks(0, max, count);
+  if (ticks.length > 1 && ticks[ticks.length - 1] < max) {
+    ticks.push(parseFloat((2 * ticks[ticks.length - 1] - ticks[ticks.length - 2]).toPrecision(10)));
+  }
+  return ticks;
+};
+
+/**
+ * Torque and power over speed on two axes, drawn directly as SVG so the report
+ * does not depend on the chart currently shown in the results panel.
+ */
+const EnvelopeChart: React.FC<{ result: SimulationResult; language: Language }> = ({ result, language }) => {
+  const t = TRANSLATIONS[language];
+  const points = result.points.filter(pt => pt.torque >= 0);
+  const plotWidth = CHART_WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = CHART_HEIGHT - MARGIN.top - MARGIN.bottom;
+
+  const speedTicks = axisTicks(Math.max(...points.map(pt => pt.speedRPM), 1));
+  const torqueTicks = axisTicks(Math.max(result.maxTorque, 1e-3), 5);
+  const powerTicks = axisTicks(Math.max(result.maxPower, 1e-3), 5);
+  const xMax = speedTicks[speedTicks.length - 1];
+  const torqueMax = torqueTicks[torqueTicks.length - 1];
+  const powerMax = powerTicks[powerTicks.length - 1];
+
+  const x = (speed: number) => MARGIN.left + (speed / xMax) * plotWidth;
+  const yTorque = (torque: number) => MARGIN.top + plotHeight * (1 - torque / torqueMax);
+  const yPower = (power: number) => MARGIN.top + plotHeight * (1 - power / powerMax);
+  const path = (y: (value: number) => number, key: 'torque' | 'power') =>
+    points.map(pt => `${x(pt.speedRPM).toFixed(1)},${y(pt[key]).toFixed(1)}`).join(' ');
+
+  const torqueLabel = t.torqueNm;
+  const powerLabel = t.powerkW;
+  const bottom = MARGIN.top + plotHeight;
+
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" width={CHART_WIDTH} height={CHART_HEIGHT} viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} fontSize={11}>
+      {speedTicks.map(speed => (
+        <g key={`x${speed}`}>
+          <line x1={x(speed)} y1={MARGIN.top} x2={x(speed)} y2={bottom} stroke={COLORS.grid} />
+          <text x={x(speed)} y={bottom + 16} textAnchor="middle" fill="#64748b">{formatTick(speed)}</text>
+        </g>
+      ))}
+      {torqueTicks.map(torque => (
+        <g key={`t${torque}`}>
+          <line x1={MARGIN.left} y1={yTorque(torque)} x2={MARGIN.left + plotWidth} y2={yTorque(torque)} stroke={COLORS.grid} />
+          <text x={MARGIN.left - 6} y={yTorque(torque) + 4} textAnchor="end" fill={COLORS.primary}>{formatTick(torque)}</text>
+        </g>
+      ))}
+      {powerTicks.map(power => (
+        <text key={`p${power}`} x={MARGIN.left + plotWidth + 6} y={yPower(power) + 4} fill={COLORS.secondary}>{formatTick(power)}</text>
+      ))}
+      <rect x={MARGIN.left} y={MARGIN.top} width={plotWidth} height={plotHeight} fill="none" stroke="#94a3b8" />
+
+      {result.baseSpeed > 0 && result.baseSpeed < xMax && (
+        <g>
+          <line x1={x(result.baseSpeed)} y1={MARGIN.top} x2={x(result.baseSpeed)} y2={bottom} stroke={COLORS.accent} strokeDasharray="4 3" />
+          <text x={x(result.baseSpeed) + 4} y={MARGIN.top + 12} fill={COLORS.accent}>{t.baseSpeed}</text>
+        </g>
+      )}
+      <polyline points={path(yTorque, 'torque')} fill="none" stroke={COLORS.primary} strokeWidth={2} />
+      <polyline points={path(yPower, 'power')} fill="none" stroke={COLORS.secondary} strokeWidth={2} />
+
+      <text x={MARGIN.left + plotWidth / 2} y={CHART_HEIGHT - 8} textAnchor="middle" fill="#1e293b">{t.speedRPM}</text>
+      <text transform={`translate(16 ${MARGIN.top + plotHeight / 2}) rotate(-90)`} textAnchor="middle" fill={COLORS.primary}>{torqueLabel}</text>
+      <text transform={`translate(${CHART_WIDTH - 12} ${MARGIN.top + plotHeight / 2}) rotate(90)`} textAnchor="middle" fill={COLORS.secondary}>{powerLabel}</text>
+
+      <line x1={MARGIN.left} y1={14} x2={MARGIN.left + 16} y2={14} stroke={COLORS.primary} strokeWidth={3} />
+      <text x={MARGIN.left + 22} y={18} fill={COLORS.primary}>{torqueLabel}</text>
+      <line x1={MARGIN.left + 140} y1={14} x2={MARGIN.left + 156} y2={14} stroke={COLORS.secondary} strokeWidth={3} />
+      <text x={MARGIN.left + 162} y={18} fill={COLORS.secondary}>{powerLabel}</text>
+    </svg>
+  );
+};
+
+/**
+ * Printable summary of one design for reviews: inputs, envelope, key results,
+ * model equations and the diagnostics, in the interface language.
+ */
+const DesignReport: React.FC<DesignReportProps> = ({
+  language,
+  projectName,
+  designName,
+  params,
+  result,
+  diagnostics,
+  generatedAt
+}) => {
+  const t = TRANSLATIONS[language];
+  const paramLabels = getParamLabels(t);
+  const messages = getDiagnosticMessages(t);
+  const severityLabels = getSeverityLabels(t);
+  const { points } = result;
+  const title = [projectName, designName].filter(Boolean).join(' · ');
+
+  const keyResults: [string, string][] = [
+    [t.maxTorque, `${result.maxTorque.toFixed(2)} Nm`],
+    [t.baseSpeed, `${result.baseSpeed.toFixed(0)} RPM`],
+    [t.peakPower, `${result.maxPower.toFixed(2)} kW`],
+    [t.mtpaAngle, `${points[0]?.currentAngle.toFixed(1) ?? '—'}°`],
+    [t.maxFwAngle, `${points[points.length - 1]?.currentAngle.toFixed(1) ?? '—'}°`],
+    [t.voltageUtilResult, `${((points[points.length - 1]?.voltageIndex ?? 0) * 100).toFixed(1)}%`]
+  ];
+
+  return (
+    <html lang={language === 'zh' ? 'zh-CN' : 'en'}>
+      <head>
+        <meta charSet="utf-8" />
+        <title>{`${t.designReport} – ${title}`}</title>
+        <style dangerouslySetInnerHTML={{ __html: REPORT_STYLES }} />
+      </head>
+      <body>
+        <h1>{t.designReport}</h1>
+        <p className="meta">
+          <span>{t.reportProject}: {projectName}</span>
+          <span>{t.design}: {designName}</span>
+          <span>{t.reportGenerated}: {generatedAt.toLocaleString(language === 'zh' ? 'zh-CN' : 'en-US')}</span>
+        </p>
+
+        <section>
+          <h2>{t.calcPerformance}</h2>
+          <div className="results">
+            {keyResults.map(([label, value]) => (
+              <div key={label}>
+                <span className="label">{label}</span>
+                <span className="value">{value}</span>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <h2>{t.tnCurve}</h2>
+          <EnvelopeChart result={result} language={language} />
+        </section>
+
+        <section>
+          <h2>{t.diagnostics}</h2>
+          {diagnostics.length === 0 ? (
+            <p className="detail">{t.reportNoWarnings}</p>
+          ) : (
+            <ul className="diagnostics">
+              {diagnostics.map((diagnostic, index) => (
+                <li key={index}>
+                  <span className="severity" style={{ color: SEVERITY_COLORS[diagnostic.severity] }}>
+                    {severityLabels[diagnostic.severity]}
+                  </span>
+                  {diagnostic.field && <strong>{paramLabels[diagnostic.field]}: </strong>}
+                  {messages[diagnostic.code]}
+                  {diagnostic.detail && <span className="detail"> ({diagnostic.detail})</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section>
+          <h2>{t.motorParams}</h2>
+          <table>
+            <thead>
+              <tr>
+                <th>{t.parameter}</th>
+                <th style={{ textAlign: 'right' }}>{t.reportValue}</th>
+                <th>{t.reportUnit}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(Object.keys(paramLabels) as (keyof MotorParams)[]).map(key => (
+                <tr key={key}>
+                  <td>{paramLabels[key]}</td>
+                  <td className="number">{formatParamValue(params[key])}</td>
+                  <td>{PARAM_UNITS[key] ?? ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        <section className="formulas">
+          <h2>{t.mathModel}</h2>
+          <FormulaBlock language={language} enableFluxWeakening={params.enableFluxWeakening} />
+        </section>
+      </body>
+    </html>
+  );
+};
+
+/**
+ * Standalone HTML document of the report; styles and chart are inline so the file
+ * opens and prints without the app.
+ */
+export const buildReportHtml = (props: DesignReportProps): string =>
+  `<!DOCTYPE html>${renderToStaticMarkup(<DesignReport {...props} />)}`;
+
+export default DesignReport;
@@ -0,0 +1,179 @@
+import React from 'react';
+import { Design, DesignSummary, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { relativeDelta } from '../utils/workspace';
+
+interface DesignWorkspaceProps {
+  designs: Design[];
+  summaries: Record<string, DesignSummary>;
+  activeDesignId: string;
+  baselineDesignId: string;
+  language: Language;
+  onSelect: (id: string) => void;
+  onSetBaseline: (id: string) => void;
+  onUpdate: (id: string, changes: Partial<Omit<Design, 'id' | 'params'>>) => void;
+  onDuplicate: () => void;
+  onRemove: (id: string) => void;
+}
+
+interface MetricColumn {
+  key: keyof DesignSummary;
+  label: string;
+  unit: string;
+  digits: number;
+}
+
+// Angle deltas are shown in degrees, everything else in percent
+const formatDelta = (metric: MetricColumn, value: number, baseline: number) => {
+  if (metric.key === 'mtpaAngle') {
+    const diff = value - baseline;
+    return `${diff >= 0 ? '+' : '−'}${Math.abs(diff).toFixed(1)}°`;
+  }
+  const delta = relativeDelta(value, baseline);
+  if (delta === null) return '—';
+  return `${delta >= 0 ? '+' : '−'}${Math.abs(delta).toFixed(1)}%`;
+};
+
+const DesignWorkspace: React.FC<DesignWorkspaceProps> = ({
+  designs,
+  summaries,
+  activeDesignId,
+  baselineDesignId,
+  language,
+  onSelect,
+  onSetBaseline,
+  onUpdate,
+  onDuplicate,
+  onRemove
+}) => {
+  const t = TRANSLATIONS[language];
+  const baseline = summaries[baselineDesignId];
+
+  const metrics: MetricColumn[] = [
+    { key: 'maxTorque', label: t.maxTorque, unit: 'Nm', digits: 3 },
+    { key: 'baseSpeed', label: t.baseSpeed, unit: 'RPM', digits: 0 },
+    { key: 'maxPower', label: t.peakPower, unit: 'kW', digits: 3 },
+    { key: 'mtpaAngle', label: t.mtpaAngle, unit: '°', digits: 1 }
+  ];
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <svg className="w-6 h-6 text-purple-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h7" />
+          </svg>
+          <h2 className="text-xl font-bold text-gray-800">{t.designComparison}</h2>
+        </div>
+        <button
+          type="button"
+          onClick={onDuplicate}
+          className="px-3 py-1 rounded border border-gray-300 text-xs font-medium text-gray-700 hover:bg-gray-50"
+        >
+          + {t.duplicateDesign}
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs text-gray-700">
+          <thead>
+            <tr className="border-b text-gray-500">
+              <th className="text-left py-1 pr-2">{t.showOnChart}</th>
+              <th className="text-left py-1 pr-4">{t.designName}</th>
+              <th className="text-center py-1 pr-4">{t.baseline}</th>
+              {metrics.map(metric => (
+                <th key={metric.key} className="text-right py-1 pr-4">{metric.label}</th>
+              ))}
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {designs.map(design => {
+              const summary = summaries[design.id];
+              const isActive = design.id === activeDesignId;
+              const isBaseline = design.id === baselineDesignId;
+              return (
+                <tr
+                  key={design.id}
+                  className={`border-b border-gray-100 ${isActive ? 'bg-blue-50' : ''}`}
+                >
+                  <td className="py-1 pr-2">
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={design.visible || isActive}
+                        disabled={isActive}
+                        onChange={(e) => onUpdate(design.id, { visible: e.target.checked })}
+                        className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      <input
+                        type="color"
+                        value={design.color}
+                        onChange={(e) => onUpdate(design.id, { color: e.target.value })}
+                        className="w-5 h-5 p-0 border-0 bg-transparent cursor-pointer"
+                      />
+                    </div>
+                  </td>
+                  <td className="py-1 pr-4">
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="text"
+                        value={design.name}
+                        onChange={(e) => onUpdate(design.id, { name: e.target.value })}
+                        className="w-32 rounded border border-gray-300 px-2 py-0.5 text-xs bg-gray-50"
+                      />
+                      {isActive ? (
+                        <span className="text-blue-700 font-semibold">{t.editing}</span>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => onSelect(design.id)}
+                          className="text-blue-600 hover:text-blue-800 font-medium"
+                        >
+                          {t.edit}
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                  <td className="text-center py-1 pr-4">
+                    <input
+                      type="radio"
+                      name="baseline-design"
+                      checked={isBaseline}
+                      onChange={() => onSetBaseline(design.id)}
+                      className="w-4 h-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                    />
+                  </td>
+                  {metrics.map(metric => (
+                    <td key={metric.key} className="text-right py-1 pr-4 whitespace-nowrap">
+                      {summary ? summary[metric.key].toFixed(metric.digits) : '—'} {metric.unit}
+                      {summary && baseline && !isBaseline && (
+                        <span className="ml-1 text-gray-500">
+                          ({formatDelta(metric, summary[metric.key], baseline[metric.key])})
+                        </span>
+                      )}
+                    </td>
+                  ))}
+                  <td className="text-right py-1">
+                    {designs.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => onRemove(design.id)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        {t.removeDesign}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-2 text-xs text-gray-400">{t.deltaVsBaseline}</p>
+    </div>
+  );
+};
+
+export default DesignWorkspace;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Diagnostic, DiagnosticSeverity, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { getParamLabels } from '../utils/paramLabels';
+import { getDiagnosticMessages, getSeverityLabels } from '../utils/validation';
+
+interface DiagnosticsPanelProps {
+  diagnostics: Diagnostic[];
+  language: Language;
+}
+
+export const SEVERITY_STYLES: Record<DiagnosticSeverity, string> = {
+  error: 'text-red-600',
+  warning: 'text-amber-600',
+  info: 'text-gray-500'
+};
+
+const BADGE_STYLES: Record<DiagnosticSeverity, string> = {
+  error: 'bg-red-100 text-red-700',
+  warning: 'bg-amber-100 text-amber-700',
+  info: 'bg-gray-100 text-gray-600'
+};
+
+/**
+ * Findings of the input validation and the solver, most severe first.
+ * Hidden while the design has none.
+ */
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ diagnostics, language }) => {
+  const t = TRANSLATIONS[language];
+  if (diagnostics.length === 0) return null;
+
+  const messages = getDiagnosticMessages(t);
+  const severityLabels = getSeverityLabels(t);
+  const fieldLabels = getParamLabels(t);
+  const errors = diagnostics.filter(d => d.severity === 'error').length;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-bold text-gray-700">{t.diagnostics}</h3>
+        {errors > 0 && <span className="text-xs font-medium text-red-600">{t.diagnosticsErrorNote}</span>}
+      </div>
+      <ul className="space-y-2 text-xs">
+        {diagnostics.map((diagnostic, index) => (
+          <li key={`${diagnostic.code}-${diagnostic.field}-${index}`} className="flex items-start gap-2">
+            <span className={`shrink-0 px-1.5 py-0.5 rounded font-semibold ${BADGE_STYLES[diagnostic.severity]}`}>
+              {severityLabels[diagnostic.severity]}
+            </span>
+            <span className="text-gray-700">
+              {diagnostic.field && <span className="font-semibold">{fieldLabels[diagnostic.field]}: </span>}
+              {messages[diagnostic.code]}
+              {diagnostic.detail && <span className="text-gray-500"> ({diagnostic.detail})</span>}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
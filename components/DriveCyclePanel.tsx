@@ -0,0 +1,295 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  ComposedChart,
+  Line,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { Language, MotorParams, VehicleParams, DriveCycleInput, DriveCycleSource } from '../types';
+import { COLORS, TRANSLATIONS } from '../constants';
+import { parseCsv, CsvTable, ColumnField } from '../utils/csv';
+import { buildDriveCycleInput, getDriveCycleSamples, simulateDriveCycle, DRIVE_CYCLE_COLUMN_ALIASES } from '../utils/driveCycle';
+import ColumnMappingDialog from './ColumnMappingDialog';
+
+interface DriveCyclePanelProps {
+  params: MotorParams;
+  cycle: DriveCycleInput | null;
+  onCycleChange: (cycle: DriveCycleInput | null) => void;
+  vehicle: VehicleParams;
+  onVehicleChange: (vehicle: VehicleParams) => void;
+  language: Language;
+}
+
+const FAIL_COLOR = '#dc2626'; // Red 600
+
+const DriveCyclePanel: React.FC<DriveCyclePanelProps> = ({ params, cycle, onCycleChange, vehicle, onVehicleChange, language }) => {
+  const t = TRANSLATIONS[language];
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [source, setSource] = useState<DriveCycleSource>(cycle?.source ?? 'motor');
+  const [pending, setPending] = useState<{ name: string; table: CsvTable } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const result = useMemo(() => {
+    return cycle ? simulateDriveCycle(params, getDriveCycleSamples(cycle, vehicle)) : null;
+  }, [params, cycle, vehicle]);
+
+  // Consecutive failing samples merged into shaded time ranges
+  const failRanges = useMemo(() => {
+    if (!result) return [];
+    const ranges: { from: number; to: number }[] = [];
+    result.points.forEach((pt, i) => {
+      if (pt.status === 'pass') return;
+      const from = i > 0 ? (result.points[i - 1].time + pt.time) / 2 : pt.time;
+      const to = i < result.points.length - 1 ? (pt.time + result.points[i + 1].time) / 2 : pt.time;
+      const last = ranges[ranges.length - 1];
+      if (last && last.to >= from) last.to = to;
+      else ranges.push({ from, to });
+    });
+    return ranges;
+  }, [result]);
+
+  // The envelope only covers positive speed: reverse samples are shown mirrored
+  const scatter = useMemo(() => {
+    const mirrored = (result?.points ?? []).map(pt => ({
+      speedRPM: Math.abs(pt.speedRPM),
+      torque: pt.speedRPM < 0 ? -pt.torque : pt.torque,
+      pass: pt.status === 'pass'
+    }));
+    return { pass: mirrored.filter(pt => pt.pass), fail: mirrored.filter(pt => !pt.pass) };
+  }, [result]);
+
+  const fields: ColumnField[] = source === 'motor'
+    ? [
+        { key: 'time', label: t.timeS, required: true, aliases: DRIVE_CYCLE_COLUMN_ALIASES.time },
+        { key: 'speedRPM', label: t.speedRPM, required: true, aliases: DRIVE_CYCLE_COLUMN_ALIASES.speedRPM },
+        { key: 'torque', label: t.torqueNm, required: true, aliases: DRIVE_CYCLE_COLUMN_ALIASES.torque }
+      ]
+    : [
+        { key: 'time', label: t.timeS, required: true, aliases: DRIVE_CYCLE_COLUMN_ALIASES.time },
+        { key: 'speedKph', label: t.vehicleSpeed, required: true, aliases: DRIVE_CYCLE_COLUMN_ALIASES.speedKph },
+        { key: 'gradePct', label: t.gradePct, aliases: DRIVE_CYCLE_COLUMN_ALIASES.gradePct }
+      ];
+
+  const vehicleFields: { key: keyof VehicleParams; label: string; step: number }[] = [
+    { key: 'mass', label: t.vehicleMass, step: 1 },
+    { key: 'wheelRadius', label: t.wheelRadius, step: 0.001 },
+    { key: 'gearRatio', label: t.gearRatio, step: 0.1 },
+    { key: 'gearEfficiency', label: t.gearEfficiency, step: 0.01 },
+    { key: 'roadLoadA', label: t.roadLoadA, step: 0.1 },
+    { key: 'roadLoadB', label: t.roadLoadB, step: 0.01 },
+    { key: 'roadLoadC', label: t.roadLoadC, step: 0.001 }
+  ];
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const table = parseCsv(await file.text());
+    if (table.rows.length === 0) {
+      setError(t.emptyCsv);
+      return;
+    }
+    setError(null);
+    setPending({ name: file.name, table });
+  };
+
+  const handleConfirm = (mapping: Record<string, number | null>) => {
+    if (!pending) return;
+    try {
+      onCycleChange(buildDriveCycleInput(pending.table, mapping, source, pending.name));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    setPending(null);
+  };
+
+  const handleVehicleChange = (key: keyof VehicleParams, text: string) => {
+    const value = parseFloat(text);
+    // Radius, ratio and efficiency divide the force; keep them strictly positive
+    const valid = key === 'wheelRadius' || key === 'gearRatio' || key === 'gearEfficiency' ? value > 0 : value >= 0;
+    if (isFinite(value) && valid) onVehicleChange({ ...vehicle, [key]: value });
+  };
+
+  const sampleCount = cycle ? (cycle.source === 'motor' ? cycle.samples.length : cycle.profile.length) : 0;
+  const formatPct = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+
+  const stats = result ? [
+    { label: t.duration, value: `${result.duration.toFixed(1)} s` },
+    { label: t.netEnergy, value: `${result.energyWh.toFixed(3)} Wh` },
+    { label: t.motoringEnergy, value: `${result.motoringEnergyWh.toFixed(3)} Wh` },
+    { label: t.regenEnergy, value: `${result.regenEnergyWh.toFixed(3)} Wh` },
+    { label: t.lossEnergy, value: `${result.lossEnergyWh.toFixed(3)} Wh` },
+    { label: t.averageEfficiency, value: formatPct(result.averageEfficiency) },
+    { label: t.regenEfficiency, value: formatPct(result.regenEfficiency) }
+  ] : [];
+
+  return (
+    <div>
+      <p className="text-xs text-gray-500 mb-3">{t.driveCycleHint}</p>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div className="flex items-center space-x-2 text-xs text-gray-700">
+          <span className="font-medium">{t.cycleSource}</span>
+          <select
+            value={source}
+            onChange={e => setSource(e.target.value as DriveCycleSource)}
+            className="border border-gray-300 rounded px-2 py-1 text-xs"
+          >
+            <option value="motor">{t.motorCycle}</option>
+            <option value="vehicle">{t.vehicleCycle}</option>
+          </select>
+          <span className="text-gray-500">
+            {cycle && `${cycle.name} · ${sampleCount} ${t.points}`}
+          </span>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            type="button"
+            onClick={() => fileRef.current?.click()}
+            className="px-3 py-1 rounded border border-gray-300 text-xs font-medium text-gray-700 hover:bg-gray-50"
+          >
+            {t.importCycleCsv}
+          </button>
+          {cycle && (
+            <button
+              type="button"
+              onClick={() => onCycleChange(null)}
+              className="px-3 py-1 rounded border border-gray-300 text-xs font-medium text-red-600 hover:bg-red-50"
+            >
+              {t.clear}
+            </button>
+          )}
+        </div>
+        <input ref={fileRef} type="file" accept=".csv,.txt,text/csv" className="hidden" onChange={handleFile} />
+      </div>
+
+      {(source === 'vehicle' || cycle?.source === 'vehicle') && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+          {vehicleFields.map(field => (
+            <label key={field.key} className="block text-xs font-medium text-gray-700">
+              {field.label}
+              <input
+                type="number"
+                step={field.step}
+                defaultValue={vehicle[field.key]}
+                onChange={e => handleVehicleChange(field.key, e.target.value)}
+                className="mt-1 block w-full rounded border border-gray-300 px-2 py-1 text-xs"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="mb-2 text-xs text-red-600">{error}</p>}
+
+      {result && (
+        <>
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-2 mb-4 text-xs text-gray-700">
+            <span
+              className={`px-2 py-0.5 rounded font-semibold ${result.failCount === 0 ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}
+            >
+              {result.failCount === 0 ? t.cyclePassed : `${result.failCount} ${t.cycleFailed}`}
+            </span>
+            {stats.map(stat => (
+              <span key={stat.label}>
+                <span className="text-gray-500">{stat.label}: </span>
+                <span className="font-semibold">{stat.value}</span>
+              </span>
+            ))}
+          </div>
+
+          <p className="text-xs font-semibold text-gray-500 uppercase mb-1">{t.cycleTimeline}</p>
+          {/* Pass/fail strip aligned with the plot area below (chart margin + default axis width) */}
+          <div
+            className="relative h-3 mb-1 rounded bg-green-200 overflow-hidden"
+            style={{ marginLeft: 80, marginRight: 90 }}
+            title={`${t.pass} / ${t.fail}`}
+          >
+            {result.duration > 0 && failRanges.map(range => (
+              <div
+                key={range.from}
+                className="absolute inset-y-0"
+                style={{
+                  left: `${((range.from - result.points[0].time) / result.duration) * 100}%`,
+                  width: `${Math.max(0.3, ((range.to - range.from) / result.duration) * 100)}%`,
+                  backgroundColor: FAIL_COLOR
+                }}
+              />
+            ))}
+          </div>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={result.points} margin={{ top: 10, right: 30, left: 20, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={COLORS.grid} />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  label={{ value: t.timeS, position: 'insideBottomRight', offset: -10 }}
+                />
+                <YAxis yAxisId="left" label={{ value: t.speedRPM, angle: -90, position: 'insideLeft' }} />
+                <YAxis yAxisId="right" orientation="right" label={{ value: t.torqueNm, angle: 90, position: 'insideRight' }} />
+                <Tooltip formatter={(value: number) => value.toFixed(3)} labelFormatter={(time: number) => `${time} s`} />
+                <Legend verticalAlign="top" height={30} />
+                <Line yAxisId="left" type="linear" dataKey="speedRPM" name={t.speedRPM} stroke={COLORS.primary} dot={false} isAnimationActive={false} />
+                <Line yAxisId="right" type="linear" dataKey="torque" name={t.torqueNm} stroke={COLORS.accent} dot={false} isAnimationActive={false} />
+                <Line
+                  yAxisId="right"
+                  type="linear"
+                  dataKey="limitTorque"
+                  name={t.limitTorque}
+                  stroke={FAIL_COLOR}
+                  strokeDasharray="4 4"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <p className="text-xs font-semibold text-gray-500 uppercase mt-4 mb-1">{t.cyclePoints}</p>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart margin={{ top: 10, right: 30, left: 20, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={COLORS.grid} />
+                <XAxis
+                  dataKey="speedRPM"
+                  type="number"
+                  domain={[0, 'dataMax']}
+                  label={{ value: t.speedRPM, position: 'insideBottomRight', offset: -10 }}
+                />
+                <YAxis type="number" label={{ value: t.torqueNm, angle: -90, position: 'insideLeft' }} />
+                <Tooltip formatter={(value: number) => value.toFixed(3)} />
+                <Legend verticalAlign="top" height={30} />
+                <Line data={result.motoring.points} type="monotone" dataKey="torque" name={t.motoring} stroke={COLORS.primary} strokeWidth={2} dot={false} isAnimationActive={false} />
+                <Line data={result.generating.points} type="monotone" dataKey="torque" name={t.generating} stroke={COLORS.secondary} strokeWidth={2} dot={false} isAnimationActive={false} />
+                <Scatter data={scatter.pass} dataKey="torque" name={t.pass} fill={COLORS.accent} isAnimationActive={false} />
+                <Scatter data={scatter.fail} dataKey="torque" name={t.fail} fill={FAIL_COLOR} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="mt-2 text-xs text-gray-400">{t.driveCycleNote}</p>
+        </>
+      )}
+
+      {pending && (
+        <ColumnMappingDialog
+          title={`${t.mapColumns}: ${pending.name}`}
+          table={pending.table}
+          fields={fields}
+          language={language}
+          onConfirm={handleConfirm}
+          onCancel={() => setPending(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DriveCyclePanel;
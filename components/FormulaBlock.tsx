@@ -0,0 +1,91 @@
+import React from 'react';
+import { Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+
+interface FormulaBlockProps {
+  language: Language;
+  enableFluxWeakening: boolean; // Selects the maximum speed formula
+}
+
+/**
+ * Equations of the model behind the envelope. Shown under the results and in the design report.
+ */
+const FormulaBlock: React.FC<FormulaBlockProps> = ({ language, enableFluxWeakening }) => {
+  const t = TRANSLATIONS[language];
+  return (
+    <div className="mt-4 p-4 bg-gray-50 rounded-lg border border-gray-200 text-sm text-gray-700 font-mono overflow-x-auto">
+      <h4 className="font-bold text-gray-900 mb-3 border-b pb-1">{t.mathModel}</h4>
+      
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div>
+          <p className="font-semibold text-xs text-gray-500 uppercase mb-1">{t.voltageEq}</p>
+          <div className="space-y-2">
+            <p>v<sub>d</sub> = R<sub>s</sub>i<sub>d</sub> - ω<sub>e</sub>L<sub>q</sub>i<sub>q</sub></p>
+            <p>v<sub>q</sub> = R<sub>s</sub>i<sub>q</sub> + ω<sub>e</sub>(L<sub>d</sub>i<sub>d</sub> + ψ<sub>f</sub>)</p>
+            <p>v<sub>s</sub> = √(v<sub>d</sub>² + v<sub>q</sub>²) ≤ V<sub>max</sub></p>
+            <p className="text-xs text-gray-400 mt-1">V<sub>max</sub> = k<sub>mod</sub> · V<sub>dc</sub> · η</p>
+          </div>
+        </div>
+
+        <div>
+          <p className="font-semibold text-xs text-gray-500 uppercase mb-1">{t.torqueFlux}</p>
+          <div className="space-y-2">
+            <p>T<sub>e</sub> = 1.5 · p · [ψ<sub>f</sub>i<sub>q</sub> + (L<sub>d</sub> - L<sub>q</sub>)i<sub>d</sub>i<sub>q</sub>]</p>
+            <p>ψ<sub>d</sub> = L<sub>d</sub>i<sub>d</sub> + ψ<sub>f</sub></p>
+            <p>ψ<sub>q</sub> = L<sub>q</sub>i<sub>q</sub></p>
+          </div>
+        </div>
+
+        <div>
+           {/* Base Speed Section */}
+           <p className="font-semibold text-xs text-gray-500 uppercase mb-1">{t.baseSpeedFormula}</p>
+           <div className="space-y-2 mb-4 border-b border-gray-200 pb-3">
+             <p>ω<sub>base</sub> ≈ V<sub>lim</sub> / ψ<sub>total</sub></p>
+             <p className="text-xs text-gray-600">ψ<sub>total</sub> = √[(L<sub>q</sub>i<sub>q</sub>)² + (L<sub>d</sub>i<sub>d</sub>+ψ<sub>f</sub>)²]</p>
+             <p className="text-xs text-gray-400">i<sub>d</sub>, i<sub>q</sub> @ I<sub>max</sub> (MTPA)</p>
+           </div>
+
+           <p className="font-semibold text-xs text-gray-500 uppercase mb-1">{t.maxSpeedTheory}</p>
+           {enableFluxWeakening ? (
+              <div className="space-y-2 bg-blue-50 p-2 rounded">
+                <p className="text-xs font-bold text-blue-700 mb-1">Flux Weakening Mode</p>
+                <p className="text-xs text-gray-600">Char. Current: I<sub>ch</sub> = ψ<sub>f</sub> / L<sub>d</sub></p>
+                <p>If I<sub>max</sub> &ge; I<sub>ch</sub>: <br/> &nbsp; MTPV, ω<sub>max</sub> @ T &lt; 1% T<sub>max</sub></p>
+                <p>If I<sub>max</sub> &lt; I<sub>ch</sub>: <br/> &nbsp; ω<sub>max</sub> = V<sub>lim</sub> / |ψ<sub>f</sub> - L<sub>d</sub>I<sub>max</sub>|</p>
+              </div>
+           ) : (
+              <div className="space-y-2 bg-orange-50 p-2 rounded">
+                <p className="text-xs font-bold text-orange-700 mb-1">No-Load (Back EMF) Mode</p>
+                <p>V<sub>lim</sub> = ω<sub>e</sub> · ψ<sub>f</sub></p>
+                <p>ω<sub>max</sub> = V<sub>lim</sub> / ψ<sub>f</sub></p>
+                <p className="text-xs text-gray-400 mt-1">Limited by generated voltage matching DC bus.</p>
+              </div>
+           )}
+        </div>
+      </div>
+      
+      <div className="mt-4 border-t border-gray-200 pt-3">
+        <p className="font-semibold text-xs text-gray-500 uppercase mb-1">{t.mtpaFormula}</p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <p>i<sub>d,MTPA</sub> = [ψ<sub>f</sub> − √(ψ<sub>f</sub>² + 8(L<sub>q</sub>−L<sub>d</sub>)²I²)] / 4(L<sub>q</sub>−L<sub>d</sub>)</p>
+          <p>ψ<sub>d,MTPV</sub> = [−ψ<sub>f</sub>L<sub>q</sub> + √((ψ<sub>f</sub>L<sub>q</sub>)² + 8(L<sub>q</sub>−L<sub>d</sub>)²ψ²)] / 4(L<sub>d</sub>−L<sub>q</sub>), ψ = V<sub>lim</sub>/ω<sub>e</sub></p>
+        </div>
+      </div>
+
+      <div className="mt-4 border-t border-gray-200 pt-3">
+        <p className="font-semibold text-xs text-gray-500 uppercase mb-1">{t.lossModel}</p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <p>P<sub>cu</sub> = 1.5 · R<sub>s</sub> · (i<sub>d</sub>² + i<sub>q</sub>²)</p>
+          <p>P<sub>fe</sub> = (k<sub>h</sub>f + k<sub>e</sub>f²) · ψ<sub>s</sub>²</p>
+          <p>P<sub>mech</sub> = T<sub>f</sub>ω<sub>m</sub> + k<sub>w</sub>ω<sub>m</sub>³</p>
+        </div>
+      </div>
+
+      <div className="mt-4 text-xs text-gray-500 italic">
+         {t.modelNote}
+      </div>
+    </div>
+  );
+};
+
+export default FormulaBlock;
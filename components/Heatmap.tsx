@@ -0,0 +1,263 @@
+import React, { useMemo, useId } from 'react';
+import { COLORS } from '../constants';
+
+export interface HeatmapOverlay {
+  points: { x: number; y: number }[];
+  color: string;
+  label: string;
+}
+
+interface HeatmapProps {
+  xValues: number[]; // Cell centers along X (uniformly spaced)
+  yValues: number[]; // Cell centers along Y (uniformly spaced)
+  values: (number | null)[][]; // [yIndex][xIndex], null cells are left blank
+  xLabel: string;
+  yLabel: string;
+  valueLabel: string;
+  formatValue?: (value: number) => string;
+  xDomain?: [number, number];
+  yDomain?: [number, number];
+  colorDomain?: [number, number];
+  contourLevels?: number[];
+  overlays?: HeatmapOverlay[];
+}
+
+// Viridis-like color stops
+const COLOR_STOPS = ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'];
+
+const WIDTH = 800;
+const HEIGHT = 440;
+const MARGIN = { top: 20, right: 90, bottom: 50, left: 70 };
+const PLOT_W = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_H = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+const hexToRgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+const interpolateColor = (ratio: number): string => {
+  const r = Math.min(1, Math.max(0, ratio)) * (COLOR_STOPS.length - 1);
+  const idx = Math.min(COLOR_STOPS.length - 2, Math.floor(r));
+  const frac = r - idx;
+  const a = hexToRgb(COLOR_STOPS[idx]);
+  const b = hexToRgb(COLOR_STOPS[idx + 1]);
+  const mix = a.map((c, i) => Math.round(c + (b[i] - c) * frac));
+  return `rgb(${mix[0]}, ${mix[1]}, ${mix[2]})`;
+};
+
+// Round tick spacing to 1, 2 or 5 x 10^n
+export const niceTicks = (min: number, max: number, count: number = 6): number[] => {
+  const span = max - min;
+  if (!(span > 0)) return [min];
+  const rawStep = span / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= rawStep) ?? rawStep;
+  const ticks: number[] = [];
+  for (let v = Math.ceil(min / step) * step; v <= max + step * 1e-6; v += step) {
+    ticks.push(parseFloat(v.toPrecision(10)));
+  }
+  return ticks;
+};
+
+export const formatTick = (v: number) => {
+  if (v === 0) return '0';
+  if (Math.abs(v) >= 1000 || Math.abs(v) < 0.01) return v.toPrecision(3).replace(/\.?0+e/, 'e');
+  return parseFloat(v.toPrecision(4)).toString();
+};
+
+/**
+ * Marching squares: returns contour line segments (in grid index space) for the given level.
+ * Cells touching a null value are skipped.
+ */
+const contourSegments = (values: (number | null)[][], level: number) => {
+  const segments: [number, number, number, number][] = [];
+  for (let j = 0; j < values.length - 1; j++) {
+    for (let i = 0; i < values[j].length - 1; i++) {
+      const v00 = values[j][i];
+      const v10 = values[j][i + 1];
+      const v01 = values[j + 1][i];
+      const v11 = values[j + 1][i + 1];
+      if (v00 === null || v10 === null || v01 === null || v11 === null) continue;
+
+      // Crossings on each cell edge (bottom, right, top, left)
+      const crossings: [number, number][] = [];
+      const edge = (a: number, b: number, ax: number, ay: number, bx: number, by: number) => {
+        if ((a < level) !== (b < level)) {
+          const f = (level - a) / (b - a);
+          crossings.push([ax + (bx - ax) * f, ay + (by - ay) * f]);
+        }
+      };
+      edge(v00, v10, i, j, i + 1, j);
+      edge(v10, v11, i + 1, j, i + 1, j + 1);
+      edge(v01, v11, i, j + 1, i + 1, j + 1);
+      edge(v00, v01, i, j, i, j + 1);
+
+      for (let k = 0; k + 1 < crossings.length; k += 2) {
+        segments.push([crossings[k][0], crossings[k][1], crossings[k + 1][0], crossings[k + 1][1]]);
+      }
+    }
+  }
+  return segments;
+};
+
+const Heatmap: React.FC<HeatmapProps> = ({
+  xValues,
+  yValues,
+  values,
+  xLabel,
+  yLabel,
+  valueLabel,
+  formatValue = (v) => v.toFixed(2),
+  xDomain,
+  yDomain,
+  colorDomain,
+  contourLevels = [],
+  overlays = []
+}) => {
+  const uid = useId();
+  const clipId = `heatmap-clip-${uid}`;
+  const legendId = `heatmap-legend-${uid}`;
+  const dx = xValues.length > 1 ? xValues[1] - xValues[0] : 1;
+  const dy = yValues.length > 1 ? yValues[1] - yValues[0] : 1;
+  const [xMin, xMax] = xDomain ?? [xValues[0] - dx / 2, xValues[xValues.length - 1] + dx / 2];
+  const [yMin, yMax] = yDomain ?? [yValues[0] - dy / 2, yValues[yValues.length - 1] + dy / 2];
+
+  const [cMin, cMax] = useMemo(() => {
+    if (colorDomain) return colorDomain;
+    const finite = values.flat().filter((v): v is number => v !== null && isFinite(v));
+    if (finite.length === 0) return [0, 1];
+    return [Math.min(...finite), Math.max(...finite)];
+  }, [values, colorDomain]);
+
+  const sx = (x: number) => MARGIN.left + ((x - xMin) / (xMax - xMin || 1)) * PLOT_W;
+  const sy = (y: number) => MARGIN.top + PLOT_H - ((y - yMin) / (yMax - yMin || 1)) * PLOT_H;
+  // Grid index space -> data space
+  const gx = (i: number) => xValues[0] + i * dx;
+  const gy = (j: number) => yValues[0] + j * dy;
+
+  const cellW = Math.abs(sx(dx) - sx(0)) + 0.5;
+  const cellH = Math.abs(sy(0) - sy(dy)) + 0.5;
+
+  const contours = useMemo(
+    () => contourLevels.map(level => ({ level, segments: contourSegments(values, level) })),
+    [values, contourLevels]
+  );
+
+  const xTicks = niceTicks(xMin, xMax);
+  const yTicks = niceTicks(yMin, yMax);
+  const legendTicks = niceTicks(cMin, cMax, 5);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-full" preserveAspectRatio="xMidYMid meet">
+      <defs>
+        <clipPath id={clipId}>
+          <rect x={MARGIN.left} y={MARGIN.top} width={PLOT_W} height={PLOT_H} />
+        </clipPath>
+        <linearGradient id={legendId} x1="0" y1="1" x2="0" y2="0">
+          {COLOR_STOPS.map((c, i) => (
+            <stop key={c} offset={`${(i / (COLOR_STOPS.length - 1)) * 100}%`} stopColor={c} />
+          ))}
+        </linearGradient>
+      </defs>
+
+      <rect x={MARGIN.left} y={MARGIN.top} width={PLOT_W} height={PLOT_H} fill="#f8fafc" stroke={COLORS.grid} />
+
+      <g clipPath={`url(#${clipId})`}>
+        {values.map((row, j) =>
+          row.map((v, i) => v === null ? null : (
+            <rect
+              key={`${i}-${j}`}
+              x={sx(xValues[i]) - cellW / 2}
+              y={sy(yValues[j]) - cellH / 2}
+              width={cellW}
+              height={cellH}
+              fill={interpolateColor((v - cMin) / (cMax - cMin || 1))}
+            >
+              <title>{`${xLabel}: ${formatTick(xValues[i])}\n${yLabel}: ${formatTick(yValues[j])}\n${valueLabel}: ${formatValue(v)}`}</title>
+            </rect>
+          ))
+        )}
+
+        {contours.map(({ level, segments }) => (
+          <g key={level}>
+            <path
+              d={segments.map(([x1, y1, x2, y2]) => `M${sx(gx(x1))},${sy(gy(y1))}L${sx(gx(x2))},${sy(gy(y2))}`).join('')}
+              stroke="white"
+              strokeWidth={1.2}
+              fill="none"
+              opacity={0.85}
+            />
+            {segments.length > 0 && (
+              <text
+                x={sx(gx(segments[Math.floor(segments.length / 2)][0]))}
+                y={sy(gy(segments[Math.floor(segments.length / 2)][1]))}
+                fontSize={11}
+                fill="white"
+                stroke="#1e293b"
+                strokeWidth={0.3}
+                fontWeight="bold"
+              >
+                {formatValue(level)}
+              </text>
+            )}
+          </g>
+        ))}
+
+        {overlays.map(overlay => (
+          <polyline
+            key={overlay.label}
+            points={overlay.points.map(pt => `${sx(pt.x)},${sy(pt.y)}`).join(' ')}
+            fill="none"
+            stroke={overlay.color}
+            strokeWidth={3}
+          />
+        ))}
+      </g>
+
+      {/* Axes */}
+      {xTicks.map(tick => (
+        <g key={`x-${tick}`}>
+          <line x1={sx(tick)} x2={sx(tick)} y1={MARGIN.top + PLOT_H} y2={MARGIN.top + PLOT_H + 5} stroke={COLORS.text} />
+          <text x={sx(tick)} y={MARGIN.top + PLOT_H + 18} fontSize={11} textAnchor="middle" fill={COLORS.text}>{formatTick(tick)}</text>
+        </g>
+      ))}
+      {yTicks.map(tick => (
+        <g key={`y-${tick}`}>
+          <line x1={MARGIN.left - 5} x2={MARGIN.left} y1={sy(tick)} y2={sy(tick)} stroke={COLORS.text} />
+          <text x={MARGIN.left - 8} y={sy(tick) + 4} fontSize={11} textAnchor="end" fill={COLORS.text}>{formatTick(tick)}</text>
+        </g>
+      ))}
+      <text x={MARGIN.left + PLOT_W / 2} y={HEIGHT - 8} fontSize={12} textAnchor="middle" fill={COLORS.text}>{xLabel}</text>
+      <text
+        x={16}
+        y={MARGIN.top + PLOT_H / 2}
+        fontSize={12}
+        textAnchor="middle"
+        fill={COLORS.text}
+        transform={`rotate(-90, 16, ${MARGIN.top + PLOT_H / 2})`}
+      >
+        {yLabel}
+      </text>
+
+      {/* Color legend */}
+      <rect x={WIDTH - MARGIN.right + 20} y={MARGIN.top} width={14} height={PLOT_H} fill={`url(#${legendId})`} />
+      {legendTicks.map(tick => {
+        const y = MARGIN.top + PLOT_H - ((tick - cMin) / (cMax - cMin || 1)) * PLOT_H;
+        return (
+          <text key={`c-${tick}`} x={WIDTH - MARGIN.right + 38} y={y + 4} fontSize={10} fill={COLORS.text}>
+            {formatValue(tick)}
+          </text>
+        );
+      })}
+      <text x={WIDTH - MARGIN.right + 20} y={MARGIN.top + PLOT_H + 18} fontSize={11} fill={COLORS.text}>{valueLabel}</text>
+
+      {/* Overlay legend */}
+      {overlays.map((overlay, idx) => (
+        <g key={`legend-${overlay.label}`} transform={`translate(${MARGIN.left + 10}, ${MARGIN.top + 12 + idx * 16})`}>
+          <line x1={0} x2={18} y1={0} y2={0} stroke={overlay.color} strokeWidth={3} />
+          <text x={24} y={4} fontSize={11} fill={COLORS.text}>{overlay.label}</text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export default Heatmap;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Language, ParamsHistory } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { canUndo, canRedo } from '../utils/history';
+import { getParamLabels, formatParamValue } from '../utils/paramLabels';
+
+interface HistoryPanelProps {
+  history: ParamsHistory;
+  language: Language;
+  onJump: (index: number) => void;
+  onPin: (index: number) => void;
+}
+
+// Entries shown before the list is cut off (newest first)
+const VISIBLE_ENTRIES = 50;
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, language, onJump, onPin }) => {
+  const t = TRANSLATIONS[language];
+
+  const fieldLabels = getParamLabels(t);
+
+  const shown = history.entries
+    .map((entry, index) => ({ entry, index }))
+    .reverse()
+    .slice(0, VISIBLE_ENTRIES);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100 mt-8">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-bold text-gray-700">{t.changeHistory}</h3>
+        <div className="flex rounded-md shadow-sm" role="group">
+          <button
+            type="button"
+            onClick={() => onJump(history.index - 1)}
+            disabled={!canUndo(history)}
+            title={`${t.undo} (Ctrl+Z)`}
+            className="px-3 py-1 rounded-l border border-gray-300 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+          >
+            {t.undo}
+          </button>
+          <button
+            type="button"
+            onClick={() => onJump(history.index + 1)}
+            disabled={!canRedo(history)}
+            title={`${t.redo} (Ctrl+Shift+Z / Ctrl+Y)`}
+            className="px-3 py-1 rounded-r border-t border-b border-r border-gray-300 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+          >
+            {t.redo}
+          </button>
+        </div>
+      </div>
+
+      <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100 text-xs">
+        {shown.map(({ entry, index }) => {
+          const active = index === history.index;
+          return (
+            <li
+              key={`${index}-${entry.time}`}
+              className={`py-1.5 px-2 ${active ? 'bg-blue-50' : ''} ${index > history.index ? 'opacity-50' : ''}`}
+            >
+              <div className="flex items-center justify-between">
+                <button
+                  type="button"
+                  onClick={() => onJump(index)}
+                  className={`text-left font-medium ${active ? 'text-blue-700' : 'text-gray-700 hover:text-blue-600'}`}
+                  title={t.jumpToState}
+                >
+                  {entry.changes.length === 0 ? t.initialState : formatTime(entry.time)}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onPin(index)}
+                  className="text-gray-400 hover:text-blue-600"
+                  title={t.pinStateHint}
+                >
+                  {t.pinState}
+                </button>
+              </div>
+              {entry.changes.map(change => (
+                <p key={change.field} className="text-gray-600 truncate">
+                  {fieldLabels[change.field] ?? change.field}: {formatParamValue(change.from)} → {formatParamValue(change.to)}
+                </p>
+              ))}
+            </li>
+          );
+        })}
+      </ul>
+      {history.entries.length > VISIBLE_ENTRIES && (
+        <p className="mt-2 text-xs text-gray-400">{t.olderEntriesHidden}</p>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
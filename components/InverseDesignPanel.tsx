@@ -0,0 +1,402 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ComposedChart,
+  Line,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import {
+  Language,
+  MotorParams,
+  SimulationResult,
+  DesignTarget,
+  DesignTargetKind,
+  InverseDesignSettings,
+  InverseDesignResult
+} from '../types';
+import { COLORS, TRANSLATIONS } from '../constants';
+import { calculateMotorCharacteristics } from '../utils/motorPhysics';
+import { runInverseDesign, rewindParams, getRequiredTorque } from '../utils/inverseDesign';
+
+interface InverseDesignPanelProps {
+  params: MotorParams;
+  result: SimulationResult; // Present envelope
+  settings: InverseDesignSettings;
+  onChange: (settings: InverseDesignSettings) => void;
+  onApply: (params: MotorParams) => void;
+  language: Language;
+}
+
+type ShownParameter = 'p' | 'psif' | 'ld' | 'lq' | 'rs' | 'imax';
+
+// Display scaling per parameter (SI value × scale = shown value)
+const DISPLAY: Record<ShownParameter, { unit: string; scale: number; digits: number }> = {
+  p: { unit: '', scale: 1, digits: 0 },
+  psif: { unit: 'mWb', scale: 1e3, digits: 4 },
+  ld: { unit: 'µH', scale: 1e6, digits: 2 },
+  lq: { unit: 'µH', scale: 1e6, digits: 2 },
+  rs: { unit: 'mΩ', scale: 1e3, digits: 2 },
+  imax: { unit: 'A', scale: 1, digits: 2 }
+};
+const SHOWN: ShownParameter[] = ['p', 'psif', 'ld', 'lq', 'rs', 'imax'];
+
+const BEFORE_COLOR = '#94a3b8'; // Slate 400
+
+const InverseDesignPanel: React.FC<InverseDesignPanelProps> = ({ params, result, settings, onChange, onApply, language }) => {
+  const t = TRANSLATIONS[language];
+  // The last run and the inputs it was made with, to flag it as stale after edits
+  const [run, setRun] = useState<{ result: InverseDesignResult; params: MotorParams; settings: InverseDesignSettings } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const update = (changes: Partial<InverseDesignSettings>) => onChange({ ...settings, ...changes });
+
+  const labels: Record<ShownParameter, string> = {
+    p: t.polePairs,
+    psif: t.fluxLinkage,
+    ld: t.dAxisInductance,
+    lq: t.qAxisInductance,
+    rs: t.statorResistance,
+    imax: t.maxCurrent
+  };
+
+  const updateTarget = (index: number, changes: Partial<DesignTarget>) => {
+    update({ targets: settings.targets.map((target, i) => (i === index ? { ...target, ...changes } : target)) });
+  };
+
+  const handleRun = () => {
+    try {
+      setRun({ result: runInverseDesign(params, settings), params, settings });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const design = run?.result ?? null;
+  const stale = run !== null && (run.params !== params || run.settings.targets !== settings.targets ||
+    run.settings.minPolePairs !== settings.minPolePairs || run.settings.maxPolePairs !== settings.maxPolePairs);
+  const designEnvelopes = useMemo(() => design && {
+    before: calculateMotorCharacteristics({ ...params, maxSpeed: design.params.maxSpeed }),
+    after: calculateMotorCharacteristics(design.params)
+  }, [design, params]);
+
+  // The rewound motor reaches proportionally higher speeds with fewer turns, so the range follows the ratio
+  const rewind = useMemo(() => {
+    try {
+      const maxSpeed = Math.max(params.maxSpeed, Math.ceil(params.maxSpeed / settings.rewindRatio / 100) * 100);
+      const rewound = { ...rewindParams(params, settings.rewindRatio), maxSpeed };
+      return {
+        params: rewound,
+        before: calculateMotorCharacteristics({ ...params, maxSpeed }),
+        after: calculateMotorCharacteristics(rewound),
+        error: null
+      };
+    } catch (err) {
+      return { params: null, before: null, after: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [params, settings.rewindRatio]);
+
+  const formatValue = (key: ShownParameter, value: number) => (value * DISPLAY[key].scale).toFixed(DISPLAY[key].digits);
+
+  const comparisonTable = (after: MotorParams, afterLabel: string) => (
+    <div className="overflow-x-auto mb-3">
+      <table className="min-w-full text-xs text-gray-700">
+        <thead>
+          <tr className="border-b text-gray-500">
+            <th className="text-left py-1 pr-4">{t.parameter}</th>
+            <th className="text-right py-1 pr-4">{t.presentDesign}</th>
+            <th className="text-right py-1">{afterLabel}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {SHOWN.map(key => (
+            <tr key={key} className="border-b border-gray-100">
+              <td className="py-1 pr-4">{labels[key]}{DISPLAY[key].unit && ` (${DISPLAY[key].unit})`}</td>
+              <td className="py-1 pr-4 text-right">{formatValue(key, params[key])}</td>
+              <td className="py-1 text-right font-semibold">{formatValue(key, after[key])}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  const envelopeChart = (before: SimulationResult, after: SimulationResult, afterLabel: string, targets?: DesignTarget[]) => (
+    <div className="h-72 mb-3">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart margin={{ top: 10, right: 30, left: 20, bottom: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke={COLORS.grid} />
+          <XAxis
+            dataKey="speedRPM"
+            type="number"
+            domain={[0, 'dataMax']}
+            label={{ value: t.speedRPM, position: 'insideBottomRight', offset: -10 }}
+          />
+          <YAxis yAxisId="left" label={{ value: t.torqueNm, angle: -90, position: 'insideLeft' }} />
+          <YAxis yAxisId="right" orientation="right" label={{ value: t.powerkW, angle: 90, position: 'insideRight' }} />
+          <Tooltip formatter={(value: number) => value.toFixed(3)} labelFormatter={(speed: number) => `${speed} RPM`} />
+          <Legend verticalAlign="top" height={30} />
+          <Line yAxisId="left" data={before.points} type="monotone" dataKey="torque" name={`${t.torqueNm.split(' ')[0]} ${t.presentDesign}`} stroke={BEFORE_COLOR} strokeWidth={2} dot={false} isAnimationActive={false} />
+          <Line yAxisId="right" data={before.points} type="monotone" dataKey="power" name={`${t.powerkW.split(' ')[0]} ${t.presentDesign}`} stroke={BEFORE_COLOR} strokeDasharray="5 5" dot={false} isAnimationActive={false} />
+          <Line yAxisId="left" data={after.points} type="monotone" dataKey="torque" name={`${t.torqueNm.split(' ')[0]} ${afterLabel}`} stroke={COLORS.primary} strokeWidth={2} dot={false} isAnimationActive={false} />
+          <Line yAxisId="right" data={after.points} type="monotone" dataKey="power" name={`${t.powerkW.split(' ')[0]} ${afterLabel}`} stroke={COLORS.secondary} strokeDasharray="5 5" dot={false} isAnimationActive={false} />
+          {targets && (
+            <Scatter
+              yAxisId="left"
+              data={targets.map(target => ({ speedRPM: target.speedRPM, torque: getRequiredTorque(target) }))}
+              dataKey="torque"
+              name={t.designTargets}
+              fill={COLORS.accent}
+              isAnimationActive={false}
+            />
+          )}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+
+  return (
+    <div>
+      <p className="text-xs text-gray-500 mb-3">{t.inverseDesignHint}</p>
+      {!params.enableFluxWeakening && <p className="mb-3 text-xs text-amber-600">{t.inverseDesignNoFw}</p>}
+
+      <p className="text-xs font-semibold text-gray-500 uppercase mb-1">{t.designTargets}</p>
+      <div className="overflow-x-auto mb-2">
+        <table className="min-w-full text-xs text-gray-700">
+          <thead>
+            <tr className="border-b text-gray-500">
+              <th className="text-left py-1 pr-4">{t.speedRPM}</th>
+              <th className="text-left py-1 pr-4">{t.targetKind}</th>
+              <th className="text-left py-1 pr-4">{t.targetValue}</th>
+              <th className="text-left py-1"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {settings.targets.map((target, index) => (
+              // Rows are keyed by count so removing one reloads the uncontrolled inputs below it
+              <tr key={`${index}-${settings.targets.length}`} className="border-b border-gray-100">
+                <td className="py-1 pr-4">
+                  <input
+                    type="number"
+                    step={100}
+                    min={0}
+                    defaultValue={target.speedRPM}
+                    onChange={e => {
+                      const value = parseFloat(e.target.value);
+                      if (isFinite(value) && value >= 0) updateTarget(index, { speedRPM: value });
+                    }}
+                    className="w-24 rounded border border-gray-300 px-2 py-0.5 text-xs"
+                  />
+                </td>
+                <td className="py-1 pr-4">
+                  <select
+                    value={target.kind}
+                    onChange={e => updateTarget(index, { kind: e.target.value as DesignTargetKind })}
+                    className="rounded border border-gray-300 px-2 py-0.5 text-xs"
+                  >
+                    <option value="torque">{t.torqueNm}</option>
+                    <option value="power">{t.powerkW}</option>
+                  </select>
+                </td>
+                <td className="py-1 pr-4">
+                  <input
+                    type="number"
+                    step={0.01}
+                    min={0}
+                    defaultValue={target.value}
+                    onChange={e => {
+                      const value = parseFloat(e.target.value);
+                      if (isFinite(value) && value > 0) updateTarget(index, { value });
+                    }}
+                    className="w-24 rounded border border-gray-300 px-2 py-0.5 text-xs"
+                  />
+                </td>
+                <td className="py-1">
+                  <button
+                    type="button"
+                    onClick={() => update({ targets: settings.targets.filter((_, i) => i !== index) })}
+                    className="text-xs text-red-600 hover:underline"
+                  >
+                    {t.remove}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 items-end">
+        <button
+          type="button"
+          onClick={() => update({ targets: [...settings.targets, { speedRPM: params.maxSpeed, kind: 'power', value: result.maxPower || 0.1 }] })}
+          className="px-3 py-1.5 rounded border border-gray-300 text-xs font-medium text-gray-700 hover:bg-gray-50"
+        >
+          {t.addTarget}
+        </button>
+        <label className="block text-xs font-medium text-gray-700">
+          {t.minPolePairs}
+          <input
+            type="number"
+            step={1}
+            min={1}
+            defaultValue={settings.minPolePairs}
+            onChange={e => {
+              const value = parseInt(e.target.value, 10);
+              if (isFinite(value) && value >= 1) update({ minPolePairs: value });
+            }}
+            className="mt-1 block w-full rounded border border-gray-300 px-2 py-1 text-xs"
+          />
+        </label>
+        <label className="block text-xs font-medium text-gray-700">
+          {t.maxPolePairs}
+          <input
+            type="number"
+            step={1}
+            min={1}
+            defaultValue={settings.maxPolePairs}
+            onChange={e => {
+              const value = parseInt(e.target.value, 10);
+              if (isFinite(value) && value >= 1) update({ maxPolePairs: value });
+            }}
+            className="mt-1 block w-full rounded border border-gray-300 px-2 py-1 text-xs"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={handleRun}
+          className="px-3 py-1.5 rounded bg-blue-600 text-white text-xs font-medium hover:bg-blue-700"
+        >
+          {t.runAnalysis}
+        </button>
+      </div>
+
+      {error && <p className="mb-2 text-xs text-red-600">{error}</p>}
+      {stale && <p className="mb-2 text-xs text-amber-600">{t.staleResult}</p>}
+
+      {design && designEnvelopes && (
+        <>
+          <p className={`mb-2 text-xs font-medium ${design.feasible ? 'text-green-700' : 'text-red-600'}`}>
+            {design.feasible ? t.targetsMet : t.targetsNotMet}
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {comparisonTable(design.params, t.foundDesign)}
+            <div className="overflow-x-auto mb-3">
+              <table className="min-w-full text-xs text-gray-700">
+                <thead>
+                  <tr className="border-b text-gray-500">
+                    <th className="text-left py-1 pr-4">{t.speedRPM}</th>
+                    <th className="text-right py-1 pr-4">{t.requiredTorque}</th>
+                    <th className="text-right py-1 pr-4">{t.availableTorque}</th>
+                    <th className="text-right py-1">{t.margin}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {design.checks.map((check, index) => {
+                    const margin = (check.availableTorque / check.requiredTorque - 1) * 100;
+                    return (
+                      <tr key={index} className="border-b border-gray-100">
+                        <td className="py-1 pr-4">{check.target.speedRPM}</td>
+                        <td className="py-1 pr-4 text-right">{check.requiredTorque.toFixed(3)}</td>
+                        <td className="py-1 pr-4 text-right">{check.availableTorque.toFixed(3)}</td>
+                        <td className={`py-1 text-right ${margin < -0.1 ? 'text-red-600' : ''}`}>{margin.toFixed(1)} %</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <p className="mt-2 text-xs text-gray-600">
+                {t.turnsRatio} {design.turnsRatio.toFixed(3)} · {t.fluxPerTurn} ×{design.fluxScale.toFixed(3)} · {t.inductancePerTurn} ×{design.inductanceScale.toFixed(3)}
+              </p>
+            </div>
+          </div>
+          {envelopeChart(designEnvelopes.before, designEnvelopes.after, t.foundDesign, design.checks.map(check => check.target))}
+          <div className="flex items-center gap-3 mb-2">
+            <button
+              type="button"
+              onClick={() => onApply(design.params)}
+              className="px-3 py-1.5 rounded bg-blue-600 text-white text-xs font-medium hover:bg-blue-700"
+            >
+              {t.applyDesign}
+            </button>
+            <span className="text-xs text-gray-400">{design.evaluations} {t.evaluations}</span>
+          </div>
+          <p className="mb-4 text-xs text-gray-400">{t.inverseDesignNote}</p>
+        </>
+      )}
+
+      <p className="text-xs font-semibold text-gray-500 uppercase mb-1 mt-4">{t.rewind}</p>
+      <p className="text-xs text-gray-500 mb-3">{t.rewindHint}</p>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3 items-end">
+        <label className="block text-xs font-medium text-gray-700">
+          {t.turnsRatio}
+          <input
+            type="number"
+            step={0.05}
+            min={0}
+            defaultValue={settings.rewindRatio}
+            onChange={e => {
+              const value = parseFloat(e.target.value);
+              if (isFinite(value) && value > 0) update({ rewindRatio: value });
+            }}
+            className="mt-1 block w-full rounded border border-gray-300 px-2 py-1 text-xs"
+          />
+        </label>
+        {rewind.params && (
+          <button
+            type="button"
+            onClick={() => onApply(rewind.params)}
+            className="px-3 py-1.5 rounded bg-blue-600 text-white text-xs font-medium hover:bg-blue-700"
+          >
+            {t.applyRewind}
+          </button>
+        )}
+      </div>
+
+      {rewind.error && <p className="mb-2 text-xs text-red-600">{rewind.error}</p>}
+      {rewind.params && rewind.before && rewind.after && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {comparisonTable(rewind.params, t.rewound)}
+            <div className="overflow-x-auto mb-3">
+              <table className="min-w-full text-xs text-gray-700">
+                <thead>
+                  <tr className="border-b text-gray-500">
+                    <th className="text-left py-1 pr-4"></th>
+                    <th className="text-right py-1 pr-4">{t.presentDesign}</th>
+                    <th className="text-right py-1">{t.rewound}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b border-gray-100">
+                    <td className="py-1 pr-4">{t.maxTorque} (Nm)</td>
+                    <td className="py-1 pr-4 text-right">{rewind.before.maxTorque.toFixed(3)}</td>
+                    <td className="py-1 text-right font-semibold">{rewind.after.maxTorque.toFixed(3)}</td>
+                  </tr>
+                  <tr className="border-b border-gray-100">
+                    <td className="py-1 pr-4">{t.baseSpeed} (RPM)</td>
+                    <td className="py-1 pr-4 text-right">{rewind.before.baseSpeed}</td>
+                    <td className="py-1 text-right font-semibold">{rewind.after.baseSpeed}</td>
+                  </tr>
+                  <tr className="border-b border-gray-100">
+                    <td className="py-1 pr-4">{t.peakPower} (kW)</td>
+                    <td className="py-1 pr-4 text-right">{rewind.before.maxPower.toFixed(3)}</td>
+                    <td className="py-1 text-right font-semibold">{rewind.after.maxPower.toFixed(3)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+          {envelopeChart(rewind.before, rewind.after, t.rewound)}
+          <p className="text-xs text-gray-400">{t.rewindNote}</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default InverseDesignPanel;
@@ -0,0 +1,227 @@
+import React, { useRef, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { Language, LoadCurve, LoadCurveKind, LoadAnalysis } from '../types';
+import { COLORS, TRANSLATIONS } from '../constants';
+import { parseCsv, CsvTable, ColumnField } from '../utils/csv';
+import { buildLoadTable } from '../utils/loadCurve';
+import { MEASUREMENT_COLUMN_ALIASES } from '../utils/measurement';
+import ColumnMappingDialog from './ColumnMappingDialog';
+
+interface LoadCurvePanelProps {
+  load: LoadCurve;
+  analysis: LoadAnalysis;
+  onChange: (load: LoadCurve) => void;
+  language: Language;
+}
+
+const LOAD_KINDS: LoadCurveKind[] = ['constant', 'quadratic', 'polynomial', 'table'];
+
+type NumberField = 'torque' | 'ratedSpeed' | 'rotorInertia' | 'loadInertia' | 'targetSpeed';
+
+const LoadCurvePanel: React.FC<LoadCurvePanelProps> = ({ load, analysis, onChange, language }) => {
+  const t = TRANSLATIONS[language];
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<{ name: string; table: CsvTable } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const update = (changes: Partial<LoadCurve>) => onChange({ ...load, ...changes });
+
+  const kindLabels: Record<LoadCurveKind, string> = {
+    constant: t.loadConstant,
+    quadratic: t.loadQuadratic,
+    polynomial: t.loadPolynomial,
+    table: t.loadTable
+  };
+
+  const fields: ColumnField[] = [
+    { key: 'speedRPM', label: t.speedRPM, required: true, aliases: MEASUREMENT_COLUMN_ALIASES.speedRPM },
+    { key: 'torque', label: t.torqueNm, required: true, aliases: MEASUREMENT_COLUMN_ALIASES.torque }
+  ];
+
+  const handleNumber = (key: NumberField, text: string) => {
+    const value = parseFloat(text);
+    // A run-up without inertia would be instantaneous, so the rotor always has some
+    if (isFinite(value) && (key === 'rotorInertia' ? value > 0 : value >= 0)) update({ [key]: value });
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const table = parseCsv(await file.text());
+    if (table.rows.length === 0) {
+      setError(t.emptyCsv);
+      return;
+    }
+    setError(null);
+    setPending({ name: file.name, table });
+  };
+
+  const handleConfirm = (mapping: Record<string, number | null>) => {
+    if (!pending) return;
+    try {
+      update({ kind: 'table', table: buildLoadTable(pending.table, mapping), tableName: pending.name });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    setPending(null);
+  };
+
+  const numberField = (key: NumberField, label: string, step: number) => (
+    <label className="block text-xs font-medium text-gray-700">
+      {label}
+      <input
+        type="number"
+        step={step}
+        defaultValue={load[key]}
+        onChange={e => handleNumber(key, e.target.value)}
+        className="mt-1 block w-full rounded border border-gray-300 px-2 py-1 text-xs"
+      />
+    </label>
+  );
+
+  const { steadyState, stalled, runUp, targetTime } = analysis;
+
+  return (
+    <div>
+      <p className="text-xs text-gray-500 mb-3">{t.loadCurveHint}</p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        <label className="block text-xs font-medium text-gray-700">
+          {t.loadKind}
+          <select
+            value={load.kind}
+            onChange={e => update({ kind: e.target.value as LoadCurveKind })}
+            className="mt-1 block w-full rounded border border-gray-300 px-2 py-1 text-xs"
+          >
+            {LOAD_KINDS.map(kind => (
+              <option key={kind} value={kind}>{kindLabels[kind]}</option>
+            ))}
+          </select>
+        </label>
+
+        {load.kind === 'constant' && numberField('torque', t.loadTorque, 0.01)}
+        {load.kind === 'quadratic' && (
+          <>
+            {numberField('torque', t.loadRatedTorque, 0.01)}
+            {numberField('ratedSpeed', t.loadRatedSpeed, 100)}
+          </>
+        )}
+        {load.kind === 'polynomial' && (
+          <label className="block text-xs font-medium text-gray-700 col-span-2" title={t.loadPolynomialHint}>
+            {t.loadCoefficients}
+            <input
+              type="text"
+              value={load.coefficients}
+              onChange={e => update({ coefficients: e.target.value })}
+              className="mt-1 block w-full rounded border border-gray-300 px-2 py-1 text-xs font-mono"
+            />
+            <span className="text-gray-400 font-normal">{t.loadPolynomialHint}</span>
+          </label>
+        )}
+        {load.kind === 'table' && (
+          <div className="col-span-2 flex items-end space-x-2 text-xs">
+            <button
+              type="button"
+              onClick={() => fileRef.current?.click()}
+              className="px-3 py-1 rounded border border-gray-300 font-medium text-gray-700 hover:bg-gray-50"
+            >
+              {t.importLoadTable}
+            </button>
+            <span className="text-gray-500 pb-1">
+              {load.table.length > 0 ? `${load.tableName} · ${load.table.length} ${t.points}` : ''}
+            </span>
+            <input ref={fileRef} type="file" accept=".csv,.txt,text/csv" className="hidden" onChange={handleFile} />
+          </div>
+        )}
+
+        {numberField('rotorInertia', t.rotorInertia, 0.00001)}
+        {numberField('loadInertia', t.loadInertia, 0.00001)}
+        {numberField('targetSpeed', t.targetSpeed, 100)}
+        <label className="flex items-center text-xs font-medium text-gray-700 self-end pb-1">
+          <input
+            type="checkbox"
+            checked={load.showOnChart}
+            onChange={e => update({ showOnChart: e.target.checked })}
+            className="w-4 h-4 mr-2 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+          />
+          {t.showLoadOnChart}
+        </label>
+      </div>
+
+      {error && <p className="mb-2 text-xs text-red-600">{error}</p>}
+
+      {stalled ? (
+        <p className="text-xs font-semibold text-red-600">{t.loadStalled}</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-x-6 gap-y-2 mb-4 text-xs text-gray-700">
+            <span>
+              <span className="text-gray-500">{t.steadyStatePoint}: </span>
+              <span className="font-semibold">
+                {steadyState
+                  ? `${steadyState.speedRPM.toFixed(0)} RPM · ${steadyState.torque.toFixed(3)} Nm`
+                  : t.noSteadyState}
+              </span>
+            </span>
+            <span>
+              <span className="text-gray-500">{t.timeToTarget} ({load.targetSpeed} RPM): </span>
+              <span className="font-semibold">{targetTime !== null ? `${targetTime.toFixed(3)} s` : t.targetNotReached}</span>
+            </span>
+          </div>
+
+          <p className="text-xs font-semibold text-gray-500 uppercase mb-1">{t.runUpCurve}</p>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={runUp} margin={{ top: 10, right: 30, left: 20, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={COLORS.grid} />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  domain={[0, 'dataMax']}
+                  tickFormatter={(time: number) => time.toFixed(2)}
+                  label={{ value: t.timeS, position: 'insideBottomRight', offset: -10 }}
+                />
+                <YAxis label={{ value: t.speedRPM, angle: -90, position: 'insideLeft' }} />
+                <Tooltip
+                  formatter={(value: number) => value.toFixed(0)}
+                  labelFormatter={(time: number) => `${time.toFixed(3)} s`}
+                />
+                <Line type="monotone" dataKey="speedRPM" name={t.speedRPM} stroke={COLORS.primary} strokeWidth={2} dot={false} />
+                {targetTime !== null && (
+                  <ReferenceLine x={targetTime} stroke="red" strokeDasharray="3 3" />
+                )}
+                {targetTime !== null && (
+                  <ReferenceLine y={load.targetSpeed} stroke="red" strokeDasharray="3 3" />
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="mt-2 text-xs text-gray-400">{t.loadCurveNote}</p>
+        </>
+      )}
+
+      {pending && (
+        <ColumnMappingDialog
+          title={`${t.mapColumns}: ${pending.name}`}
+          table={pending.table}
+          fields={fields}
+          language={language}
+          onConfirm={handleConfirm}
+          onCancel={() => setPending(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default LoadCurvePanel;
@@ -0,0 +1,173 @@
+import React, { useRef, useState } from 'react';
+import { Language, MeasurementSet, MeasurementComparison, MeasurementChannel } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { parseCsv, CsvTable, ColumnField } from '../utils/csv';
+import { buildMeasurementSet, MEASUREMENT_COLUMN_ALIASES } from '../utils/measurement';
+import ColumnMappingDialog from './ColumnMappingDialog';
+
+interface MeasurementPanelProps {
+  measurement: MeasurementSet | null;
+  comparison: MeasurementComparison | null;
+  onChange: (measurement: MeasurementSet | null) => void;
+  language: Language;
+}
+
+const CHANNEL_UNITS: Record<MeasurementChannel, string> = {
+  torque: 'Nm',
+  current: 'A',
+  voltage: 'V',
+  power: 'kW'
+};
+
+const formatSigned = (value: number | undefined, digits: number, suffix = '') =>
+  value === undefined ? '—' : `${value >= 0 ? '+' : '−'}${Math.abs(value).toFixed(digits)}${suffix}`;
+
+const MeasurementPanel: React.FC<MeasurementPanelProps> = ({ measurement, comparison, onChange, language }) => {
+  const t = TRANSLATIONS[language];
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<{ name: string; table: CsvTable } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const channelLabels: Record<MeasurementChannel, string> = {
+    torque: t.torqueNm,
+    current: t.measuredCurrent,
+    voltage: t.measuredVoltage,
+    power: t.powerkW
+  };
+
+  const fields: ColumnField[] = [
+    { key: 'speedRPM', label: t.speedRPM, required: true, aliases: MEASUREMENT_COLUMN_ALIASES.speedRPM },
+    { key: 'torque', label: t.torqueNm, required: true, aliases: MEASUREMENT_COLUMN_ALIASES.torque },
+    { key: 'current', label: t.measuredCurrent, aliases: MEASUREMENT_COLUMN_ALIASES.current },
+    { key: 'voltage', label: t.measuredVoltage, aliases: MEASUREMENT_COLUMN_ALIASES.voltage },
+    { key: 'power', label: t.powerkW, aliases: MEASUREMENT_COLUMN_ALIASES.power },
+    { key: 'id', label: t.measuredId, aliases: MEASUREMENT_COLUMN_ALIASES.id },
+    { key: 'iq', label: t.measuredIq, aliases: MEASUREMENT_COLUMN_ALIASES.iq }
+  ];
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const table = parseCsv(await file.text());
+    if (table.rows.length === 0) {
+      setError(t.emptyCsv);
+      return;
+    }
+    setError(null);
+    setPending({ name: file.name, table });
+  };
+
+  const handleConfirm = (mapping: Record<string, number | null>) => {
+    if (!pending) return;
+    try {
+      onChange(buildMeasurementSet(pending.table, mapping, pending.name));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    setPending(null);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <span className="text-xs text-gray-500">
+          {measurement ? `${measurement.name} · ${measurement.points.length} ${t.points}` : t.measuredDataHint}
+        </span>
+        <div className="flex space-x-2">
+          <button
+            type="button"
+            onClick={() => fileRef.current?.click()}
+            className="px-3 py-1 rounded border border-gray-300 text-xs font-medium text-gray-700 hover:bg-gray-50"
+          >
+            {t.importDynoCsv}
+          </button>
+          {measurement && (
+            <button
+              type="button"
+              onClick={() => onChange(null)}
+              className="px-3 py-1 rounded border border-gray-300 text-xs font-medium text-red-600 hover:bg-red-50"
+            >
+              {t.clear}
+            </button>
+          )}
+        </div>
+        <input ref={fileRef} type="file" accept=".csv,.txt,text/csv" className="hidden" onChange={handleFile} />
+      </div>
+
+      {error && <p className="mb-2 text-xs text-red-600">{error}</p>}
+
+      {comparison && (
+        <div className="overflow-x-auto max-h-80">
+          <table className="min-w-full text-xs text-gray-700">
+            <thead className="sticky top-0 bg-white">
+              <tr className="border-b text-gray-500">
+                <th className="text-right py-1 pr-4">{t.speedRPM}</th>
+                {comparison.channels.map(ch => (
+                  <th key={ch} className="text-right py-1 pr-4" colSpan={3}>{channelLabels[ch]}</th>
+                ))}
+              </tr>
+              <tr className="border-b text-gray-400">
+                <th />
+                {comparison.channels.map(ch => (
+                  <React.Fragment key={ch}>
+                    <th className="text-right py-1 pr-2 font-normal">{t.measured}</th>
+                    <th className="text-right py-1 pr-2 font-normal">{t.predicted}</th>
+                    <th className="text-right py-1 pr-4 font-normal">{t.error}</th>
+                  </React.Fragment>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.rows.map((row, idx) => (
+                <tr key={idx} className="border-b border-gray-100">
+                  <td className="text-right py-1 pr-4">{row.point.speedRPM.toFixed(0)}</td>
+                  {comparison.channels.map(ch => (
+                    <React.Fragment key={ch}>
+                      <td className="text-right py-1 pr-2">{row.point[ch]?.toFixed(3) ?? '—'}</td>
+                      <td className="text-right py-1 pr-2 text-gray-500">{row.predicted[ch]?.toFixed(3) ?? '—'}</td>
+                      <td className="text-right py-1 pr-4">
+                        {formatSigned(row.error[ch], 3)}
+                        {row.errorPct[ch] !== undefined && (
+                          <span className="ml-1 text-gray-500">({formatSigned(row.errorPct[ch], 1, '%')})</span>
+                        )}
+                      </td>
+                    </React.Fragment>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="sticky bottom-0 bg-gray-50 font-semibold">
+              <tr>
+                <td className="text-right py-1 pr-4">RMS</td>
+                {comparison.channels.map(ch => (
+                  <td key={ch} colSpan={3} className="text-right py-1 pr-4">
+                    {comparison.rms[ch]?.toFixed(3) ?? '—'} {CHANNEL_UNITS[ch]}
+                    {comparison.rmsPct[ch] !== undefined && (
+                      <span className="ml-1 text-gray-500">({comparison.rmsPct[ch]!.toFixed(1)}%)</span>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            </tfoot>
+          </table>
+          <p className="mt-2 text-xs text-gray-400">{t.measurementNote}</p>
+        </div>
+      )}
+
+      {pending && (
+        <ColumnMappingDialog
+          title={`${t.mapColumns}: ${pending.name}`}
+          table={pending.table}
+          fields={fields}
+          language={language}
+          onConfirm={handleConfirm}
+          onCancel={() => setPending(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MeasurementPanel;
@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { Language, MotorParams, MeasurementSet, FitParameter, ParameterFitResult } from '../types';
+import { COLORS, TRANSLATIONS } from '../constants';
+import { FIT_PARAMETERS, fitMotorParameters, getFitPoints } from '../utils/parameterFit';
+
+interface ParameterFitPanelProps {
+  params: MotorParams;
+  measurement: MeasurementSet | null;
+  onApply: (params: MotorParams) => void;
+  language: Language;
+}
+
+// Display scaling per parameter (SI value × scale = shown value)
+const DISPLAY: Record<FitParameter, { unit: string; scale: number; digits: number }> = {
+  rs: { unit: 'mΩ', scale: 1e3, digits: 3 },
+  ld: { unit: 'µH', scale: 1e6, digits: 3 },
+  lq: { unit: 'µH', scale: 1e6, digits: 3 },
+  psif: { unit: 'mWb', scale: 1e3, digits: 4 }
+};
+
+const ParameterFitPanel: React.FC<ParameterFitPanelProps> = ({ params, measurement, onApply, language }) => {
+  const t = TRANSLATIONS[language];
+  const hasVoltage = !!measurement?.points.some(pt => pt.voltage !== undefined);
+  const [selected, setSelected] = useState<FitParameter[]>(['ld', 'lq', 'psif']);
+  const [fit, setFit] = useState<ParameterFitResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // A fit belongs to the data it was run on
+  useEffect(() => {
+    setFit(null);
+    setError(null);
+  }, [measurement]);
+
+  const labels: Record<FitParameter, string> = {
+    rs: t.statorResistance,
+    ld: t.dAxisInductance,
+    lq: t.qAxisInductance,
+    psif: t.fluxLinkage
+  };
+
+  const usablePoints = measurement ? getFitPoints(measurement.points).length : 0;
+
+  const toggle = (key: FitParameter) => {
+    setSelected(keys => keys.includes(key) ? keys.filter(k => k !== key) : FIT_PARAMETERS.filter(k => k === key || keys.includes(k)));
+  };
+
+  const handleRun = () => {
+    if (!measurement) return;
+    try {
+      setFit(fitMotorParameters(params, measurement.points, selected));
+      setError(null);
+    } catch (err) {
+      setFit(null);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleApply = () => {
+    if (!fit) return;
+    const changes: Partial<MotorParams> = {};
+    fit.estimates.forEach(estimate => { changes[estimate.key] = fit.fitted[estimate.key]; });
+    onApply({ ...params, ...changes });
+  };
+
+  const residualChart = (dataKey: 'torque' | 'voltage', unit: string, color: string) => (
+    <div className="h-48">
+      <ResponsiveContainer width="100%" height="100%">
+        <ScatterChart margin={{ top: 10, right: 20, left: 10, bottom: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke={COLORS.grid} />
+          <XAxis
+            dataKey="speedRPM"
+            type="number"
+            name={t.speedRPM}
+            label={{ value: t.speedRPM, position: 'insideBottomRight', offset: -10 }}
+          />
+          <YAxis
+            dataKey={dataKey}
+            type="number"
+            name={t.residual}
+            unit={` ${unit}`}
+            width={80}
+          />
+          <ReferenceLine y={0} stroke={COLORS.text} />
+          <Tooltip cursor={{ strokeDasharray: '3 3' }} formatter={(value: number) => value.toFixed(4)} />
+          <Scatter data={fit!.residuals.filter(res => res[dataKey] !== undefined)} fill={color} />
+        </ScatterChart>
+      </ResponsiveContainer>
+    </div>
+  );
+
+  return (
+    <div>
+      <p className="text-xs text-gray-500 mb-3">{t.parameterFitHint}</p>
+
+      {!measurement ? (
+        <p className="text-xs text-gray-400">{t.parameterFitNoData}</p>
+      ) : (
+        <div className="flex flex-wrap items-center gap-4 mb-4">
+          {FIT_PARAMETERS.map(key => (
+            <label key={key} className="flex items-center text-xs font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={selected.includes(key)}
+                onChange={() => toggle(key)}
+                className="w-4 h-4 mr-2 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+              />
+              {labels[key]}
+            </label>
+          ))}
+          <button
+            type="button"
+            onClick={handleRun}
+            disabled={selected.length === 0 || usablePoints === 0}
+            className="px-4 py-1.5 rounded bg-blue-600 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {t.runFit}
+          </button>
+          <span className="text-xs text-gray-400">
+            {usablePoints} {t.fitPointsUsable}{!hasVoltage && ` · ${t.fitNoVoltage}`}
+          </span>
+        </div>
+      )}
+
+      {error && <p className="mb-2 text-xs text-red-600">{error}</p>}
+
+      {fit && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs text-gray-700">
+              <thead>
+                <tr className="border-b text-gray-500">
+                  <th className="text-left py-1 pr-4">{t.parameter}</th>
+                  <th className="text-right py-1 pr-4">{t.initialValue}</th>
+                  <th className="text-right py-1 pr-4">{t.fittedValue}</th>
+                  <th className="text-right py-1">{t.confidence95}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fit.estimates.map(estimate => {
+                  const { unit, scale, digits } = DISPLAY[estimate.key];
+                  const relative = estimate.ci95 !== null ? (estimate.ci95 / estimate.value) * 100 : null;
+                  return (
+                    <tr key={estimate.key} className="border-b border-gray-100">
+                      <td className="py-1 pr-4 font-semibold">{labels[estimate.key]}</td>
+                      <td className="text-right py-1 pr-4 text-gray-500">{(estimate.initial * scale).toFixed(digits)} {unit}</td>
+                      <td className="text-right py-1 pr-4">{(estimate.value * scale).toFixed(digits)} {unit}</td>
+                      <td className={`text-right py-1 ${relative === null || relative > 20 ? 'text-red-600' : ''}`}>
+                        {estimate.ci95 !== null
+                          ? `± ${(estimate.ci95 * scale).toFixed(digits)} ${unit} (${relative!.toFixed(1)}%)`
+                          : t.notIdentifiable}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2 mt-3 text-xs text-gray-500">
+            <span>
+              {t.rmsResidual}: {fit.rmsBefore.torque.toFixed(4)} → {fit.rmsAfter.torque.toFixed(4)} Nm
+              {fit.rmsBefore.voltage !== undefined && fit.rmsAfter.voltage !== undefined && (
+                <>, {fit.rmsBefore.voltage.toFixed(3)} → {fit.rmsAfter.voltage.toFixed(3)} V</>
+              )}
+              {' · '}{fit.iterations} {t.iterations}{!fit.converged && ` · ${t.notConverged}`}
+            </span>
+            <button
+              type="button"
+              onClick={handleApply}
+              className="px-4 py-1.5 rounded bg-green-600 text-xs font-medium text-white hover:bg-green-700"
+            >
+              {t.applyFit}
+            </button>
+          </div>
+
+          <div className={`grid grid-cols-1 ${hasVoltage ? 'md:grid-cols-2' : ''} gap-4 mt-4`}>
+            <div>
+              <p className="text-xs font-semibold text-gray-500 uppercase mb-1">{t.torqueResidual}</p>
+              {residualChart('torque', 'Nm', COLORS.primary)}
+            </div>
+            {hasVoltage && (
+              <div>
+                <p className="text-xs font-semibold text-gray-500 uppercase mb-1">{t.voltageResidual}</p>
+                {residualChart('voltage', 'V', COLORS.accent)}
+              </div>
+            )}
+          </div>
+          <p className="mt-2 text-xs text-gray-400">{t.parameterFitNote}</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ParameterFitPanel;
@@ -1,21 +1,56 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { MotorParams, MotorType, Language, ControlStrategy } from '../types';
+import { MotorParams, MotorType, Language, ControlStrategy, ModulationScheme, Diagnostic, DiagnosticSeverity } from '../types';
 import { TRANSLATIONS } from '../constants';
-import { calculateTheoreticalMaxSpeed } from '../utils/motorPhysics';
+import { calculateTheoreticalMaxSpeed, MODULATION_SCHEMES, SVPWM_MODULATION_INDEX } from '../utils/motorPhysics';
+import { parseFluxMapCsv } from '../utils/fluxModel';
+import {
+  DatasheetConventions,
+  DatasheetCurrent,
+  DatasheetField,
+  DatasheetImpedance,
+  DatasheetVoltage,
+  DATASHEET_CURRENTS,
+  DATASHEET_IMPEDANCES,
+  DATASHEET_VOLTAGES,
+  applyDatasheetValue,
+  paramsToDatasheet
+} from '../utils/datasheet';
+import { SEVERITY_STYLES } from './DiagnosticsPanel';
+import { getDiagnosticMessages } from '../utils/validation';
 
 interface ParameterInputProps {
   params: MotorParams;
   onChange: (newParams: MotorParams) => void;
   language: Language;
+  diagnostics: Diagnostic[]; // Shown under the offending fields
 }
 
+interface FieldFinding {
+  severity: DiagnosticSeverity;
+  text: string;
+}
+
+const FieldFindings = ({ findings }: { findings?: FieldFinding[] }) => (
+  <>
+    {findings?.map((finding, index) => (
+      <p key={index} className={`text-xs ${SEVERITY_STYLES[finding.severity]}`}>{finding.text}</p>
+    ))}
+  </>
+);
+
 // Helper to convert number to string without scientific notation
 const formatNumber = (num: number): string => {
   if (Math.abs(num) < 1e-9) return "0";
   return num.toLocaleString('fullwide', { useGrouping: false, maximumFractionDigits: 10 });
 };
 
+// Datasheet quantities are shown with a few significant digits; typing replaces them exactly
+const roundDisplay = (value: number) => parseFloat(value.toPrecision(6));
+
+// Most vendor datasheets quote line-to-line rms back-EMF, rms current and terminal R and L
+const DEFAULT_DATASHEET_CONVENTIONS: DatasheetConventions = { voltage: 'lineRms', current: 'rms', impedance: 'lineToLine' };
+
 // SmartInput handles the edge cases of typing numbers
 const SmartInput = ({ 
   value, 
@@ -82,6 +117,7 @@ interface InputFieldWrapperProps {
   unit: string;
   step?: number;
   customAction?: React.ReactNode;
+  findings?: FieldFinding[];
   onChange: (val: number) => void;
 }
 
@@ -91,6 +127,7 @@ const InputFieldWrapper: React.FC<InputFieldWrapperProps> = ({
   unit, 
   step = 0.01,
   customAction,
+  findings,
   onChange
 }) => (
   <div className="flex flex-col space-y-1">
@@ -110,11 +147,33 @@ const InputFieldWrapper: React.FC<InputFieldWrapperProps> = ({
         <span className="text-gray-400 text-xs sm:text-sm">{unit}</span>
       </div>
     </div>
+    <FieldFindings findings={findings} />
   </div>
 );
 
-const ParameterInput: React.FC<ParameterInputProps> = ({ params, onChange, language }) => {
+const ParameterInput: React.FC<ParameterInputProps> = ({ params, onChange, language, diagnostics }) => {
   const t = TRANSLATIONS[language];
+  const diagnosticMessages = getDiagnosticMessages(t);
+  const findingsFor = (field: keyof MotorParams): FieldFinding[] => diagnostics
+    .filter(d => d.field === field)
+    .map(d => ({ severity: d.severity, text: diagnosticMessages[d.code] }));
+  const modulationLabels: Record<ModulationScheme, string> = {
+    spwm: t.modSpwm,
+    svpwm: t.modSvpwm,
+    dpwm: t.modDpwm,
+    overmodulation: t.modOvermodulation,
+    sixStep: t.modSixStep
+  };
+  const voltageLabels: Record<DatasheetVoltage, string> = {
+    lineRms: t.lineRms,
+    linePeak: t.linePeak,
+    phaseRms: t.phaseRms,
+    phasePeak: t.phasePeak
+  };
+  const [inputMode, setInputMode] = useState<'phase' | 'datasheet'>('phase');
+  const [conventions, setConventions] = useState<DatasheetConventions>(DEFAULT_DATASHEET_CONVENTIONS);
+  const fluxFileRef = useRef<HTMLInputElement>(null);
+  const [fluxMapError, setFluxMapError] = useState<string | null>(null);
 
   const handleParamChange = (key: keyof MotorParams, numValue: number) => {
     if (key === 'rs') {
@@ -140,6 +199,32 @@ const ParameterInput: React.FC<ParameterInputProps> = ({ params, onChange, langu
     onChange({ ...params, enableFluxWeakening: e.target.checked });
   };
 
+  const handleMechLossChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange({ ...params, enableMechanicalLoss: e.target.checked });
+  };
+
+  const handleFluxMapFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const fluxMap = parseFluxMapCsv(await file.text(), file.name);
+      setFluxMapError(null);
+      onChange({ ...params, fluxMap, enableSaturation: true });
+    } catch (err) {
+      setFluxMapError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleClearFluxMap = () => {
+    setFluxMapError(null);
+    onChange({ ...params, fluxMap: null, enableSaturation: false });
+  };
+
+  const handleSaturationChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange({ ...params, enableSaturation: e.target.checked });
+  };
+
   const handleLsChange = (numValue: number) => {
     onChange({ ...params, ld: numValue, lq: numValue });
   };
@@ -151,6 +236,12 @@ const ParameterInput: React.FC<ParameterInputProps> = ({ params, onChange, langu
 
   const rsDisplay = parseFloat((params.rs * 1000).toFixed(4));
 
+  const handleDatasheetChange = (field: DatasheetField, value: number) => {
+    onChange(applyDatasheetValue(params, field, value, conventions));
+  };
+
+  const datasheet = paramsToDatasheet(params, conventions);
+
   return (
     <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100 h-full overflow-y-auto">
       <div className="flex items-center space-x-2 mb-6">
@@ -239,59 +330,202 @@ const ParameterInput: React.FC<ParameterInputProps> = ({ params, onChange, langu
         </p>
       </div>
 
-      <div className="grid grid-cols-1 gap-6">
-        <div className="grid grid-cols-2 gap-4">
-          <InputFieldWrapper 
-            label={t.statorResistance} 
-            value={rsDisplay} 
-            unit="mΩ" 
-            step={0.1} 
-            onChange={(val) => handleParamChange('rs', val)}
-          />
-          <InputFieldWrapper 
-            label={t.fluxLinkage} 
-            value={params.psif} 
-            unit="Wb" 
-            step={0.000001} 
-            onChange={(val) => handleParamChange('psif', val)}
-          />
+      {/* Parameter Entry Mode */}
+      <div className="mb-6">
+        <label className="text-xs font-semibold text-gray-500 uppercase tracking-wide block mb-2">
+          {t.inputMode}
+        </label>
+        <div className="flex rounded-md shadow-sm" role="group">
+          <button
+            type="button"
+            onClick={() => setInputMode('phase')}
+            className={`flex-1 px-4 py-2 text-sm font-medium border rounded-l-lg focus:z-10 focus:ring-2 focus:ring-blue-500 ${
+              inputMode === 'phase'
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {t.phaseValues}
+          </button>
+          <button
+            type="button"
+            onClick={() => setInputMode('datasheet')}
+            className={`flex-1 px-4 py-2 text-sm font-medium border rounded-r-lg focus:z-10 focus:ring-2 focus:ring-blue-500 ${
+              inputMode === 'datasheet'
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {t.datasheetValues}
+          </button>
         </div>
+      </div>
 
-        {params.motorType === 'IPMSM' ? (
-          <div className="grid grid-cols-2 gap-4">
-            <InputFieldWrapper 
-              label={t.dAxisInductance} 
-              value={params.ld} 
-              unit="H" 
-              step={0.000001} 
-              onChange={(val) => handleParamChange('ld', val)}
-            />
-            <InputFieldWrapper 
-              label={t.qAxisInductance} 
-              value={params.lq} 
-              unit="H" 
-              step={0.000001} 
-              onChange={(val) => handleParamChange('lq', val)}
-            />
-          </div>
-        ) : (
-          <div className="grid grid-cols-1 gap-4">
-            <div className="flex flex-col space-y-1">
+      <div className="grid grid-cols-1 gap-6">
+        {inputMode === 'datasheet' ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2">
               <label className="text-xs font-semibold text-gray-500 uppercase tracking-wide">
-                {t.syncInductance}
+                {t.keConvention}
+                <select
+                  value={conventions.voltage}
+                  onChange={(e) => setConventions({ ...conventions, voltage: e.target.value as DatasheetVoltage })}
+                  className="mt-1 block w-full rounded-md border border-gray-300 bg-gray-50 px-2 py-1 text-xs normal-case"
+                >
+                  {DATASHEET_VOLTAGES.map(voltage => (
+                    <option key={voltage} value={voltage}>{voltageLabels[voltage]}</option>
+                  ))}
+                </select>
               </label>
-              <div className="relative rounded-md shadow-sm">
-                <SmartInput 
-                  value={params.ld}
-                  onChange={handleLsChange}
-                  step={0.000001}
+              <label className="text-xs font-semibold text-gray-500 uppercase tracking-wide">
+                {t.currentConvention}
+                <select
+                  value={conventions.current}
+                  onChange={(e) => setConventions({ ...conventions, current: e.target.value as DatasheetCurrent })}
+                  className="mt-1 block w-full rounded-md border border-gray-300 bg-gray-50 px-2 py-1 text-xs normal-case"
+                >
+                  {DATASHEET_CURRENTS.map(current => (
+                    <option key={current} value={current}>{current === 'rms' ? t.rms : t.peak}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs font-semibold text-gray-500 uppercase tracking-wide">
+                {t.impedanceConvention}
+                <select
+                  value={conventions.impedance}
+                  onChange={(e) => setConventions({ ...conventions, impedance: e.target.value as DatasheetImpedance })}
+                  className="mt-1 block w-full rounded-md border border-gray-300 bg-gray-50 px-2 py-1 text-xs normal-case"
+                >
+                  {DATASHEET_IMPEDANCES.map(impedance => (
+                    <option key={impedance} value={impedance}>
+                      {impedance === 'lineToLine' ? t.lineToLine : t.phaseStar}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <InputFieldWrapper 
+                label={t.backEmfConstant} 
+                value={roundDisplay(datasheet.ke)} 
+                unit="V/krpm" 
+                step={0.01} 
+                onChange={(val) => handleDatasheetChange('ke', val)}
+              />
+              <InputFieldWrapper 
+                label={t.torqueConstant} 
+                value={roundDisplay(datasheet.kt)} 
+                unit="Nm/A" 
+                step={0.001} 
+                onChange={(val) => handleDatasheetChange('kt', val)}
+              />
+              <InputFieldWrapper 
+                label={t.datasheetResistance} 
+                value={roundDisplay(datasheet.resistance * 1000)} 
+                unit="mΩ" 
+                step={0.1} 
+                onChange={(val) => handleDatasheetChange('resistance', val / 1000)}
+              />
+              <InputFieldWrapper 
+                label={t.datasheetMaxCurrent} 
+                value={roundDisplay(datasheet.maxCurrent)} 
+                unit="A" 
+                step={0.1} 
+                onChange={(val) => handleDatasheetChange('maxCurrent', val)}
+              />
+              <InputFieldWrapper 
+                label={params.motorType === 'IPMSM' ? t.inductanceMin : t.datasheetInductance} 
+                value={roundDisplay(datasheet.inductanceMin * 1e6)} 
+                unit="µH" 
+                step={0.1} 
+                onChange={(val) => handleDatasheetChange('inductanceMin', val / 1e6)}
+              />
+              {params.motorType === 'IPMSM' && (
+                <InputFieldWrapper 
+                  label={t.inductanceMax} 
+                  value={roundDisplay(datasheet.inductanceMax * 1e6)} 
+                  unit="µH" 
+                  step={0.1} 
+                  onChange={(val) => handleDatasheetChange('inductanceMax', val / 1e6)}
                 />
-                <div className="absolute inset-y-0 right-0 flex items-center pr-2 pointer-events-none">
-                  <span className="text-gray-400 text-xs sm:text-sm">H</span>
-                </div>
+              )}
+            </div>
+            <div className="p-2 bg-gray-50 rounded border border-gray-200 text-xs text-gray-700">
+              <p className="font-semibold text-gray-500 uppercase mb-1">{t.derivedValues}</p>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-0.5 font-mono">
+                <span>Rs = {(params.rs * 1000).toFixed(3)} mΩ</span>
+                <span>ψf = {(params.psif * 1000).toFixed(4)} mWb</span>
+                <span>Ld = {(params.ld * 1e6).toFixed(2)} µH</span>
+                <span>Lq = {(params.lq * 1e6).toFixed(2)} µH</span>
+                <span>Imax = {params.imax.toFixed(2)} A pk</span>
+                <span>p = {params.p}</span>
               </div>
             </div>
+            <div className="p-2 bg-yellow-50 rounded text-xs text-yellow-800 border border-yellow-100">
+               {t.datasheetExplain}
+            </div>
           </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <InputFieldWrapper 
+                label={t.statorResistance} 
+                value={rsDisplay} 
+                unit="mΩ" 
+                step={0.1} 
+                onChange={(val) => handleParamChange('rs', val)}
+                findings={findingsFor('rs')}
+              />
+              <InputFieldWrapper 
+                label={t.fluxLinkage} 
+                value={params.psif} 
+                unit="Wb" 
+                step={0.000001} 
+                onChange={(val) => handleParamChange('psif', val)}
+                findings={findingsFor('psif')}
+              />
+            </div>
+
+            {params.motorType === 'IPMSM' ? (
+              <div className="grid grid-cols-2 gap-4">
+                <InputFieldWrapper 
+                  label={t.dAxisInductance} 
+                  value={params.ld} 
+                  unit="H" 
+                  step={0.000001} 
+                  onChange={(val) => handleParamChange('ld', val)}
+                  findings={findingsFor('ld')}
+                />
+                <InputFieldWrapper 
+                  label={t.qAxisInductance} 
+                  value={params.lq} 
+                  unit="H" 
+                  step={0.000001} 
+                  onChange={(val) => handleParamChange('lq', val)}
+                  findings={findingsFor('lq')}
+                />
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 gap-4">
+                <div className="flex flex-col space-y-1">
+                  <label className="text-xs font-semibold text-gray-500 uppercase tracking-wide">
+                    {t.syncInductance}
+                  </label>
+                  <div className="relative rounded-md shadow-sm">
+                    <SmartInput 
+                      value={params.ld}
+                      onChange={handleLsChange}
+                      step={0.000001}
+                    />
+                    <div className="absolute inset-y-0 right-0 flex items-center pr-2 pointer-events-none">
+                      <span className="text-gray-400 text-xs sm:text-sm">H</span>
+                    </div>
+                  </div>
+                  <FieldFindings findings={findingsFor('ld')} />
+                </div>
+              </div>
+            )}
+          </>
         )}
 
         <div className="grid grid-cols-2 gap-4">
@@ -301,6 +535,7 @@ const ParameterInput: React.FC<ParameterInputProps> = ({ params, onChange, langu
             unit="-" 
             step={1} 
             onChange={(val) => handleParamChange('p', val)}
+            findings={findingsFor('p')}
           />
           <InputFieldWrapper 
              label={t.maxSpeed} 
@@ -308,6 +543,7 @@ const ParameterInput: React.FC<ParameterInputProps> = ({ params, onChange, langu
              unit="RPM" 
              step={100}
              onChange={(val) => handleParamChange('maxSpeed', val)}
+             findings={findingsFor('maxSpeed')}
              customAction={
                <button 
                  onClick={handleAutoMaxSpeed}
@@ -329,6 +565,7 @@ const ParameterInput: React.FC<ParameterInputProps> = ({ params, onChange, langu
                unit="V" 
                step={0.1} 
                onChange={(val) => handleParamChange('vdc', val)}
+               findings={findingsFor('vdc')}
              />
              <InputFieldWrapper 
                label={t.maxCurrent} 
@@ -336,15 +573,40 @@ const ParameterInput: React.FC<ParameterInputProps> = ({ params, onChange, langu
                unit="A" 
                step={0.1} 
                onChange={(val) => handleParamChange('imax', val)}
+               findings={findingsFor('imax')}
              />
           </div>
           <div className="mt-4">
+             <label className="text-xs font-semibold text-gray-500 uppercase tracking-wide block mb-1">
+               {t.modulationScheme}
+             </label>
+             <select
+               value={params.modulation}
+               onChange={(e) => onChange({ ...params, modulation: e.target.value as ModulationScheme })}
+               className="block w-full rounded-md border border-gray-300 bg-gray-50 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+             >
+               {MODULATION_SCHEMES.map(scheme => (
+                 <option key={scheme} value={scheme}>{modulationLabels[scheme]}</option>
+               ))}
+             </select>
+          </div>
+          <div className={`mt-4 grid gap-4 ${params.modulation === 'overmodulation' ? 'grid-cols-2' : 'grid-cols-1'}`}>
+             {params.modulation === 'overmodulation' && (
+               <InputFieldWrapper 
+                 label={t.overmodulationIndex} 
+                 value={params.overmodulationIndex} 
+                 unit="M" 
+                 step={0.01} 
+                 onChange={(val) => handleParamChange('overmodulationIndex', Math.min(1, Math.max(SVPWM_MODULATION_INDEX, val)))}
+               />
+             )}
              <InputFieldWrapper 
                label={t.voltageUtil} 
                value={params.voltageUtilization} 
                unit="ratio" 
                step={0.01} 
                onChange={(val) => handleParamChange('voltageUtilization', val)}
+               findings={findingsFor('voltageUtilization')}
              />
           </div>
           {/* Explanation for Voltage */}
@@ -352,6 +614,249 @@ const ParameterInput: React.FC<ParameterInputProps> = ({ params, onChange, langu
              {t.voltageExplain}
           </div>
         </div>
+
+        <div className="border-t pt-4 mt-2">
+          <h3 className="text-sm font-bold text-gray-700 mb-3">{t.temperature}</h3>
+          <div className="grid grid-cols-2 gap-4">
+             <InputFieldWrapper 
+               label={t.windingTemp} 
+               value={params.windingTemp} 
+               unit="°C" 
+               step={1} 
+               onChange={(val) => handleParamChange('windingTemp', val)}
+               findings={findingsFor('windingTemp')}
+             />
+             <InputFieldWrapper 
+               label={t.magnetTemp} 
+               value={params.magnetTemp} 
+               unit="°C" 
+               step={1} 
+               onChange={(val) => handleParamChange('magnetTemp', val)}
+               findings={findingsFor('magnetTemp')}
+             />
+             <InputFieldWrapper 
+               label={t.copperTempCoeff} 
+               value={params.copperTempCoeff} 
+               unit="%/K" 
+               step={0.001} 
+               onChange={(val) => handleParamChange('copperTempCoeff', val)}
+               findings={findingsFor('copperTempCoeff')}
+             />
+             <InputFieldWrapper 
+               label={t.magnetTempCoeff} 
+               value={params.magnetTempCoeff} 
+               unit="%/K" 
+               step={0.01} 
+               onChange={(val) => handleParamChange('magnetTempCoeff', val)}
+               findings={findingsFor('magnetTempCoeff')}
+             />
+          </div>
+          <div className="mt-4">
+             <InputFieldWrapper 
+               label={t.referenceTemp} 
+               value={params.referenceTemp} 
+               unit="°C" 
+               step={1} 
+               onChange={(val) => handleParamChange('referenceTemp', val)}
+               findings={findingsFor('referenceTemp')}
+             />
+          </div>
+          <div className="mt-2 p-2 bg-yellow-50 rounded text-xs text-yellow-800 border border-yellow-100">
+             {t.temperatureExplain}
+          </div>
+        </div>
+
+        <div className="border-t pt-4 mt-2">
+          <h3 className="text-sm font-bold text-gray-700 mb-3">{t.thermalModel}</h3>
+          <div className="grid grid-cols-2 gap-4">
+             <InputFieldWrapper 
+               label={t.ambientTemp} 
+               value={params.ambientTemp} 
+               unit="°C" 
+               step={1} 
+               onChange={(val) => handleParamChange('ambientTemp', val)}
+               findings={findingsFor('ambientTemp')}
+             />
+             <InputFieldWrapper 
+               label={t.thermalResCooling} 
+               value={params.thermalResCooling} 
+               unit="K/W" 
+               step={0.1} 
+               onChange={(val) => handleParamChange('thermalResCooling', val)}
+               findings={findingsFor('thermalResCooling')}
+             />
+             <InputFieldWrapper 
+               label={t.thermalResWinding} 
+               value={params.thermalResWinding} 
+               unit="K/W" 
+               step={0.1} 
+               onChange={(val) => handleParamChange('thermalResWinding', val)}
+               findings={findingsFor('thermalResWinding')}
+             />
+             <InputFieldWrapper 
+               label={t.thermalResMagnet} 
+               value={params.thermalResMagnet} 
+               unit="K/W" 
+               step={0.1} 
+               onChange={(val) => handleParamChange('thermalResMagnet', val)}
+               findings={findingsFor('thermalResMagnet')}
+             />
+             <InputFieldWrapper 
+               label={t.thermalCapWinding} 
+               value={params.thermalCapWinding} 
+               unit="J/K" 
+               step={1} 
+               onChange={(val) => handleParamChange('thermalCapWinding', val)}
+               findings={findingsFor('thermalCapWinding')}
+             />
+             <InputFieldWrapper 
+               label={t.thermalCapMagnet} 
+               value={params.thermalCapMagnet} 
+               unit="J/K" 
+               step={1} 
+               onChange={(val) => handleParamChange('thermalCapMagnet', val)}
+               findings={findingsFor('thermalCapMagnet')}
+             />
+             <InputFieldWrapper 
+               label={t.thermalCapHousing} 
+               value={params.thermalCapHousing} 
+               unit="J/K" 
+               step={10} 
+               onChange={(val) => handleParamChange('thermalCapHousing', val)}
+               findings={findingsFor('thermalCapHousing')}
+             />
+             <div />
+             <InputFieldWrapper 
+               label={t.maxWindingTemp} 
+               value={params.maxWindingTemp} 
+               unit="°C" 
+               step={5} 
+               onChange={(val) => handleParamChange('maxWindingTemp', val)}
+               findings={findingsFor('maxWindingTemp')}
+             />
+             <InputFieldWrapper 
+               label={t.maxMagnetTemp} 
+               value={params.maxMagnetTemp} 
+               unit="°C" 
+               step={5} 
+               onChange={(val) => handleParamChange('maxMagnetTemp', val)}
+               findings={findingsFor('maxMagnetTemp')}
+             />
+          </div>
+          <div className="mt-2 p-2 bg-yellow-50 rounded text-xs text-yellow-800 border border-yellow-100">
+             {t.thermalExplain}
+          </div>
+        </div>
+
+        <div className="border-t pt-4 mt-2">
+          <h3 className="text-sm font-bold text-gray-700 mb-3">{t.saturation}</h3>
+          <input
+            ref={fluxFileRef}
+            type="file"
+            accept=".csv,.txt"
+            className="hidden"
+            onChange={handleFluxMapFile}
+          />
+          <div className="flex items-center justify-between">
+            <button
+              type="button"
+              onClick={() => fluxFileRef.current?.click()}
+              className="px-3 py-1.5 rounded border border-gray-300 text-xs font-medium text-gray-700 hover:bg-gray-50"
+            >
+              {t.importFluxMap}
+            </button>
+            {params.fluxMap && (
+              <button
+                type="button"
+                onClick={handleClearFluxMap}
+                className="text-xs text-red-600 hover:text-red-800 font-medium underline"
+              >
+                {t.clearFluxMap}
+              </button>
+            )}
+          </div>
+          <p className="mt-2 text-xs text-gray-500 truncate">
+            {params.fluxMap
+              ? `${params.fluxMap.name} · ${params.fluxMap.kind === 'flux' ? t.fluxMapKindFlux : t.fluxMapKindInductance} · ${params.fluxMap.idAxis.length} × ${params.fluxMap.iqAxis.length}`
+              : t.noFluxMap}
+          </p>
+          {fluxMapError && (
+            <p className="mt-1 text-xs text-red-600">{t.fluxMapError}: {fluxMapError}</p>
+          )}
+          <div className="flex items-center mt-3">
+            <input
+              id="saturation-checkbox"
+              type="checkbox"
+              checked={params.enableSaturation}
+              disabled={!params.fluxMap}
+              onChange={handleSaturationChange}
+              className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 disabled:opacity-50"
+            />
+            <label htmlFor="saturation-checkbox" className={`ml-2 text-sm font-medium ${params.fluxMap ? 'text-gray-900' : 'text-gray-400'}`}>
+              {t.enableSaturation}
+            </label>
+          </div>
+          <div className="mt-2 p-2 bg-yellow-50 rounded text-xs text-yellow-800 border border-yellow-100">
+             {t.fluxMapFormat}
+          </div>
+        </div>
+
+        <div className="border-t pt-4 mt-2">
+          <h3 className="text-sm font-bold text-gray-700 mb-3">{t.lossModel}</h3>
+          <div className="grid grid-cols-2 gap-4">
+             <InputFieldWrapper 
+               label={t.ironLossHyst} 
+               value={params.ironLossHyst} 
+               unit="W/Hz·Wb²" 
+               step={10} 
+               onChange={(val) => handleParamChange('ironLossHyst', val)}
+               findings={findingsFor('ironLossHyst')}
+             />
+             <InputFieldWrapper 
+               label={t.ironLossEddy} 
+               value={params.ironLossEddy} 
+               unit="W/Hz²·Wb²" 
+               step={0.1} 
+               onChange={(val) => handleParamChange('ironLossEddy', val)}
+               findings={findingsFor('ironLossEddy')}
+             />
+          </div>
+          <div className="flex items-center mt-4">
+            <input
+              id="mech-loss-checkbox"
+              type="checkbox"
+              checked={params.enableMechanicalLoss}
+              onChange={handleMechLossChange}
+              className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <label htmlFor="mech-loss-checkbox" className="ml-2 text-sm font-medium text-gray-900">
+              {t.enableMechLoss}
+            </label>
+          </div>
+          {params.enableMechanicalLoss && (
+            <div className="grid grid-cols-2 gap-4 mt-4">
+               <InputFieldWrapper 
+                 label={t.frictionTorque} 
+                 value={params.frictionTorque} 
+                 unit="Nm" 
+                 step={0.001} 
+                 onChange={(val) => handleParamChange('frictionTorque', val)}
+                 findings={findingsFor('frictionTorque')}
+               />
+               <InputFieldWrapper 
+                 label={t.windageCoeff} 
+                 value={params.windageCoeff} 
+                 unit="W/(rad/s)³" 
+                 step={1e-10} 
+                 onChange={(val) => handleParamChange('windageCoeff', val)}
+                 findings={findingsFor('windageCoeff')}
+               />
+            </div>
+          )}
+          <div className="mt-2 p-2 bg-yellow-50 rounded text-xs text-yellow-800 border border-yellow-100">
+             {t.lossExplain}
+          </div>
+        </div>
       </div>
 
       <div className="mt-6 p-4 bg-blue-50 rounded-lg border border-blue-100">
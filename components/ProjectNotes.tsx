@@ -0,0 +1,31 @@
+import React from 'react';
+import { Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+
+interface ProjectNotesProps {
+  notes: string;
+  onChange: (notes: string) => void;
+  language: Language;
+}
+
+const ProjectNotes: React.FC<ProjectNotesProps> = ({ notes, onChange, language }) => {
+  const t = TRANSLATIONS[language];
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <label htmlFor="project-notes" className="text-xs font-semibold text-gray-500 uppercase tracking-wide block mb-2">
+        {t.projectNotes}
+      </label>
+      <textarea
+        id="project-notes"
+        value={notes}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={t.notesPlaceholder}
+        rows={4}
+        className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm bg-gray-50 focus:border-blue-500 focus:ring-blue-500"
+      />
+    </div>
+  );
+};
+
+export default ProjectNotes;
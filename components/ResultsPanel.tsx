@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import {
   LineChart,
   Line,
@@ -11,22 +11,59 @@ import {
   ResponsiveContainer,
   ReferenceLine,
   Area,
+  Scatter,
   ComposedChart
 } from 'recharts';
-import { SimulationResult, Language, MotorParams } from '../types';
-import { COLORS, TRANSLATIONS } from '../constants';
+import { SimulationResult, SimulationPoint, Language, MotorParams, ResultsView, OperatingRegion, DesignOverlay, ChartSettings, MeasurementSet, LoadAnalysis, ModulationScheme, ThermalEnvelope, ThermalLimit, Diagnostic } from '../types';
+import { COLORS, SERIES_PALETTE, TRANSLATIONS } from '../constants';
+import { calculateEfficiencyMap } from '../utils/efficiencyMap';
+import { calculateThermalEnvelopes } from '../utils/thermal';
+import {
+  calculateMotorCharacteristics,
+  calculateTemperatureSweep,
+  calculateFourQuadrantCharacteristics,
+  calculateModulationComparison
+} from '../utils/motorPhysics';
+import { resultToCsv, resultToXlsx, ExportContext } from '../utils/export';
+import { exportChartPng, exportChartSvg } from '../utils/chartExport';
+import { downloadBlob, downloadText, toFileName } from '../utils/download';
+import Heatmap from './Heatmap';
+import CurrentPlaneView from './CurrentPlaneView';
+import FormulaBlock from './FormulaBlock';
+import { buildReportHtml } from './DesignReport';
 
 interface ResultsPanelProps {
   result: SimulationResult;
   params: MotorParams;
   language: Language;
+  settings: ChartSettings;
+  onSettingsChange: (settings: ChartSettings) => void;
+  projectName?: string;        // Used in export file names and metadata
+  name?: string;               // Legend label of the main curve when other designs are overlaid
+  color?: string;              // Torque curve color of the main curve
+  overlays?: DesignOverlay[];  // Other designs drawn on top of the T-N chart
+  measurement?: MeasurementSet | null; // Dyno points drawn as scatter on the T-N chart
+  load?: LoadAnalysis | null;          // Load curve and steady-state point drawn on the T-N chart
+  diagnostics?: Diagnostic[];          // Listed in the design report
+}
+
+interface OverlaySeries {
+  key: string;
+  name: string;
+  color: string;
+  points: Pick<SimulationPoint, 'speedRPM' | 'torque' | 'power'>[];
+  dashed: boolean;
 }
 
-const CustomTooltip = ({ active, payload, label }: any) => {
+const CustomTooltip = ({ active, payload, label, regionLabels }: any) => {
   if (active && payload && payload.length) {
+    const region: OperatingRegion | undefined = payload[0].payload?.region;
     return (
       <div className="bg-white p-3 border border-gray-200 shadow-xl rounded-lg text-sm">
         <p className="font-bold text-gray-700 mb-2">{`${label} RPM`}</p>
+        {region && regionLabels && (
+          <p className="text-xs text-gray-500 mb-1">{regionLabels[region]}</p>
+        )}
         {payload.map((entry: any, index: number) => (
           <p key={index} style={{ color: entry.color }}>
             {entry.name}: {entry.value.toFixed(2)} {entry.unit}
@@ -38,11 +75,218 @@ const CustomTooltip = ({ active, payload, label }: any) => {
   return null;
 };
 
-const ResultsPanel: React.FC<ResultsPanelProps> = ({ result, params, language }) => {
+// Continuous duty first, then the short-time ratings
+const THERMAL_PALETTE = ['#7c3aed', '#db2777', '#0891b2', '#65a30d'];
+
+// Relative drop shown as a signed percentage (a negative drop is a gain)
+const formatDrop = (drop: number) => `${drop >= 0 ? '−' : '+'}${Math.abs(drop).toFixed(1)}%`;
+
+// Rounds a positive axis bound up to a 1 / 2 / 5 step of its magnitude
+const niceCeil = (value: number) => {
+  if (!(value > 0)) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const step = [1, 2, 5, 10].find(m => m * magnitude >= value) ?? 10;
+  return step * magnitude;
+};
+
+// Iso-efficiency contour levels (ratio)
+const EFFICIENCY_CONTOURS = [0.5, 0.6, 0.7, 0.8, 0.85, 0.9, 0.95];
+
+const ResultsPanel: React.FC<ResultsPanelProps> = ({
+  result,
+  params,
+  language,
+  settings,
+  onSettingsChange,
+  projectName = '',
+  name,
+  color = COLORS.primary,
+  overlays = [],
+  measurement = null,
+  load = null,
+  diagnostics = []
+}) => {
   const { points, maxTorque, maxPower, baseSpeed } = result;
   const { motorType, enableFluxWeakening } = params;
-  const [showFormulas, setShowFormulas] = useState(false);
+  const {
+    view,
+    showFormulas,
+    compareSaturation,
+    showTemperatureSweep,
+    sweepTemperatures,
+    compareModulation,
+    showThermalEnvelopes,
+    peakDurations
+  } = settings;
+  const updateSettings = (changes: Partial<ChartSettings>) => onSettingsChange({ ...settings, ...changes });
+  const chartRef = useRef<HTMLDivElement>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
   const t = TRANSLATIONS[language];
+  const regionLabels: Record<OperatingRegion, string> = {
+    constantTorque: t.regionConstantTorque,
+    fluxWeakening: t.regionFluxWeakening,
+    mtpv: t.regionMtpv,
+    voltageLimited: t.regionVoltageLimited
+  };
+  const mtpvStartSpeed = points.find(pt => pt.region === 'mtpv')?.speedRPM;
+
+  // Counterpart curve for the constant-parameter vs. saturated comparison
+  const comparisonResult = useMemo(() => {
+    if (!compareSaturation || !params.fluxMap) return null;
+    return calculateMotorCharacteristics({ ...params, enableSaturation: !params.enableSaturation });
+  }, [compareSaturation, params]);
+  const comparisonLabel = params.enableSaturation ? t.constantParams : t.saturated;
+
+  const temperatureCases = useMemo(() => {
+    if (!showTemperatureSweep) return [];
+    const temperatures = sweepTemperatures
+      .split(/[,;\s]+/)
+      .filter(part => part !== '')
+      .map(Number)
+      .filter(v => isFinite(v));
+    return calculateTemperatureSweep(params, Array.from(new Set(temperatures)));
+  }, [showTemperatureSweep, sweepTemperatures, params]);
+
+  const modulationComparison = useMemo(() => {
+    return compareModulation ? calculateModulationComparison(params, result) : null;
+  }, [compareModulation, params, result]);
+  const modulationLabels: Record<ModulationScheme, string> = {
+    spwm: t.modSpwm,
+    svpwm: t.modSvpwm,
+    dpwm: t.modDpwm,
+    overmodulation: t.modOvermodulation,
+    sixStep: t.modSixStep
+  };
+  const selectedReferenceTorque = modulationComparison?.cases.find(mc => mc.scheme === params.modulation)?.referenceTorque ?? 0;
+  // DPWM shares the SVPWM envelope, so it is only listed in the table
+  const modulationSeries = (modulationComparison?.cases ?? [])
+    .filter(mc => mc.scheme !== params.modulation && mc.scheme !== 'dpwm');
+
+  // Solves a bisection per speed for every duty, so only computed while shown
+  const thermal = useMemo((): { envelopes: ThermalEnvelope[]; error: string | null } => {
+    if (!showThermalEnvelopes) return { envelopes: [], error: null };
+    const durations = peakDurations
+      .split(/[,;\s]+/)
+      .filter(part => part !== '')
+      .map(Number)
+      .filter(v => isFinite(v));
+    try {
+      return { envelopes: calculateThermalEnvelopes(params, durations), error: null };
+    } catch (err) {
+      return { envelopes: [], error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [showThermalEnvelopes, peakDurations, params]);
+  const dutyLabel = (envelope: ThermalEnvelope) =>
+    envelope.duration === null ? t.continuousDuty : `${t.shortTimeDuty} ${envelope.duration} s`;
+  const thermalColor = (idx: number) => THERMAL_PALETTE[idx % THERMAL_PALETTE.length];
+  const limitLabels: Record<ThermalLimit, string> = {
+    winding: t.limitWinding,
+    magnet: t.limitMagnet,
+    peak: t.limitPeak
+  };
+
+  // Every extra curve on the T-N chart: saturation counterpart, temperature cases, modulation schemes and other designs
+  const overlaySeries: OverlaySeries[] = [
+    ...(comparisonResult
+      ? [{ key: 'saturation', name: comparisonLabel, color: COLORS.accent, points: comparisonResult.points, dashed: true }]
+      : []),
+    ...temperatureCases.map((tc, idx) => ({
+      key: `temperature-${tc.temperature}`,
+      name: `${tc.temperature} °C`,
+      color: SERIES_PALETTE[(idx + 1) % SERIES_PALETTE.length],
+      points: tc.result.points,
+      dashed: true
+    })),
+    ...modulationSeries.map((mc, idx) => ({
+      key: `modulation-${mc.scheme}`,
+      name: modulationLabels[mc.scheme],
+      color: SERIES_PALETTE[(idx + 4) % SERIES_PALETTE.length],
+      points: mc.result.points,
+      dashed: true
+    })),
+    ...thermal.envelopes.map((envelope, idx) => ({
+      key: `thermal-${envelope.duration ?? 'continuous'}`,
+      name: dutyLabel(envelope),
+      color: thermalColor(idx),
+      points: envelope.points,
+      dashed: true
+    })),
+    ...overlays.map(overlay => ({
+      key: overlay.id,
+      name: overlay.name,
+      color: overlay.color,
+      points: overlay.result.points,
+      dashed: false
+    }))
+  ];
+  const curveSpeedMax = Math.max(
+    points[points.length - 1]?.speedRPM ?? 0,
+    ...overlaySeries.map(series => series.points[series.points.length - 1]?.speedRPM ?? 0),
+    ...(measurement ? measurement.points.map(pt => pt.speedRPM) : [])
+  );
+  const measuredPower = measurement ? measurement.points.filter(pt => pt.power !== undefined) : [];
+  const mainLabel = (quantity: string) => overlays.length > 0 && name ? `${quantity} · ${name}` : quantity;
+
+  const fourQuadrant = useMemo(() => {
+    return view === 'fourQuadrant' ? calculateFourQuadrantCharacteristics(params) : null;
+  }, [view, params]);
+
+  // Symmetric axis bounds so both axes cross at the origin
+  const quadrantBounds = useMemo(() => {
+    if (!fourQuadrant) return null;
+    const all = [...fourQuadrant.motoring.points, ...fourQuadrant.generating.points];
+    return {
+      speed: niceCeil(Math.max(...all.map(pt => Math.abs(pt.speedRPM)))),
+      torque: niceCeil(Math.max(...all.map(pt => Math.abs(pt.torque))) * 1.05),
+      power: niceCeil(Math.max(...all.map(pt => Math.abs(pt.power))) * 1.05)
+    };
+  }, [fourQuadrant]);
+
+  // The map solves a full speed x torque grid, so only compute it while it is shown
+  const efficiencyMap = useMemo(() => {
+    return view === 'efficiency' ? calculateEfficiencyMap(params, result) : null;
+  }, [view, params, result]);
+
+  const viewLabels: Record<ResultsView, string> = {
+    curve: t.tnCurve,
+    fourQuadrant: t.fourQuadrant,
+    efficiency: t.efficiencyMap,
+    currentPlane: t.currentPlane
+  };
+  const viewLabel = viewLabels[view];
+  const exportBaseName = [projectName, name].filter(Boolean).join('_') || 'pmsm';
+
+  const handleExport = async (format: 'csv' | 'xlsx' | 'svg' | 'png' | 'html' | 'pdf') => {
+    const context: ExportContext = { projectName, designName: name ?? '', params, result };
+    const title = [projectName, name, viewLabel].filter(Boolean).join(' · ');
+    try {
+      setExportError(null);
+      if (format === 'html' || format === 'pdf') {
+        const report = buildReportHtml({ ...context, language, diagnostics, generatedAt: new Date() });
+        if (format === 'html') {
+          downloadText(report, toFileName(`${exportBaseName}_report`, 'html'), 'text/html');
+        } else {
+          // PDF through the browser's print dialog ("Save as PDF")
+          const printWindow = window.open('', '_blank');
+          if (!printWindow) throw new Error(t.popupBlocked);
+          printWindow.document.write(report);
+          printWindow.document.close();
+          printWindow.focus();
+          printWindow.print();
+        }
+      } else if (format === 'csv') {
+        downloadText(resultToCsv(context), toFileName(exportBaseName, 'csv'), 'text/csv');
+      } else if (format === 'xlsx') {
+        downloadBlob(resultToXlsx(context), toFileName(exportBaseName, 'xlsx'));
+      } else if (chartRef.current) {
+        const fileName = toFileName(`${exportBaseName}_${view}`, format);
+        if (format === 'svg') exportChartSvg(chartRef.current, fileName, title);
+        else await exportChartPng(chartRef.current, fileName, title);
+      }
+    } catch (err) {
+      setExportError(`${t.exportFailed}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
 
   return (
     <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100 h-full flex flex-col">
@@ -67,73 +311,492 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({ result, params, language })
              <span className="text-gray-500 block text-xs">{t.peakPower}</span>
              <span className="font-bold text-gray-800">{maxPower.toFixed(1)} kW</span>
            </div>
+           {fourQuadrant && (
+             <div className="px-3 py-1 bg-gray-100 rounded-md">
+               <span className="text-gray-500 block text-xs">{t.maxBrakingTorque}</span>
+               <span className="font-bold text-gray-800">{Math.abs(fourQuadrant.generating.maxTorque).toFixed(1)} Nm</span>
+             </div>
+           )}
+           {fourQuadrant && (
+             <div className="px-3 py-1 bg-gray-100 rounded-md">
+               <span className="text-gray-500 block text-xs">{t.peakRegenPower}</span>
+               <span className="font-bold text-gray-800">{Math.abs(fourQuadrant.generating.maxPower).toFixed(1)} kW</span>
+             </div>
+           )}
+           {efficiencyMap && (
+             <div className="px-3 py-1 bg-gray-100 rounded-md">
+               <span className="text-gray-500 block text-xs">{t.peakEfficiency}</span>
+               <span className="font-bold text-gray-800">{(efficiencyMap.maxEfficiency * 100).toFixed(1)} %</span>
+             </div>
+           )}
         </div>
       </div>
 
-      <div className="flex-1 min-h-[400px]">
-        <ResponsiveContainer width="100%" height="100%">
-          <ComposedChart
-            data={points}
-            margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
-          >
-            <CartesianGrid strokeDasharray="3 3" stroke={COLORS.grid} />
-            <XAxis 
-              dataKey="speedRPM" 
-              label={{ value: t.speedRPM, position: 'insideBottomRight', offset: -10 }} 
-              type="number"
-              domain={['dataMin', 'dataMax']}
-            />
-            {/* Y Axis for Torque */}
-            <YAxis 
-              yAxisId="left" 
-              label={{ value: t.torqueNm, angle: -90, position: 'insideLeft' }}
-            />
-            {/* Y Axis for Power */}
-            <YAxis 
-              yAxisId="right" 
-              orientation="right" 
-              label={{ value: t.powerkW, angle: 90, position: 'insideRight' }}
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex rounded-md shadow-sm" role="group">
+          {(['curve', 'fourQuadrant', 'efficiency', 'currentPlane'] as ResultsView[]).map((v, idx, views) => (
+            <button
+              key={v}
+              type="button"
+              onClick={() => updateSettings({ view: v })}
+              className={`px-4 py-1.5 text-xs font-medium border focus:z-10 focus:ring-2 focus:ring-blue-500 ${
+                idx === 0 ? 'rounded-l-lg' : idx === views.length - 1 ? 'rounded-r-lg' : ''
+              } ${
+                view === v
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {viewLabels[v]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center space-x-4">
+          <div className="flex items-center space-x-1 text-xs">
+            <span className="text-gray-500 mr-1">{t.exportLabel}</span>
+            {(['csv', 'xlsx', 'svg', 'png', 'html', 'pdf'] as const).map(format => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => handleExport(format)}
+                title={format === 'html' || format === 'pdf' ? t.designReportHint : undefined}
+                className="px-2 py-0.5 rounded border border-gray-300 font-medium text-gray-700 hover:bg-gray-50 uppercase"
+              >
+                {format}
+              </button>
+            ))}
+          </div>
+          {view === 'curve' && (
+            <div className="flex items-center">
+              <input
+                id="temperature-sweep-checkbox"
+                type="checkbox"
+                checked={showTemperatureSweep}
+                onChange={(e) => updateSettings({ showTemperatureSweep: e.target.checked })}
+                className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <label htmlFor="temperature-sweep-checkbox" className="ml-2 text-xs font-medium text-gray-700">
+                {t.temperatureSweep}
+              </label>
+              {showTemperatureSweep && (
+                <input
+                  type="text"
+                  value={sweepTemperatures}
+                  onChange={(e) => updateSettings({ sweepTemperatures: e.target.value })}
+                  title={t.sweepTemperatures}
+                  className="ml-2 w-28 rounded border border-gray-300 px-2 py-0.5 text-xs bg-gray-50"
+                />
+              )}
+            </div>
+          )}
+          {view === 'curve' && (
+            <div className="flex items-center">
+              <input
+                id="thermal-envelopes-checkbox"
+                type="checkbox"
+                checked={showThermalEnvelopes}
+                onChange={(e) => updateSettings({ showThermalEnvelopes: e.target.checked })}
+                className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <label htmlFor="thermal-envelopes-checkbox" className="ml-2 text-xs font-medium text-gray-700">
+                {t.thermalEnvelopes}
+              </label>
+              {showThermalEnvelopes && (
+                <input
+                  type="text"
+                  value={peakDurations}
+                  onChange={(e) => updateSettings({ peakDurations: e.target.value })}
+                  title={t.peakDurations}
+                  className="ml-2 w-20 rounded border border-gray-300 px-2 py-0.5 text-xs bg-gray-50"
+                />
+              )}
+            </div>
+          )}
+          {view === 'curve' && (
+            <div className="flex items-center">
+              <input
+                id="compare-modulation-checkbox"
+                type="checkbox"
+                checked={compareModulation}
+                onChange={(e) => updateSettings({ compareModulation: e.target.checked })}
+                className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <label htmlFor="compare-modulation-checkbox" className="ml-2 text-xs font-medium text-gray-700">
+                {t.compareModulation}
+              </label>
+            </div>
+          )}
+          {params.fluxMap && view === 'curve' && (
+            <div className="flex items-center">
+              <input
+                id="compare-saturation-checkbox"
+                type="checkbox"
+                checked={compareSaturation}
+                onChange={(e) => updateSettings({ compareSaturation: e.target.checked })}
+                className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <label htmlFor="compare-saturation-checkbox" className="ml-2 text-xs font-medium text-gray-700">
+                {t.compareSaturation}
+              </label>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {exportError && <p className="mb-2 text-xs text-red-600">{exportError}</p>}
+
+      <div ref={chartRef} className="flex-1 flex flex-col">
+        {view === 'currentPlane' ? (
+          <CurrentPlaneView params={params} result={result} language={language} />
+        ) : efficiencyMap ? (
+          <div className="flex-1 min-h-[400px]">
+            <Heatmap
+              xValues={efficiencyMap.speeds}
+              yValues={efficiencyMap.torques}
+              values={efficiencyMap.cells.map(row => row.map(cell => cell ? cell.efficiency : null))}
+              xLabel={t.speedRPM}
+              yLabel={t.torqueNm}
+              valueLabel={t.efficiencyPct}
+              formatValue={(v) => (v * 100).toFixed(0)}
+              xDomain={[0, efficiencyMap.speeds[efficiencyMap.speeds.length - 1] ?? 1]}
+              yDomain={[0, (maxTorque || 1) * 1.05]}
+              contourLevels={EFFICIENCY_CONTOURS}
+              overlays={[{
+                points: points.map(pt => ({ x: pt.speedRPM, y: pt.torque })),
+                color: COLORS.accent,
+                label: t.envelope
+              }]}
             />
+            <p className="mt-2 text-xs text-gray-400">{t.efficiencyMapNote}</p>
+          </div>
+        ) : fourQuadrant && quadrantBounds ? (
+          <div className="flex-1 min-h-[400px] flex flex-col">
+            <div className="flex-1 min-h-[400px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={COLORS.grid} />
+                  <XAxis
+                    dataKey="speedRPM"
+                    type="number"
+                    domain={[-quadrantBounds.speed, quadrantBounds.speed]}
+                    axisLine={false}
+                    label={{ value: t.speedRPM, position: 'insideBottomRight', offset: -10 }}
+                  />
+                  <YAxis
+                    yAxisId="left"
+                    type="number"
+                    domain={[-quadrantBounds.torque, quadrantBounds.torque]}
+                    axisLine={false}
+                    label={{ value: t.torqueNm, angle: -90, position: 'insideLeft' }}
+                  />
+                  <YAxis
+                    yAxisId="right"
+                    orientation="right"
+                    type="number"
+                    domain={[-quadrantBounds.power, quadrantBounds.power]}
+                    axisLine={false}
+                    label={{ value: t.powerkW, angle: 90, position: 'insideRight' }}
+                  />
+                  {/* Axes through the origin */}
+                  <ReferenceLine yAxisId="left" x={0} stroke={COLORS.text} strokeWidth={1.5} />
+                  <ReferenceLine yAxisId="left" y={0} stroke={COLORS.text} strokeWidth={1.5} />
+
+                  <Tooltip content={<CustomTooltip regionLabels={regionLabels} />} />
+                  <Legend verticalAlign="top" height={36} />
+
+                  {[
+                    { key: 'q1', data: fourQuadrant.motoring.points, name: t.motoring, color: COLORS.primary },
+                    { key: 'q4', data: fourQuadrant.generating.points, name: t.generating, color: COLORS.accent },
+                    { key: 'q3', data: fourQuadrant.reverseMotoring, name: `${t.motoring} (${t.reverse})`, color: COLORS.primary },
+                    { key: 'q2', data: fourQuadrant.reverseGenerating, name: `${t.generating} (${t.reverse})`, color: COLORS.accent }
+                  ].flatMap(series => [
+                    <Line
+                      key={`${series.key}-torque`}
+                      yAxisId="left"
+                      type="monotone"
+                      data={series.data}
+                      dataKey="torque"
+                      name={`${t.torqueNm.split(' ')[0]} ${series.name}`}
+                      unit="Nm"
+                      stroke={series.color}
+                      strokeWidth={3}
+                      dot={false}
+                      legendType={series.key === 'q1' || series.key === 'q4' ? 'line' : 'none'}
+                    />,
+                    <Line
+                      key={`${series.key}-power`}
+                      yAxisId="right"
+                      type="monotone"
+                      data={series.data}
+                      dataKey="power"
+                      name={`${t.powerkW.split(' ')[0]} ${series.name}`}
+                      unit="kW"
+                      stroke={series.color}
+                      strokeWidth={1.5}
+                      strokeDasharray="5 4"
+                      dot={false}
+                      legendType={series.key === 'q1' || series.key === 'q4' ? 'plainline' : 'none'}
+                    />
+                  ])}
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="mt-2 text-xs text-gray-400">{t.fourQuadrantNote}</p>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-[400px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart
+                data={points}
+                margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke={COLORS.grid} />
+                <XAxis 
+                  dataKey="speedRPM" 
+                  label={{ value: t.speedRPM, position: 'insideBottomRight', offset: -10 }} 
+                  type="number"
+                  domain={[0, curveSpeedMax || 'dataMax']}
+                />
+                {/* Y Axis for Torque */}
+                <YAxis 
+                  yAxisId="left" 
+                  label={{ value: t.torqueNm, angle: -90, position: 'insideLeft' }}
+                />
+                {/* Y Axis for Power */}
+                <YAxis 
+                  yAxisId="right" 
+                  orientation="right" 
+                  label={{ value: t.powerkW, angle: 90, position: 'insideRight' }}
+                />
             
-            <Tooltip content={<CustomTooltip />} />
-            <Legend verticalAlign="top" height={36}/>
-
-            <Area 
-              yAxisId="left"
-              type="monotone" 
-              dataKey="torque" 
-              name={t.torqueNm.split(' ')[0]} 
-              unit="Nm"
-              fill="url(#colorTorque)" 
-              fillOpacity={0.1}
-              stroke={COLORS.primary} 
-              strokeWidth={3}
-            />
-            <Line 
-              yAxisId="right" 
-              type="monotone" 
-              dataKey="power" 
-              name={t.powerkW.split(' ')[0]} 
-              unit="kW"
-              stroke={COLORS.secondary} 
-              strokeWidth={3}
-              dot={false}
-            />
+                <Tooltip content={<CustomTooltip regionLabels={regionLabels} />} />
+                <Legend verticalAlign="top" height={36}/>
+
+                <Area 
+                  yAxisId="left"
+                  type="monotone" 
+                  dataKey="torque" 
+                  name={mainLabel(t.torqueNm.split(' ')[0])} 
+                  unit="Nm"
+                  fill="url(#colorTorque)" 
+                  fillOpacity={0.1}
+                  stroke={color} 
+                  strokeWidth={3}
+                />
+                <Line 
+                  yAxisId="right" 
+                  type="monotone" 
+                  dataKey="power" 
+                  name={mainLabel(t.powerkW.split(' ')[0])} 
+                  unit="kW"
+                  stroke={COLORS.secondary} 
+                  strokeWidth={3}
+                  dot={false}
+                />
+
+                {overlaySeries.flatMap(series => [
+                  <Line
+                    key={`${series.key}-torque`}
+                    yAxisId="left"
+                    type="monotone"
+                    data={series.points}
+                    dataKey="torque"
+                    name={`${t.torqueNm.split(' ')[0]} · ${series.name}`}
+                    unit="Nm"
+                    stroke={series.color}
+                    strokeWidth={2}
+                    strokeDasharray={series.dashed ? '6 3' : undefined}
+                    dot={false}
+                  />,
+                  <Line
+                    key={`${series.key}-power`}
+                    yAxisId="right"
+                    type="monotone"
+                    data={series.points}
+                    dataKey="power"
+                    name={`${t.powerkW.split(' ')[0]} · ${series.name}`}
+                    unit="kW"
+                    stroke={series.color}
+                    strokeWidth={1.5}
+                    strokeDasharray="2 3"
+                    dot={false}
+                    legendType="none"
+                  />
+                ])}
+
+                {measurement && (
+                  <Scatter
+                    yAxisId="left"
+                    data={measurement.points}
+                    dataKey="torque"
+                    name={`${t.torqueNm.split(' ')[0]} · ${t.measured}`}
+                    fill={COLORS.text}
+                    shape="circle"
+                  />
+                )}
+                {load && (
+                  <Line
+                    yAxisId="left"
+                    type="monotone"
+                    data={load.curve}
+                    dataKey="torque"
+                    name={t.load}
+                    unit="Nm"
+                    stroke={COLORS.text}
+                    strokeWidth={2}
+                    strokeDasharray="8 4"
+                    dot={false}
+                  />
+                )}
+                {load?.steadyState && (
+                  <Scatter
+                    yAxisId="left"
+                    data={[load.steadyState]}
+                    dataKey="torque"
+                    name={t.steadyStatePoint}
+                    fill="red"
+                    shape="star"
+                  />
+                )}
+                {measuredPower.length > 0 && (
+                  <Scatter
+                    yAxisId="right"
+                    data={measuredPower}
+                    dataKey="power"
+                    name={`${t.powerkW.split(' ')[0]} · ${t.measured}`}
+                    fill={COLORS.secondary}
+                    shape="diamond"
+                  />
+                )}
             
-            <defs>
-              <linearGradient id="colorTorque" x1="0" y1="0" x2="0" y2="1">
-                <stop offset="5%" stopColor={COLORS.primary} stopOpacity={0.3}/>
-                <stop offset="95%" stopColor={COLORS.primary} stopOpacity={0}/>
-              </linearGradient>
-            </defs>
-
-            {baseSpeed > 0 && (
-               <ReferenceLine x={baseSpeed} stroke="red" strokeDasharray="3 3" label={{ value: t.baseSpeed, position: 'insideTopLeft', fill: 'red', fontSize: 12 }} />
-            )}
-          </ComposedChart>
-        </ResponsiveContainer>
+                <defs>
+                  <linearGradient id="colorTorque" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor={color} stopOpacity={0.3}/>
+                    <stop offset="95%" stopColor={color} stopOpacity={0}/>
+                  </linearGradient>
+                </defs>
+
+                {baseSpeed > 0 && (
+                   <ReferenceLine x={baseSpeed} stroke="red" strokeDasharray="3 3" label={{ value: t.baseSpeed, position: 'insideTopLeft', fill: 'red', fontSize: 12 }} />
+                )}
+                {mtpvStartSpeed !== undefined && (
+                   <ReferenceLine x={mtpvStartSpeed} stroke="#9333ea" strokeDasharray="3 3" label={{ value: t.mtpvStart, position: 'insideTopRight', fill: '#9333ea', fontSize: 12 }} />
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
       </div>
 
+      {temperatureCases.length > 0 && view === 'curve' && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full text-xs text-gray-700">
+            <thead>
+              <tr className="border-b text-gray-500">
+                <th className="text-left py-1 pr-4">{t.temperature}</th>
+                <th className="text-right py-1 pr-4">{t.maxTorque}</th>
+                <th className="text-right py-1 pr-4">{t.baseSpeed}</th>
+                <th className="text-right py-1">{t.peakPower}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {temperatureCases.map((tc, idx) => (
+                <tr key={tc.temperature} className="border-b border-gray-100">
+                  <td className="py-1 pr-4 font-semibold" style={{ color: SERIES_PALETTE[(idx + 1) % SERIES_PALETTE.length] }}>
+                    {tc.temperature} °C
+                  </td>
+                  <td className="text-right py-1 pr-4">
+                    {tc.result.maxTorque.toFixed(3)} Nm {idx > 0 && <span className="text-red-600">({formatDrop(tc.maxTorqueDrop)})</span>}
+                  </td>
+                  <td className="text-right py-1 pr-4">
+                    {tc.result.baseSpeed.toFixed(0)} RPM {idx > 0 && <span className="text-red-600">({formatDrop(tc.baseSpeedDrop)})</span>}
+                  </td>
+                  <td className="text-right py-1">
+                    {tc.result.maxPower.toFixed(3)} kW {idx > 0 && <span className="text-red-600">({formatDrop(tc.maxPowerDrop)})</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-1 text-xs text-gray-400">{t.dropVsCold}: {temperatureCases[0].temperature} °C</p>
+        </div>
+      )}
+
+      {showThermalEnvelopes && view === 'curve' && thermal.error && (
+        <p className="mt-4 text-xs text-red-600">{thermal.error}</p>
+      )}
+      {thermal.envelopes.length > 0 && view === 'curve' && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full text-xs text-gray-700">
+            <thead>
+              <tr className="border-b text-gray-500">
+                <th className="text-left py-1 pr-4">{t.dutyType}</th>
+                <th className="text-right py-1 pr-4">{t.maxTorque}</th>
+                <th className="text-right py-1 pr-4">{t.peakPower}</th>
+                <th className="text-right py-1 pr-4">{t.ratioToPeak}</th>
+                <th className="text-left py-1">{t.limitedBy}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {thermal.envelopes.map((envelope, idx) => {
+                const limits = Array.from(new Set<ThermalLimit>(envelope.points.map(pt => pt.limit)));
+                return (
+                  <tr key={envelope.duration ?? 'continuous'} className="border-b border-gray-100">
+                    <td className="py-1 pr-4 font-semibold" style={{ color: thermalColor(idx) }}>{dutyLabel(envelope)}</td>
+                    <td className="text-right py-1 pr-4">{envelope.maxTorque.toFixed(3)} Nm</td>
+                    <td className="text-right py-1 pr-4">{envelope.maxPower.toFixed(3)} kW</td>
+                    <td className="text-right py-1 pr-4">
+                      {result.maxTorque > 0 ? `${((envelope.maxTorque / result.maxTorque) * 100).toFixed(0)}%` : '—'}
+                    </td>
+                    <td className="py-1">{limits.map(limit => limitLabels[limit]).join(', ')}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="mt-1 text-xs text-gray-400">{t.thermalNote}</p>
+        </div>
+      )}
+
+      {modulationComparison && view === 'curve' && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full text-xs text-gray-700">
+            <thead>
+              <tr className="border-b text-gray-500">
+                <th className="text-left py-1 pr-4">{t.modulationScheme}</th>
+                <th className="text-right py-1 pr-4">{t.voltageCeiling}</th>
+                <th className="text-right py-1 pr-4">{t.baseSpeed}</th>
+                <th className="text-right py-1 pr-4">{t.peakPower}</th>
+                <th className="text-right py-1 pr-4">{t.torqueAt} {modulationComparison.referenceSpeed.toFixed(0)} RPM</th>
+                <th className="text-right py-1">{t.deltaVsSelected}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {modulationComparison.cases.map(mc => {
+                const isSelected = mc.scheme === params.modulation;
+                const seriesColor = overlaySeries.find(series => series.key === `modulation-${mc.scheme}`)?.color;
+                const delta = mc.referenceTorque - selectedReferenceTorque;
+                return (
+                  <tr key={mc.scheme} className={`border-b border-gray-100 ${isSelected ? 'bg-blue-50' : ''}`}>
+                    <td className="py-1 pr-4 font-semibold" style={{ color: isSelected ? color : seriesColor }}>
+                      {modulationLabels[mc.scheme]}{isSelected && ` (${t.selected})`}
+                    </td>
+                    <td className="text-right py-1 pr-4">{mc.vLim.toFixed(2)} V</td>
+                    <td className="text-right py-1 pr-4">{mc.result.baseSpeed.toFixed(0)} RPM</td>
+                    <td className="text-right py-1 pr-4">{mc.result.maxPower.toFixed(3)} kW</td>
+                    <td className="text-right py-1 pr-4">{mc.referenceTorque.toFixed(3)} Nm</td>
+                    <td className={`text-right py-1 ${delta >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {isSelected ? '—' : `${delta >= 0 ? '+' : '−'}${Math.abs(delta).toFixed(3)} Nm`}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="mt-1 text-xs text-gray-400">{t.modulationNote}</p>
+        </div>
+      )}
+
       {/* Stats and Formulas Toggle */}
       <div className="mt-6 border-t pt-4">
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-xs text-gray-500 mb-4">
@@ -156,7 +819,7 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({ result, params, language })
         </div>
 
         <button 
-          onClick={() => setShowFormulas(!showFormulas)}
+          onClick={() => updateSettings({ showFormulas: !showFormulas })}
           className="text-blue-600 text-xs font-semibold hover:text-blue-800 flex items-center"
         >
           {showFormulas ? t.hideFormulas : t.showFormulas}
@@ -165,63 +828,7 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({ result, params, language })
           </svg>
         </button>
 
-        {showFormulas && (
-          <div className="mt-4 p-4 bg-gray-50 rounded-lg border border-gray-200 text-sm text-gray-700 font-mono overflow-x-auto">
-            <h4 className="font-bold text-gray-900 mb-3 border-b pb-1">{t.mathModel}</h4>
-            
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-              <div>
-                <p className="font-semibold text-xs text-gray-500 uppercase mb-1">{t.voltageEq}</p>
-                <div className="space-y-2">
-                  <p>v<sub>d</sub> = R<sub>s</sub>i<sub>d</sub> - ω<sub>e</sub>L<sub>q</sub>i<sub>q</sub></p>
-                  <p>v<sub>q</sub> = R<sub>s</sub>i<sub>q</sub> + ω<sub>e</sub>(L<sub>d</sub>i<sub>d</sub> + ψ<sub>f</sub>)</p>
-                  <p>v<sub>s</sub> = √(v<sub>d</sub>² + v<sub>q</sub>²) ≤ V<sub>max</sub></p>
-                  <p className="text-xs text-gray-400 mt-1">V<sub>max</sub> = (V<sub>dc</sub>/√3) · η</p>
-                </div>
-              </div>
-
-              <div>
-                <p className="font-semibold text-xs text-gray-500 uppercase mb-1">{t.torqueFlux}</p>
-                <div className="space-y-2">
-                  <p>T<sub>e</sub> = 1.5 · p · [ψ<sub>f</sub>i<sub>q</sub> + (L<sub>d</sub> - L<sub>q</sub>)i<sub>d</sub>i<sub>q</sub>]</p>
-                  <p>ψ<sub>d</sub> = L<sub>d</sub>i<sub>d</sub> + ψ<sub>f</sub></p>
-                  <p>ψ<sub>q</sub> = L<sub>q</sub>i<sub>q</sub></p>
-                </div>
-              </div>
-
-              <div>
-                 {/* Base Speed Section */}
-                 <p className="font-semibold text-xs text-gray-500 uppercase mb-1">{t.baseSpeedFormula}</p>
-                 <div className="space-y-2 mb-4 border-b border-gray-200 pb-3">
-                   <p>ω<sub>base</sub> ≈ V<sub>lim</sub> / ψ<sub>total</sub></p>
-                   <p className="text-xs text-gray-600">ψ<sub>total</sub> = √[(L<sub>q</sub>i<sub>q</sub>)² + (L<sub>d</sub>i<sub>d</sub>+ψ<sub>f</sub>)²]</p>
-                   <p className="text-xs text-gray-400">i<sub>d</sub>, i<sub>q</sub> @ I<sub>max</sub> (MTPA)</p>
-                 </div>
-
-                 <p className="font-semibold text-xs text-gray-500 uppercase mb-1">{t.maxSpeedTheory}</p>
-                 {enableFluxWeakening ? (
-                    <div className="space-y-2 bg-blue-50 p-2 rounded">
-                      <p className="text-xs font-bold text-blue-700 mb-1">Flux Weakening Mode</p>
-                      <p className="text-xs text-gray-600">Char. Current: I<sub>ch</sub> = ψ<sub>f</sub> / L<sub>d</sub></p>
-                      <p>If I<sub>max</sub> &ge; I<sub>ch</sub>: <br/> &nbsp; ω<sub>max</sub> &to; ∞</p>
-                      <p>If I<sub>max</sub> &lt; I<sub>ch</sub>: <br/> &nbsp; ω<sub>max</sub> = V<sub>lim</sub> / |ψ<sub>f</sub> - L<sub>d</sub>I<sub>max</sub>|</p>
-                    </div>
-                 ) : (
-                    <div className="space-y-2 bg-orange-50 p-2 rounded">
-                      <p className="text-xs font-bold text-orange-700 mb-1">No-Load (Back EMF) Mode</p>
-                      <p>V<sub>lim</sub> = ω<sub>e</sub> · ψ<sub>f</sub></p>
-                      <p>ω<sub>max</sub> = V<sub>lim</sub> / ψ<sub>f</sub></p>
-                      <p className="text-xs text-gray-400 mt-1">Limited by generated voltage matching DC bus.</p>
-                    </div>
-                 )}
-              </div>
-            </div>
-            
-            <div className="mt-4 text-xs text-gray-500 italic">
-               {t.modelNote}
-            </div>
-          </div>
-        )}
+        {showFormulas && <FormulaBlock language={language} enableFluxWeakening={enableFluxWeakening} />}
       </div>
     </div>
   );
@@ -0,0 +1,298 @@
+import React, { useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { Language, MotorParams, SweepAxis, SweepOutput, SweepParameter, SweepResult, SweepSettings } from '../types';
+import { COLORS, SERIES_PALETTE, TRANSLATIONS } from '../constants';
+import { runSweep, SWEEP_PARAMETERS, MAX_SWEEP_STEPS, MAX_SWEEP_RUNS } from '../utils/sweep';
+import Heatmap from './Heatmap';
+
+interface SweepPanelProps {
+  params: MotorParams;
+  settings: SweepSettings;
+  onChange: (settings: SweepSettings) => void;
+  language: Language;
+}
+
+// Display unit per field: values are entered and plotted as SI value × scale
+const FIELD_UNITS: Record<SweepParameter, { unit: string; scale: number; step: number }> = {
+  vdc: { unit: 'V', scale: 1, step: 1 },
+  voltageUtilization: { unit: '', scale: 1, step: 0.01 },
+  imax: { unit: 'A', scale: 1, step: 1 },
+  psif: { unit: 'mWb', scale: 1000, step: 0.1 },
+  ld: { unit: 'µH', scale: 1e6, step: 1 },
+  lq: { unit: 'µH', scale: 1e6, step: 1 },
+  rs: { unit: 'mΩ', scale: 1000, step: 1 },
+  windingTemp: { unit: '°C', scale: 1, step: 5 },
+  magnetTemp: { unit: '°C', scale: 1, step: 5 }
+};
+
+const OUTPUTS: SweepOutput[] = ['maxTorque', 'baseSpeed', 'maxPower'];
+
+const formatFieldValue = (key: SweepParameter, value: number) => {
+  const { unit, scale } = FIELD_UNITS[key];
+  return `${parseFloat((value * scale).toPrecision(4))}${unit ? ` ${unit}` : ''}`;
+};
+
+type AxisName = 'primary' | 'secondary';
+
+const SweepPanel: React.FC<SweepPanelProps> = ({ params, settings, onChange, language }) => {
+  const t = TRANSLATIONS[language];
+  // The last run and the inputs it was made with, to flag it as stale after edits
+  const [run, setRun] = useState<{ result: SweepResult; params: MotorParams; settings: SweepSettings } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const update = (changes: Partial<SweepSettings>) => onChange({ ...settings, ...changes });
+  const updateAxis = (name: AxisName, changes: Partial<SweepAxis>) => update({ [name]: { ...settings[name], ...changes } });
+
+  const fieldLabels: Record<SweepParameter, string> = {
+    vdc: t.dcBusVoltage,
+    voltageUtilization: t.voltageUtil,
+    imax: t.maxCurrent,
+    psif: t.fluxLinkage,
+    ld: t.dAxisInductance,
+    lq: t.qAxisInductance,
+    rs: t.statorResistance,
+    windingTemp: t.windingTemp,
+    magnetTemp: t.magnetTemp
+  };
+
+  const outputLabels: Record<SweepOutput, string> = {
+    maxTorque: t.maxTorque,
+    baseSpeed: t.baseSpeed,
+    maxPower: t.peakPower
+  };
+
+  const outputUnits: Record<SweepOutput, { unit: string; digits: number }> = {
+    maxTorque: { unit: 'Nm', digits: 3 },
+    baseSpeed: { unit: 'RPM', digits: 0 },
+    maxPower: { unit: 'kW', digits: 3 }
+  };
+
+  const handleRun = () => {
+    try {
+      setRun({ result: runSweep(params, settings), params, settings });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Range inputs are keyed by field so switching the field reloads them in its unit
+  const axisFields = (name: AxisName) => {
+    const axis = settings[name];
+    const { unit, scale, step } = FIELD_UNITS[axis.key];
+    const rangeField = (bound: 'from' | 'to', label: string) => (
+      <label className="block text-xs font-medium text-gray-700">
+        {label}{unit ? ` (${unit})` : ''}
+        <input
+          key={`${name}-${axis.key}-${bound}`}
+          type="number"
+          step={step}
+          defaultValue={parseFloat((axis[bound] * scale).toPrecision(6))}
+          onChange={e => {
+            const value = parseFloat(e.target.value);
+            if (isFinite(value)) updateAxis(name, { [bound]: value / scale });
+          }}
+          className="mt-1 block w-full rounded border border-gray-300 px-2 py-1 text-xs"
+        />
+      </label>
+    );
+    return (
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3 items-end">
+        <label className="block text-xs font-medium text-gray-700">
+          {name === 'primary' ? t.sweepPrimary : t.sweepSecondary}
+          <select
+            value={axis.key}
+            onChange={e => {
+              const key = e.target.value as SweepParameter;
+              // Start the new field at ±50 % around its present value
+              const current = params[key];
+              updateAxis(name, { key, from: current * 0.5, to: current * 1.5 });
+            }}
+            className="mt-1 block w-full rounded border border-gray-300 px-2 py-1 text-xs"
+          >
+            {SWEEP_PARAMETERS.map(key => (
+              <option key={key} value={key}>{fieldLabels[key]}</option>
+            ))}
+          </select>
+        </label>
+        {rangeField('from', t.sweepFrom)}
+        {rangeField('to', t.sweepTo)}
+        <label className="block text-xs font-medium text-gray-700">
+          {t.sweepSteps} (≤ {MAX_SWEEP_STEPS})
+          <input
+            type="number"
+            step={1}
+            min={1}
+            defaultValue={axis.steps}
+            onChange={e => {
+              const value = parseInt(e.target.value, 10);
+              if (isFinite(value) && value >= 1) updateAxis(name, { steps: value });
+            }}
+            className="mt-1 block w-full rounded border border-gray-300 px-2 py-1 text-xs"
+          />
+        </label>
+      </div>
+    );
+  };
+
+  const sweep = run?.result ?? null;
+  // Switching the heatmap output only changes the view, not the run
+  const stale = run !== null && (
+    run.params !== params ||
+    run.settings.primary !== settings.primary ||
+    run.settings.secondary !== settings.secondary ||
+    run.settings.useSecondary !== settings.useSecondary
+  );
+
+  const renderFamily = (result: SweepResult) => {
+    const key = result.primary.key;
+    const series = result.xValues.map((value, idx) => ({
+      name: formatFieldValue(key, value),
+      color: SERIES_PALETTE[idx % SERIES_PALETTE.length],
+      result: result.results[0][idx]
+    }));
+    return (
+      <>
+        <p className="text-xs font-semibold text-gray-500 uppercase mb-1">
+          {t.sweepFamily}: {fieldLabels[key]}
+        </p>
+        <div className="h-80 mb-4">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart margin={{ top: 10, right: 30, left: 20, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke={COLORS.grid} />
+              <XAxis
+                dataKey="speedRPM"
+                type="number"
+                domain={[0, 'dataMax']}
+                label={{ value: t.speedRPM, position: 'insideBottomRight', offset: -10 }}
+              />
+              <YAxis label={{ value: t.torqueNm, angle: -90, position: 'insideLeft' }} />
+              <Tooltip
+                formatter={(value: number) => value.toFixed(3)}
+                labelFormatter={(speed: number) => `${speed} RPM`}
+              />
+              <Legend verticalAlign="top" height={30} />
+              {series.map((s, idx) => (
+                <Line
+                  key={idx}
+                  data={s.result.points}
+                  type="monotone"
+                  dataKey="torque"
+                  name={s.name}
+                  stroke={s.color}
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-xs text-gray-700">
+            <thead>
+              <tr className="border-b text-gray-500">
+                <th className="text-left py-1 pr-4">{fieldLabels[key]}</th>
+                {OUTPUTS.map(output => (
+                  <th key={output} className="text-left py-1 pr-4">{outputLabels[output]} ({outputUnits[output].unit})</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {series.map((s, idx) => (
+                <tr key={idx} className="border-b border-gray-100">
+                  <td className="py-1 pr-4 font-semibold" style={{ color: s.color }}>{s.name}</td>
+                  {OUTPUTS.map(output => (
+                    <td key={output} className="py-1 pr-4">{s.result[output].toFixed(outputUnits[output].digits)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </>
+    );
+  };
+
+  const renderHeatmap = (result: SweepResult, secondary: SweepAxis) => {
+    const x = FIELD_UNITS[result.primary.key];
+    const y = FIELD_UNITS[secondary.key];
+    const { unit, digits } = outputUnits[settings.output];
+    return (
+      <>
+        <div className="flex flex-wrap items-center gap-2 mb-2">
+          <span className="text-xs font-medium text-gray-700">{t.sweepOutput}</span>
+          <select
+            value={settings.output}
+            onChange={e => update({ output: e.target.value as SweepOutput })}
+            className="rounded border border-gray-300 px-2 py-1 text-xs"
+          >
+            {OUTPUTS.map(output => (
+              <option key={output} value={output}>{outputLabels[output]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="min-h-[400px]">
+          <Heatmap
+            xValues={result.xValues.map(v => v * x.scale)}
+            yValues={result.yValues.map(v => v * y.scale)}
+            values={result.results.map(row => row.map(r => r[settings.output]))}
+            xLabel={`${fieldLabels[result.primary.key]}${x.unit ? ` (${x.unit})` : ''}`}
+            yLabel={`${fieldLabels[secondary.key]}${y.unit ? ` (${y.unit})` : ''}`}
+            valueLabel={`${outputLabels[settings.output]} (${unit})`}
+            formatValue={v => v.toFixed(digits)}
+          />
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div>
+      <p className="text-xs text-gray-500 mb-3">{t.sweepHint}</p>
+
+      {axisFields('primary')}
+
+      <label className="flex items-center mb-3 text-xs font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={settings.useSecondary}
+          onChange={e => update({ useSecondary: e.target.checked })}
+          className="w-4 h-4 mr-2 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+        />
+        {t.sweepUseSecondary}
+      </label>
+
+      {settings.useSecondary && axisFields('secondary')}
+
+      <div className="flex items-center gap-3 mb-4">
+        <button
+          type="button"
+          onClick={handleRun}
+          className="px-3 py-1.5 rounded bg-blue-600 text-white text-xs font-medium hover:bg-blue-700"
+        >
+          {t.runAnalysis}
+        </button>
+        <span className="text-xs text-gray-400">
+          {settings.useSecondary ? settings.primary.steps * settings.secondary.steps : settings.primary.steps} {t.sweepRuns} (≤ {MAX_SWEEP_RUNS})
+        </span>
+      </div>
+
+      {error && <p className="mb-2 text-xs text-red-600">{error}</p>}
+      {stale && <p className="mb-2 text-xs text-amber-600">{t.staleResult}</p>}
+
+      {sweep && (sweep.secondary ? renderHeatmap(sweep, sweep.secondary) : renderFamily(sweep))}
+      {sweep && <p className="mt-2 text-xs text-gray-400">{t.sweepNote}</p>}
+    </div>
+  );
+};
+
+export default SweepPanel;
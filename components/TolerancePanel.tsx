@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import {
+  ComposedChart,
+  BarChart,
+  Bar,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import {
+  Language,
+  MotorParams,
+  SimulationResult,
+  ToleranceSettings,
+  ToleranceSpec,
+  ToleranceParameter,
+  ToleranceDistribution,
+  ToleranceResult,
+  ToleranceStatistic
+} from '../types';
+import { COLORS, TRANSLATIONS } from '../constants';
+import { runToleranceAnalysis, MAX_TOLERANCE_SAMPLES } from '../utils/tolerance';
+
+interface TolerancePanelProps {
+  params: MotorParams;
+  result: SimulationResult; // Nominal envelope
+  settings: ToleranceSettings;
+  onChange: (settings: ToleranceSettings) => void;
+  language: Language;
+}
+
+type NumericSetting = 'samples' | 'seed' | 'lowPercentile' | 'highPercentile';
+
+const TolerancePanel: React.FC<TolerancePanelProps> = ({ params, result, settings, onChange, language }) => {
+  const t = TRANSLATIONS[language];
+  // The last run and the inputs it was made with, to flag it as stale after edits
+  const [run, setRun] = useState<{ result: ToleranceResult; params: MotorParams; settings: ToleranceSettings } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const update = (changes: Partial<ToleranceSettings>) => onChange({ ...settings, ...changes });
+
+  const parameterLabels: Record<ToleranceParameter, string> = {
+    psif: t.fluxLinkage,
+    ld: t.dAxisInductance,
+    lq: t.qAxisInductance,
+    rs: t.statorResistance,
+    vdc: t.dcBusVoltage,
+    imax: t.maxCurrent
+  };
+
+  const updateSpec = (key: ToleranceParameter, changes: Partial<ToleranceSpec>) => {
+    update({ specs: settings.specs.map(spec => (spec.key === key ? { ...spec, ...changes } : spec)) });
+  };
+
+  const handleNumber = (key: NumericSetting, text: string) => {
+    const value = parseFloat(text);
+    if (!isFinite(value) || value < 0) return;
+    update({ [key]: key === 'samples' || key === 'seed' ? Math.round(value) : value });
+  };
+
+  const handleRun = () => {
+    try {
+      setRun({ result: runToleranceAnalysis(params, result, settings), params, settings });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const numberField = (key: NumericSetting, label: string, step: number) => (
+    <label className="block text-xs font-medium text-gray-700">
+      {label}
+      <input
+        type="number"
+        step={step}
+        defaultValue={settings[key]}
+        onChange={e => handleNumber(key, e.target.value)}
+        className="mt-1 block w-full rounded border border-gray-300 px-2 py-1 text-xs"
+      />
+    </label>
+  );
+
+  const analysis = run?.result ?? null;
+  const stale = run !== null && (run.params !== params || run.settings !== settings);
+  const bandLabel = `P${settings.lowPercentile}–P${settings.highPercentile}`;
+  const bandData = analysis?.band.map(pt => ({
+    ...pt,
+    torqueBand: [pt.torqueLow, pt.torqueHigh],
+    powerBand: [pt.powerLow, pt.powerHigh]
+  })) ?? [];
+
+  const histogram = (title: string, statistic: ToleranceStatistic, digits: number, unit: string) => (
+    <div>
+      <p className="text-xs font-semibold text-gray-500 uppercase mb-1">{title}</p>
+      <div className="h-40">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart
+            data={statistic.histogram.map(bin => ({ ...bin, center: (bin.from + bin.to) / 2 }))}
+            margin={{ top: 5, right: 10, left: 0, bottom: 5 }}
+            barCategoryGap={1}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke={COLORS.grid} />
+            <XAxis dataKey="center" tickFormatter={(value: number) => value.toFixed(digits)} fontSize={10} />
+            <YAxis width={30} allowDecimals={false} fontSize={10} />
+            <Tooltip
+              formatter={(value: number) => [value, t.count]}
+              labelFormatter={(center: number) => `${center.toFixed(digits)} ${unit}`}
+            />
+            <Bar dataKey="count" fill={COLORS.primary} isAnimationActive={false} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-xs text-gray-600 mt-1">
+        {t.nominal} {statistic.nominal.toFixed(digits)} · μ {statistic.mean.toFixed(digits)} · σ {statistic.std.toFixed(digits + 1)}
+        <br />
+        {bandLabel}: {statistic.low.toFixed(digits)} – {statistic.high.toFixed(digits)} {unit}
+      </p>
+    </div>
+  );
+
+  return (
+    <div>
+      <p className="text-xs text-gray-500 mb-3">{t.toleranceHint}</p>
+
+      <div className="overflow-x-auto mb-3">
+        <table className="min-w-full text-xs text-gray-700">
+          <thead>
+            <tr className="border-b text-gray-500">
+              <th className="text-left py-1 pr-4">{t.parameter}</th>
+              <th className="text-left py-1 pr-4">{t.distribution}</th>
+              <th className="text-left py-1">{t.tolerancePct}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {settings.specs.map(spec => (
+              <tr key={spec.key} className="border-b border-gray-100">
+                <td className="py-1 pr-4">
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={spec.enabled}
+                      onChange={e => updateSpec(spec.key, { enabled: e.target.checked })}
+                      className="w-4 h-4 mr-2 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    {parameterLabels[spec.key]}
+                  </label>
+                </td>
+                <td className="py-1 pr-4">
+                  <select
+                    value={spec.distribution}
+                    onChange={e => updateSpec(spec.key, { distribution: e.target.value as ToleranceDistribution })}
+                    className="rounded border border-gray-300 px-2 py-0.5 text-xs"
+                  >
+                    <option value="normal">{t.normalDistribution}</option>
+                    <option value="uniform">{t.uniformDistribution}</option>
+                  </select>
+                </td>
+                <td className="py-1">
+                  <input
+                    type="number"
+                    step={0.5}
+                    min={0}
+                    defaultValue={spec.tolerance}
+                    onChange={e => {
+                      const value = parseFloat(e.target.value);
+                      if (isFinite(value) && value >= 0) updateSpec(spec.key, { tolerance: value });
+                    }}
+                    className="w-20 rounded border border-gray-300 px-2 py-0.5 text-xs"
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4 items-end">
+        {numberField('samples', `${t.sampleCount} (≤ ${MAX_TOLERANCE_SAMPLES})`, 50)}
+        {numberField('seed', t.randomSeed, 1)}
+        {numberField('lowPercentile', t.lowPercentile, 1)}
+        {numberField('highPercentile', t.highPercentile, 1)}
+        <button
+          type="button"
+          onClick={handleRun}
+          className="px-3 py-1.5 rounded bg-blue-600 text-white text-xs font-medium hover:bg-blue-700"
+        >
+          {t.runAnalysis}
+        </button>
+      </div>
+
+      {error && <p className="mb-2 text-xs text-red-600">{error}</p>}
+      {stale && <p className="mb-2 text-xs text-amber-600">{t.staleResult}</p>}
+
+      {analysis && (
+        <>
+          <p className="text-xs font-semibold text-gray-500 uppercase mb-1">
+            {t.toleranceBand} ({bandLabel}, {analysis.samples} {t.samplesLower})
+          </p>
+          <div className="h-72 mb-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={bandData} margin={{ top: 10, right: 30, left: 20, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={COLORS.grid} />
+                <XAxis
+                  dataKey="speedRPM"
+                  type="number"
+                  domain={[0, 'dataMax']}
+                  label={{ value: t.speedRPM, position: 'insideBottomRight', offset: -10 }}
+                />
+                <YAxis yAxisId="left" label={{ value: t.torqueNm, angle: -90, position: 'insideLeft' }} />
+                <YAxis yAxisId="right" orientation="right" label={{ value: t.powerkW, angle: 90, position: 'insideRight' }} />
+                <Tooltip
+                  formatter={(value: number | number[]) =>
+                    Array.isArray(value) ? `${value[0].toFixed(3)} – ${value[1].toFixed(3)}` : value.toFixed(3)}
+                  labelFormatter={(speed: number) => `${speed} RPM`}
+                />
+                <Legend verticalAlign="top" height={30} />
+                <Area
+                  yAxisId="left"
+                  type="monotone"
+                  dataKey="torqueBand"
+                  name={`${t.torqueNm.split(' ')[0]} ${bandLabel}`}
+                  stroke="none"
+                  fill={COLORS.primary}
+                  fillOpacity={0.2}
+                  isAnimationActive={false}
+                />
+                <Area
+                  yAxisId="right"
+                  type="monotone"
+                  dataKey="powerBand"
+                  name={`${t.powerkW.split(' ')[0]} ${bandLabel}`}
+                  stroke="none"
+                  fill={COLORS.secondary}
+                  fillOpacity={0.2}
+                  isAnimationActive={false}
+                />
+                <Line
+                  yAxisId="left"
+                  type="monotone"
+                  dataKey="torqueNominal"
+                  name={`${t.torqueNm.split(' ')[0]} ${t.nominal}`}
+                  stroke={COLORS.primary}
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                <Line
+                  yAxisId="right"
+                  type="monotone"
+                  dataKey="powerNominal"
+                  name={`${t.powerkW.split(' ')[0]} ${t.nominal}`}
+                  stroke={COLORS.secondary}
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {histogram(t.maxTorque, analysis.maxTorque, 3, 'Nm')}
+            {histogram(t.baseSpeed, analysis.baseSpeed, 0, 'RPM')}
+            {histogram(t.peakPower, analysis.maxPower, 3, 'kW')}
+          </div>
+          <p className="mt-2 text-xs text-gray-400">{t.toleranceNote}</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TolerancePanel;
@@ -1,5 +1,5 @@
 
-import { MotorParams } from './types';
+import { MotorParams, ChartSettings, VehicleParams, LoadCurve, CurrentLoopSettings, BatterySettings, ToleranceSettings, SweepSettings, InverseDesignSettings } from './types';
 
 // Default values representing the user's specific motor configuration
 export const DEFAULT_PARAMS: MotorParams = {
@@ -12,9 +12,136 @@ export const DEFAULT_PARAMS: MotorParams = {
   psif: 0.00159,   // 0.00159 Wb
   p: 15,           // 15 pole pairs
   vdc: 18.5,       // 18.5V DC Bus
+  modulation: 'svpwm',
+  overmodulationIndex: 0.95,
   voltageUtilization: 0.9, // 0.9 Utilization
   imax: 13,        // 13A Peak
   maxSpeed: 5000,  // Adjusted for ~3800 RPM no-load speed
+  ironLossHyst: 500,    // kh (W / (Hz·Wb²))
+  ironLossEddy: 1.5,    // ke (W / (Hz²·Wb²))
+  enableMechanicalLoss: true,
+  frictionTorque: 0.002, // 2 mNm bearing drag
+  windageCoeff: 1e-9,   // W per (rad/s)³
+  enableSaturation: false,
+  fluxMap: null,
+  referenceTemp: 25,     // Parameters measured at room temperature
+  windingTemp: 25,
+  magnetTemp: 25,
+  copperTempCoeff: 0.393, // Copper: +0.393 %/K
+  magnetTempCoeff: -0.12, // NdFeB: -0.12 %/K
+  ambientTemp: 25,
+  thermalResWinding: 2,   // K/W, potted winding to stator
+  thermalResMagnet: 3,    // K/W, across the air gap
+  thermalResCooling: 8,   // K/W, natural convection of a small frame
+  thermalCapWinding: 40,  // J/K, ~100 g copper
+  thermalCapMagnet: 30,   // J/K
+  thermalCapHousing: 150, // J/K
+  maxWindingTemp: 130,    // Class B insulation
+  maxMagnetTemp: 120,     // H-grade NdFeB
+};
+
+export const DEFAULT_SWEEP_TEMPERATURES = [25, 80, 120];
+
+// S2 short-time ratings shown next to the continuous envelope (s)
+export const DEFAULT_PEAK_DURATIONS = [10, 60];
+
+export const DEFAULT_CHART_SETTINGS: ChartSettings = {
+  view: 'curve',
+  showFormulas: false,
+  compareSaturation: false,
+  showTemperatureSweep: false,
+  compareModulation: false,
+  sweepTemperatures: DEFAULT_SWEEP_TEMPERATURES.join(', '),
+  showThermalEnvelopes: false,
+  peakDurations: DEFAULT_PEAK_DURATIONS.join(', '),
+};
+
+// Sized for the default motor: a small direct-drive wheeled robot
+export const DEFAULT_VEHICLE: VehicleParams = {
+  mass: 4,
+  wheelRadius: 0.04,
+  gearRatio: 1,
+  gearEfficiency: 0.95,
+  roadLoadA: 2,
+  roadLoadB: 0.1,
+  roadLoadC: 0.01,
+};
+
+// Small fan on the default motor
+export const DEFAULT_LOAD_CURVE: LoadCurve = {
+  kind: 'quadratic',
+  torque: 0.3,
+  ratedSpeed: 3000,
+  coefficients: '0.02, 0, 0.03',
+  table: [],
+  tableName: '',
+  rotorInertia: 0.00004, // 0.4 kg·cm²
+  loadInertia: 0.00006,  // 0.6 kg·cm²
+  targetSpeed: 2500,
+  showOnChart: true,
+};
+
+const DEFAULT_LOOP_BANDWIDTH = 1000; // Hz
+
+// Gains tuned for the default motor: Kp = ωbw·L, Ki = ωbw·Rs
+export const DEFAULT_CURRENT_LOOP: CurrentLoopSettings = {
+  speedRPM: 2000,
+  initialTorque: 0,
+  finalTorque: 0.3,
+  stepTime: 0.0005,
+  duration: 0.004,
+  sampleRate: 20000,
+  bandwidth: DEFAULT_LOOP_BANDWIDTH,
+  kpD: 2 * Math.PI * DEFAULT_LOOP_BANDWIDTH * DEFAULT_PARAMS.ld,
+  kiD: 2 * Math.PI * DEFAULT_LOOP_BANDWIDTH * DEFAULT_PARAMS.rs,
+  kpQ: 2 * Math.PI * DEFAULT_LOOP_BANDWIDTH * DEFAULT_PARAMS.lq,
+  kiQ: 2 * Math.PI * DEFAULT_LOOP_BANDWIDTH * DEFAULT_PARAMS.rs,
+  decoupling: true,
+};
+
+// 5S Li-ion (NMC) pack: 18.5 V nominal, full, nominal and cut-off SOC plotted
+export const DEFAULT_BATTERY: BatterySettings = {
+  cellsInSeries: 5,
+  ocvCurve: '0:3.00, 5:3.30, 10:3.45, 20:3.56, 30:3.63, 40:3.68, 50:3.73, 60:3.79, 70:3.87, 80:3.95, 90:4.05, 100:4.18',
+  resistance: 0.15, // 5 × 25 mΩ cells plus leads
+  cutoffVoltage: 15,
+  socLevels: '100, 50, 0',
+};
+
+// Typical production spread: magnets ±5 %, inductance ±10 %, bus voltage ±5 %
+export const DEFAULT_TOLERANCE: ToleranceSettings = {
+  samples: 200,
+  seed: 1,
+  lowPercentile: 5,
+  highPercentile: 95,
+  specs: [
+    { key: 'psif', enabled: true, distribution: 'normal', tolerance: 5 },
+    { key: 'ld', enabled: true, distribution: 'normal', tolerance: 10 },
+    { key: 'lq', enabled: true, distribution: 'normal', tolerance: 10 },
+    { key: 'rs', enabled: true, distribution: 'normal', tolerance: 5 },
+    { key: 'vdc', enabled: true, distribution: 'uniform', tolerance: 5 },
+    { key: 'imax', enabled: false, distribution: 'uniform', tolerance: 2 },
+  ],
+};
+
+// 12 V to 48 V bus, and bus voltage against current limit for the heatmap
+export const DEFAULT_SWEEP: SweepSettings = {
+  primary: { key: 'vdc', from: 12, to: 48, steps: 7 },
+  secondary: { key: 'imax', from: 8, to: 16, steps: 9 },
+  useSecondary: false,
+  output: 'maxPower',
+};
+
+// Corner point and a top-speed power point for the inverse design
+export const DEFAULT_INVERSE_DESIGN: InverseDesignSettings = {
+  targets: [
+    // Reachable from DEFAULT_PARAMS without field weakening
+    { speedRPM: 2500, kind: 'torque', value: 0.45 },
+    { speedRPM: 4500, kind: 'power', value: 0.1 },
+  ],
+  minPolePairs: 10,
+  maxPolePairs: 16,
+  rewindRatio: 0.8,
 };
 
 export const COLORS = {
@@ -25,6 +152,18 @@ export const COLORS = {
   text: '#1e293b',      // Slate 800
 };
 
+// Distinct series colors for overlaid curves
+export const SERIES_PALETTE = [
+  '#2563eb', // Blue 600
+  '#dc2626', // Red 600
+  '#16a34a', // Green 600
+  '#9333ea', // Purple 600
+  '#ea580c', // Orange 600
+  '#0891b2', // Cyan 600
+  '#db2777', // Pink 600
+  '#65a30d', // Lime 600
+];
+
 export const TRANSLATIONS = {
   en: {
     appTitle: "PMSM Analyzer",
@@ -48,7 +187,7 @@ export const TRANSLATIONS = {
     autoCalc: "Auto",
     inverterConstraints: "Inverter Constraints",
     dcBusVoltage: "DC Supply Voltage (Vdc)",
-    voltageUtil: "SVPWM Utilization (Ratio)",
+    voltageUtil: "Voltage Utilization (Ratio)",
     maxCurrent: "Max Current (Peak)",
     noteInductance: "Note: Inductances should be in Henry. 1 mH = 0.001 H.",
     calcPerformance: "Calculated Performance",
@@ -65,11 +204,390 @@ export const TRANSLATIONS = {
     torqueFlux: "Torque & Flux",
     maxSpeedTheory: "Theoretical Max Speed",
     baseSpeedFormula: "Base Speed Formula",
-    modelNote: "Note: MTPA (Maximum Torque Per Ampere) strategy is used below base speed. Field Weakening (Flux Weakening) is applied when voltage limit is reached.",
+    modelNote: "Note: MTPA (Maximum Torque Per Ampere) strategy is used below base speed. Field Weakening (Flux Weakening) is applied when voltage limit is reached, and MTPV (Maximum Torque Per Volt) once the MTPV current fits inside the current limit.",
     mtpaAngle: "MTPA Angle (Low Speed)",
     maxFwAngle: "Max FW Angle",
     voltageUtilResult: "Voltage Utilization",
-    voltageExplain: "Base limit is Vdc/√3. Enter 0.9 for 90% of base."
+    voltageExplain: "Vmax = ceiling of the modulation scheme × utilization. Enter 0.9 for 90% of the ceiling.",
+    lossModel: "Loss Model",
+    ironLossHyst: "Hysteresis Coeff. (kh)",
+    ironLossEddy: "Eddy Coeff. (ke)",
+    enableMechLoss: "Include Friction & Windage",
+    frictionTorque: "Friction Torque",
+    windageCoeff: "Windage Coeff.",
+    lossExplain: "Iron loss Pfe = (kh·f + ke·f²)·ψ², f = electrical frequency (Hz).",
+    tnCurve: "T-N Curve",
+    efficiencyMap: "Efficiency Map",
+    efficiencyPct: "Efficiency (%)",
+    envelope: "Max Torque Envelope",
+    peakEfficiency: "Peak Efficiency",
+    efficiencyMapNote: "Each point uses the minimum-loss current vector within the current and voltage limits. Torque is electromagnetic torque.",
+    saturation: "Magnetic Saturation",
+    importFluxMap: "Import Flux Map (CSV)",
+    clearFluxMap: "Clear",
+    enableSaturation: "Use Flux Map (Saturation)",
+    fluxMapFormat: "Columns: id, iq, psid, psiq (Wb) or id, iq, ld, lq (H), one row per grid point.",
+    fluxMapKindFlux: "ψd/ψq table",
+    fluxMapKindInductance: "Ld/Lq table",
+    noFluxMap: "No flux map loaded",
+    fluxMapError: "Import failed",
+    compareSaturation: "Compare Constant vs Saturated",
+    constantParams: "Constant Params",
+    saturated: "Saturated",
+    temperature: "Temperature",
+    referenceTemp: "Reference Temp.",
+    windingTemp: "Winding Temp.",
+    magnetTemp: "Magnet Temp.",
+    copperTempCoeff: "Copper Coeff. (αCu)",
+    magnetTempCoeff: "Magnet Br Coeff. (αBr)",
+    temperatureExplain: "Rs and ψf are entered at the reference temperature and corrected to the operating temperatures.",
+    temperatureSweep: "Temperature Sweep",
+    sweepTemperatures: "Temperatures (°C)",
+    dropVsCold: "Drop vs. coldest",
+    operatingRegion: "Region",
+    regionConstantTorque: "Constant Torque",
+    regionFluxWeakening: "Field Weakening (FW-I)",
+    regionMtpv: "MTPV",
+    regionVoltageLimited: "Voltage Limited (no FW)",
+    mtpvStart: "MTPV Start",
+    mtpaFormula: "MTPA / MTPV (closed form)",
+    fourQuadrant: "Four-Quadrant",
+    motoring: "Motoring",
+    generating: "Generating",
+    reverse: "Reverse",
+    maxBrakingTorque: "Max Braking Torque",
+    peakRegenPower: "Peak Regen Power",
+    fourQuadrantNote: "Reverse-speed quadrants mirror the forward curves. The resistive drop opposes the back-EMF when generating, so braking torque extends to higher speed.",
+    designs: "Designs",
+    design: "Design",
+    duplicateDesign: "Duplicate Current",
+    removeDesign: "Remove",
+    baseline: "Baseline",
+    editing: "Editing",
+    showOnChart: "Show",
+    designName: "Name",
+    designComparison: "Design Comparison",
+    deltaVsBaseline: "Deltas are relative to the baseline design",
+    edit: "Edit",
+    projectName: "Untitled project",
+    newProject: "New",
+    openProject: "Open",
+    saveProject: "Save",
+    importDesigns: "Import",
+    importDesignsHint: "Add the designs of another project file to this workspace",
+    confirmNewProject: "Discard the current project and start from the default parameters?",
+    projectError: "Could not open project",
+    projectNotes: "Project Notes",
+    notesPlaceholder: "Design intent, test conditions, open questions...",
+    autosaved: "Autosaved locally",
+    exportLabel: "Export",
+    exportFailed: "Export failed",
+    measuredData: "Measured Data",
+    measuredDataHint: "Import a dynamometer CSV (speed, torque and optionally current, voltage, power) to compare the prototype with the prediction.",
+    importDynoCsv: "Import Dyno CSV",
+    clear: "Clear",
+    measuredCurrent: "Phase Current (A rms)",
+    measuredVoltage: "Line Voltage (V rms)",
+    measured: "Measured",
+    predicted: "Predicted",
+    error: "Error",
+    measurementNote: "Errors are measured minus predicted; percentages are relative to the prediction at the same speed. Predictions are taken on the max-torque envelope.",
+    mapColumns: "Map Columns",
+    columnMappingHint: "Choose which CSV column holds each quantity. Fields marked * are required.",
+    notMapped: "(not used)",
+    rowsFound: "Data rows",
+    cancel: "Cancel",
+    confirm: "OK",
+    emptyCsv: "The file contains no data rows",
+    analysisTools: "Analysis Tools",
+    points: "points",
+    parameterFit: "Parameter Fit",
+    parameterFitHint: "Least-squares fit of the dq model to the measured data. Uses id/iq when mapped, otherwise the phase current with the strategy's current angle.",
+    parameterFitNoData: "Import measured data in the Measured Data tab first.",
+    runFit: "Run Fit",
+    fitPointsUsable: "points with current",
+    fitNoVoltage: "no voltage column: Rs and Lq are weakly identifiable",
+    parameter: "Parameter",
+    initialValue: "Initial",
+    fittedValue: "Fitted",
+    confidence95: "95% Confidence",
+    notIdentifiable: "not identifiable",
+    rmsResidual: "RMS residual",
+    iterations: "iterations",
+    notConverged: "not converged",
+    applyFit: "Apply to Parameters",
+    torqueResidual: "Torque Residual",
+    voltageResidual: "Voltage Residual (line, rms)",
+    residual: "Residual",
+    measuredId: "d-axis Current id (A peak)",
+    measuredIq: "q-axis Current iq (A peak)",
+    parameterFitNote: "Fitted at operating temperature with the linear model; Rs and ψf are referred back to the reference temperature when applied.",
+    driveCycle: "Drive Cycle",
+    driveCycleHint: "Import a time series of motor speed and shaft torque, or a vehicle speed profile converted with the vehicle data below.",
+    cycleSource: "Import as",
+    motorCycle: "Motor speed & torque",
+    vehicleCycle: "Vehicle speed profile",
+    importCycleCsv: "Import Cycle CSV",
+    vehicleMass: "Mass (kg)",
+    wheelRadius: "Wheel Radius (m)",
+    gearRatio: "Gear Ratio",
+    gearEfficiency: "Drivetrain Efficiency",
+    roadLoadA: "Road Load A (N)",
+    roadLoadB: "Road Load B (N/(m/s))",
+    roadLoadC: "Road Load C (N/(m/s)²)",
+    timeS: "Time (s)",
+    vehicleSpeed: "Vehicle Speed (km/h)",
+    gradePct: "Grade (%)",
+    cyclePassed: "Within envelope",
+    cycleFailed: "samples outside envelope",
+    duration: "Duration",
+    netEnergy: "Net Energy",
+    motoringEnergy: "Drawn",
+    regenEnergy: "Regenerated",
+    lossEnergy: "Motor Losses",
+    averageEfficiency: "Avg. Efficiency",
+    regenEfficiency: "Regen Efficiency",
+    cycleTimeline: "Timeline",
+    cyclePoints: "Cycle Points on T-N Curve",
+    limitTorque: "Envelope Torque",
+    pass: "Pass",
+    fail: "Fail",
+    driveCycleNote: "Torque is shaft torque; friction and windage are added before the envelope check. Energy is the electrical input of the motor (inverter losses excluded), integrated with the trapezoidal rule over samples inside the envelope.",
+    loadCurve: "Load & Run-up",
+    loadCurveHint: "Define the load torque and the rotor and load inertia to find the steady-state point and the run-up time from standstill.",
+    loadKind: "Load Type",
+    loadConstant: "Constant torque",
+    loadQuadratic: "Quadratic (fan/pump)",
+    loadPolynomial: "Polynomial",
+    loadTable: "Table",
+    loadTorque: "Load Torque (Nm)",
+    loadRatedTorque: "Torque at Rated Speed (Nm)",
+    loadRatedSpeed: "Rated Speed (RPM)",
+    loadCoefficients: "Coefficients c0, c1, c2, …",
+    loadPolynomialHint: "T = c0 + c1·n + c2·n² + … with n in krpm",
+    importLoadTable: "Import Load CSV",
+    rotorInertia: "Rotor Inertia (kg·m²)",
+    loadInertia: "Load Inertia (kg·m²)",
+    targetSpeed: "Target Speed (RPM)",
+    showLoadOnChart: "Show on T-N chart",
+    load: "Load",
+    steadyStatePoint: "Steady-State Point",
+    noSteadyState: "Motor torque stays above the load up to the maximum speed",
+    loadStalled: "The load exceeds the available torque at standstill: the motor cannot start",
+    timeToTarget: "Time to Target",
+    targetNotReached: "not reached",
+    runUpCurve: "Run-up from Standstill",
+    loadCurveNote: "Available shaft torque is the envelope torque minus friction and windage. The run-up curve ends at 99% of the steady-state speed, which is only reached asymptotically.",
+    currentLoop: "Current Loop",
+    currentLoopHint: "Step response of the dq PI current regulators at constant speed, integrating the dq voltage equations of the motor.",
+    initialTorque: "Initial Torque (Nm)",
+    finalTorque: "Step Torque (Nm)",
+    stepTimeMs: "Step Time (ms)",
+    durationMs: "Duration (ms)",
+    sampleRateKhz: "Sample Rate (kHz)",
+    bandwidthHz: "Bandwidth (Hz)",
+    autoTune: "Auto-tune",
+    autoTuneHint: "Kp = ωbw·L, Ki = ωbw·Rs (pole-zero cancellation)",
+    kpD: "Kp d (V/A)",
+    kiD: "Ki d (V/(A·s))",
+    kpQ: "Kp q (V/A)",
+    kiQ: "Ki q (V/(A·s))",
+    decoupling: "Decoupling feed-forward",
+    timeMs: "Time (ms)",
+    currentsA: "Currents (A)",
+    voltagesV: "Voltages (V)",
+    reference: "ref",
+    voltageLimit: "Voltage limit",
+    riseTime: "Rise Time (10–90%)",
+    overshoot: "Overshoot",
+    settlingTime: "Settling Time (2%)",
+    notSettled: "not settled",
+    axis: "Axis",
+    currentLoopNote: "References follow the control strategy (MTPA or Id=0) without flux weakening. The voltage command is clipped to the voltage limit of the modulation scheme with integrator clamping and applied one sample later.",
+    modulationScheme: "Modulation Scheme",
+    modSpwm: "Sinusoidal PWM (Vdc/2)",
+    modSvpwm: "SVPWM (Vdc/√3)",
+    modDpwm: "Discontinuous PWM (Vdc/√3)",
+    modOvermodulation: "Overmodulation (M·2Vdc/π)",
+    modSixStep: "Six-step (2Vdc/π)",
+    overmodulationIndex: "Overmodulation Index M",
+    compareModulation: "Compare modulation",
+    voltageCeiling: "Vmax (peak)",
+    torqueAt: "Torque @",
+    deltaVsSelected: "Δ vs selected",
+    selected: "selected",
+    modulationNote: "Same utilization, current limit and speed range for every scheme. DPWM has the same linear range as SVPWM (lower switching loss). M = V1 / (2·Vdc/π): 0.907 ends the linear range, 1 is six-step.",
+    battery: "Battery",
+    batteryHint: "Motoring envelope fed from a battery modelled as open-circuit voltage versus SOC behind an internal resistance. At each speed the bus voltage is solved so that the pack can hold it while supplying the drawn power.",
+    cellsInSeries: "Cells in Series",
+    packResistance: "Pack Resistance (Ω)",
+    cutoffVoltage: "Cut-off Voltage (V)",
+    socLevels: "SOC Levels (%)",
+    ocvCurve: "Cell OCV Curve",
+    ocvCurveHint: "SOC:volts pairs per cell, e.g. 0:3.0, 50:3.73, 100:4.18",
+    soc: "SOC",
+    openCircuitVoltage: "Pack OCV",
+    minBusVoltage: "Min Bus Voltage",
+    maxDcCurrent: "Max DC Current",
+    maxBatteryPower: "Max Battery Power",
+    idealBus: "Ideal bus",
+    busVoltageV: "Bus Voltage (V)",
+    dcCurrentA: "DC Current (A)",
+    batteryPowerW: "Battery Power (W)",
+    undervoltageWarning: "The bus sags below the cut-off voltage on part of the envelope; a BMS would trip there.",
+    batteryNote: "Battery power is measured at the pack terminals: shaft power plus friction, copper and iron losses (inverter losses neglected). Bus sag = DC current × pack resistance.",
+    thermalModel: "Thermal Model",
+    ambientTemp: "Ambient / Coolant",
+    thermalResCooling: "R Housing→Ambient",
+    thermalResWinding: "R Winding→Housing",
+    thermalResMagnet: "R Magnet→Housing",
+    thermalCapWinding: "C Winding",
+    thermalCapMagnet: "C Rotor/Magnet",
+    thermalCapHousing: "C Stator/Housing",
+    maxWindingTemp: "Max Winding Temp",
+    maxMagnetTemp: "Max Magnet Temp",
+    thermalExplain: "Three-node network: copper loss heats the winding, friction & windage the rotor, iron loss the stator/housing, which is cooled to ambient. Cooling sets R housing→ambient.",
+    thermalEnvelopes: "S1 / S2 Ratings",
+    peakDurations: "S2 durations (s), comma separated",
+    continuousDuty: "S1 continuous",
+    shortTimeDuty: "S2",
+    dutyType: "Duty",
+    ratioToPeak: "vs Peak",
+    limitedBy: "Limited by",
+    limitWinding: "winding temperature",
+    limitMagnet: "magnet temperature",
+    limitPeak: "current / voltage limit",
+    thermalNote: "S1: steady state at the temperature limits. S2: from ambient, limits reached at the end of the duration. Loss-optimal operating points; Rs and ψf follow the node temperatures.",
+    inputMode: "Parameter Entry",
+    phaseValues: "Phase (dq)",
+    datasheetValues: "Datasheet",
+    keConvention: "Ke quoted as",
+    currentConvention: "Current",
+    impedanceConvention: "R / L",
+    lineRms: "Line-line rms",
+    linePeak: "Line-line peak",
+    phaseRms: "Phase rms",
+    phasePeak: "Phase peak",
+    rms: "RMS",
+    peak: "Peak",
+    lineToLine: "Line-to-line",
+    phaseStar: "Phase (star)",
+    backEmfConstant: "Back-EMF Constant Ke",
+    torqueConstant: "Torque Constant Kt",
+    datasheetResistance: "Resistance",
+    datasheetInductance: "Inductance",
+    datasheetMaxCurrent: "Max Current",
+    inductanceMin: "Inductance (min, d axis)",
+    inductanceMax: "Inductance (max, q axis)",
+    derivedValues: "Derived phase values",
+    datasheetExplain: "Ke = ψf·ωe(1 krpm)·√3/√2 for line-line rms (√3 line peak, 1/√2 phase rms); Kt = 1.5·p·ψf·√2 for rms current. Line-to-line R and L are twice the star-equivalent phase values; for IPMSM the min/max over rotor position give Ld and Lq. Ke and Kt both set ψf (last entry wins), so set the pole pairs first.",
+    tolerance: "Tolerances",
+    toleranceHint: "Monte Carlo analysis: each sample draws the enabled parameters from their distributions around the nominal value and computes a full T-N envelope.",
+    distribution: "Distribution",
+    tolerancePct: "Tolerance (± %)",
+    normalDistribution: "Normal (±3σ)",
+    uniformDistribution: "Uniform",
+    sampleCount: "Samples",
+    samplesLower: "samples",
+    randomSeed: "Random Seed",
+    lowPercentile: "Lower Percentile (%)",
+    highPercentile: "Upper Percentile (%)",
+    runAnalysis: "Run",
+    staleResult: "Parameters or settings changed since this run; run again to update.",
+    toleranceBand: "Percentile band",
+    nominal: "Nominal",
+    count: "Count",
+    toleranceNote: "Percentiles are taken per speed, so the band edges are not single motors. For SPMSM Lq follows the sampled Ld. Base speed is resolved to the simulation speed step.",
+    sweep: "Sweep",
+    sweepHint: "Vary one or two parameters over a range. One field draws the family of T-N curves, two fields map the peak torque, base speed or peak power over both.",
+    sweepPrimary: "Field",
+    sweepSecondary: "Second field",
+    sweepUseSecondary: "Sweep a second field (heatmap)",
+    sweepFrom: "From",
+    sweepTo: "To",
+    sweepSteps: "Steps",
+    sweepRuns: "runs",
+    sweepFamily: "T-N curve family",
+    sweepOutput: "Output",
+    sweepNote: "All other parameters stay at their present values. For SPMSM, Ld and Lq are swept together.",
+    inverseDesign: "Inverse Design",
+    inverseDesignHint: "Enter the torque or power the motor must reach at given speeds. The search varies pole pairs, ψf and Ld/Lq per turn and the number of turns, at the present Vdc and Imax, for the design closest to the present one that just meets every target.",
+    designTargets: "Targets",
+    targetKind: "Quantity",
+    targetValue: "Value",
+    remove: "Remove",
+    addTarget: "Add target",
+    minPolePairs: "Min pole pairs",
+    maxPolePairs: "Max pole pairs",
+    targetsMet: "All targets are met.",
+    targetsNotMet: "No design in the search range meets every target; the closest one is shown.",
+    presentDesign: "Present",
+    foundDesign: "Found",
+    requiredTorque: "Required (Nm)",
+    availableTorque: "Available (Nm)",
+    margin: "Margin",
+    turnsRatio: "Turns ratio (new/present)",
+    fluxPerTurn: "ψf per turn",
+    inductancePerTurn: "L per turn²",
+    applyDesign: "Apply to Parameters",
+    evaluations: "evaluations",
+    inverseDesignNote: "The current limit is the lower of the inverter's Imax and the present ampere-turns over the turns, so more turns lower Imax. The search uses constant Ld and Lq, so the found design has saturation switched off. Check that the found magnet flux and inductance per turn are buildable.",
+    rewind: "Rewind",
+    rewindHint: "Rewind the present motor with a different number of turns, keeping magnets, core and slot fill: Rs ∝ N², L ∝ N², ψf ∝ N and Imax ∝ 1/N.",
+    rewound: "Rewound",
+    applyRewind: "Apply rewind",
+    rewindNote: "The current limit scales with the same ampere-turns; check that the inverter can supply the rewound Imax. A loaded flux map is rescaled too.",
+    currentPlane: "id–iq Plane",
+    region: "Region",
+    play: "Play",
+    pause: "Pause",
+    currentLimit: "Current limit",
+    voltageLimitCurve: "Voltage limit",
+    mtpaTrajectory: "MTPA",
+    constantTorqueCurves: "Constant torque",
+    operatingTrajectory: "Operating point",
+    currentPlaneNote: "Curves are drawn at the operating temperatures with Rs and a loaded flux map, as used by the solver. Inside the shaded area the voltage limit is met at the selected speed; the engine picks the highest-torque point that is also inside the current circle.",
+    changeHistory: "Change History",
+    undo: "Undo",
+    redo: "Redo",
+    jumpToState: "Go back to this state",
+    initialState: "Start",
+    pinState: "Pin",
+    pinStateHint: "Add this state as a design, shown as a comparison curve",
+    olderEntriesHidden: "Older changes are not listed but can still be undone.",
+    fluxMapHistory: "Flux map",
+    diagnostics: "Diagnostics",
+    diagnosticsErrorNote: "Results are not meaningful until the errors are fixed",
+    severityError: "Error",
+    severityWarning: "Warning",
+    severityInfo: "Info",
+    diagNegativeValue: "Must not be negative.",
+    diagNonPositiveValue: "Must be greater than zero.",
+    diagPolePairsNotInteger: "Pole pairs must be a whole number of at least 1.",
+    diagUtilizationAboveOne: "Utilization above 100% assumes more voltage than the modulation can deliver.",
+    diagOvermodulationRange: "Overmodulation index should lie between the SVPWM limit (0.907) and six-step (1.0).",
+    diagInverseSaliency: "Lq is below Ld, so reluctance torque opposes MTPA with negative id; check the axes are not swapped.",
+    diagNoSaliency: "Lq equals Ld, so this IPMSM behaves like a surface-mount motor.",
+    diagSpmsmSaliency: "A surface-mount motor should have Lq = Ld; the stored Lq differs from Ls.",
+    diagZeroFluxSpmsm: "Without magnet flux and saliency the motor produces no torque.",
+    diagZeroFluxIpmsm: "Without magnet flux only reluctance torque is produced (synchronous reluctance motor).",
+    diagWindingOverLimit: "Winding temperature is above its allowed limit.",
+    diagMagnetOverLimit: "Magnet temperature is above its demagnetization limit.",
+    diagCopperCoeffSign: "Copper resistance rises with temperature; the coefficient is normally positive (about +0.39 %/K).",
+    diagMagnetCoeffSign: "Magnet flux falls with temperature; the coefficient is normally negative (NdFeB about -0.12 %/K).",
+    diagSaturationWithoutMap: "Saturation is enabled but no flux map is loaded; the linear model is used.",
+    diagVoltageAtStandstill: "The resistive drop at rated current already exceeds the available voltage at zero speed.",
+    diagFieldWeakeningFailed: "Field weakening found no current within the limits from this speed on; the curve ends early.",
+    diagNoTorque: "The design produces no positive torque.",
+    designReport: "Design Report",
+    designReportHint: "Design report with parameters, chart, results, formulas and warnings (PDF via the print dialog)",
+    reportProject: "Project",
+    reportGenerated: "Generated",
+    reportNoWarnings: "No warnings for this design.",
+    reportValue: "Value",
+    reportUnit: "Unit",
+    popupBlocked: "The report window was blocked; allow pop-ups for this page",
+    inverseDesignNoFw: "Field weakening is off: above base speed only the back-EMF headroom is available, so high-speed targets may be out of reach. Enable field weakening in the parameters to widen the speed range."
   },
   zh: {
     appTitle: "PMSM 电机分析仪",
@@ -93,7 +611,7 @@ export const TRANSLATIONS = {
     autoCalc: "自动计算",
     inverterConstraints: "逆变器限制",
     dcBusVoltage: "直流母线供电电压 (Vdc)",
-    voltageUtil: "SVPWM 电压利用率",
+    voltageUtil: "电压利用率",
     maxCurrent: "最大电流 (峰值)",
     noteInductance: "注意：电感单位为亨利 (Henry)。1 mH = 0.001 H。",
     calcPerformance: "性能计算结果",
@@ -110,10 +628,389 @@ export const TRANSLATIONS = {
     torqueFlux: "转矩与磁链",
     maxSpeedTheory: "理论最大转速",
     baseSpeedFormula: "基速计算公式",
-    modelNote: "说明：基速以下采用 MTPA (最大转矩电流比) 控制策略。达到电压极限后采用弱磁控制。",
+    modelNote: "说明：基速以下采用 MTPA (最大转矩电流比) 控制策略。达到电压极限后采用弱磁控制；当 MTPV 电流落入电流极限圆内时采用 MTPV (最大转矩电压比) 控制。",
     mtpaAngle: "MTPA 角度 (低速)",
     maxFwAngle: "最大弱磁角度",
     voltageUtilResult: "电压利用率",
-    voltageExplain: "基准为 Vdc/√3。若利用率为0.9，直接输入0.9即可。"
+    voltageExplain: "Vmax = 调制方式的电压上限 × 利用率。若利用率为0.9，直接输入0.9即可。",
+    lossModel: "损耗模型",
+    ironLossHyst: "磁滞损耗系数 (kh)",
+    ironLossEddy: "涡流损耗系数 (ke)",
+    enableMechLoss: "计入摩擦与风摩损耗",
+    frictionTorque: "摩擦转矩",
+    windageCoeff: "风摩系数",
+    lossExplain: "铁耗 Pfe = (kh·f + ke·f²)·ψ²，f 为电频率 (Hz)。",
+    tnCurve: "T-N 曲线",
+    efficiencyMap: "效率 Map 图",
+    efficiencyPct: "效率 (%)",
+    envelope: "最大转矩包络线",
+    peakEfficiency: "最高效率",
+    efficiencyMapNote: "每个工作点均在电流与电压限制内采用损耗最小的电流矢量。转矩为电磁转矩。",
+    saturation: "磁饱和",
+    importFluxMap: "导入磁链表 (CSV)",
+    clearFluxMap: "清除",
+    enableSaturation: "使用磁链表 (考虑饱和)",
+    fluxMapFormat: "列：id, iq, psid, psiq (Wb) 或 id, iq, ld, lq (H)，每行一个网格点。",
+    fluxMapKindFlux: "ψd/ψq 磁链表",
+    fluxMapKindInductance: "Ld/Lq 电感表",
+    noFluxMap: "未加载磁链表",
+    fluxMapError: "导入失败",
+    compareSaturation: "对比恒定参数与饱和模型",
+    constantParams: "恒定参数",
+    saturated: "饱和模型",
+    temperature: "温度",
+    referenceTemp: "参考温度",
+    windingTemp: "绕组温度",
+    magnetTemp: "磁钢温度",
+    copperTempCoeff: "铜电阻温度系数 (αCu)",
+    magnetTempCoeff: "磁钢 Br 温度系数 (αBr)",
+    temperatureExplain: "Rs 与 ψf 按参考温度输入，并修正到工作温度。",
+    temperatureSweep: "温度对比",
+    sweepTemperatures: "温度 (°C)",
+    dropVsCold: "相对最低温度下降",
+    operatingRegion: "工作区",
+    regionConstantTorque: "恒转矩区",
+    regionFluxWeakening: "弱磁区 (FW-I)",
+    regionMtpv: "MTPV 区",
+    regionVoltageLimited: "电压受限区 (无弱磁)",
+    mtpvStart: "MTPV 起点",
+    mtpaFormula: "MTPA / MTPV (解析解)",
+    fourQuadrant: "四象限",
+    motoring: "电动",
+    generating: "发电",
+    reverse: "反转",
+    maxBrakingTorque: "最大制动转矩",
+    peakRegenPower: "峰值回馈功率",
+    fourQuadrantNote: "反转象限为正转曲线的中心对称。发电时电阻压降与反电势方向相反，因此制动转矩可延伸至更高转速。",
+    designs: "设计方案",
+    design: "方案",
+    duplicateDesign: "复制当前方案",
+    removeDesign: "删除",
+    baseline: "基准",
+    editing: "编辑中",
+    showOnChart: "显示",
+    designName: "名称",
+    designComparison: "方案对比",
+    deltaVsBaseline: "变化量相对于基准方案",
+    edit: "编辑",
+    projectName: "未命名项目",
+    newProject: "新建",
+    openProject: "打开",
+    saveProject: "保存",
+    importDesigns: "导入",
+    importDesignsHint: "将其他项目文件中的方案添加到当前工作区",
+    confirmNewProject: "放弃当前项目并从默认参数重新开始？",
+    projectError: "无法打开项目",
+    projectNotes: "项目备注",
+    notesPlaceholder: "设计意图、测试条件、待解决问题……",
+    autosaved: "已自动保存到本地",
+    exportLabel: "导出",
+    exportFailed: "导出失败",
+    measuredData: "实测数据",
+    measuredDataHint: "导入测功机 CSV（转速、转矩，可选电流、电压、功率），将样机实测与理论预测对比。",
+    importDynoCsv: "导入测功机 CSV",
+    clear: "清除",
+    measuredCurrent: "相电流 (A 有效值)",
+    measuredVoltage: "线电压 (V 有效值)",
+    measured: "实测",
+    predicted: "预测",
+    error: "误差",
+    measurementNote: "误差 = 实测值 − 预测值，百分比相对于同转速下的预测值。预测值取自最大转矩包络线。",
+    mapColumns: "列映射",
+    columnMappingHint: "为每个物理量选择对应的 CSV 列，带 * 的为必填项。",
+    notMapped: "(不使用)",
+    rowsFound: "数据行数",
+    cancel: "取消",
+    confirm: "确定",
+    emptyCsv: "文件中没有数据行",
+    analysisTools: "分析工具",
+    points: "个点",
+    parameterFit: "参数辨识",
+    parameterFitHint: "以最小二乘法将 dq 模型拟合到实测数据。若映射了 id/iq 则直接使用，否则按控制策略的电流角由相电流推算。",
+    parameterFitNoData: "请先在“实测数据”页导入测量数据。",
+    runFit: "开始拟合",
+    fitPointsUsable: "个含电流的数据点",
+    fitNoVoltage: "无电压列：Rs 与 Lq 难以辨识",
+    parameter: "参数",
+    initialValue: "初始值",
+    fittedValue: "拟合值",
+    confidence95: "95% 置信区间",
+    notIdentifiable: "不可辨识",
+    rmsResidual: "残差均方根",
+    iterations: "次迭代",
+    notConverged: "未收敛",
+    applyFit: "应用到参数",
+    torqueResidual: "转矩残差",
+    voltageResidual: "电压残差 (线电压有效值)",
+    residual: "残差",
+    measuredId: "d 轴电流 id (A 峰值)",
+    measuredIq: "q 轴电流 iq (A 峰值)",
+    parameterFitNote: "在工作温度下以线性模型拟合；应用时 Rs 与 ψf 将折算回参考温度。",
+    driveCycle: "工况循环",
+    driveCycleHint: "导入电机转速/轴端转矩时间序列，或导入车速曲线并按下方整车参数换算。",
+    cycleSource: "导入类型",
+    motorCycle: "电机转速与转矩",
+    vehicleCycle: "车速曲线",
+    importCycleCsv: "导入工况 CSV",
+    vehicleMass: "整备质量 (kg)",
+    wheelRadius: "车轮半径 (m)",
+    gearRatio: "减速比",
+    gearEfficiency: "传动效率",
+    roadLoadA: "道路阻力 A (N)",
+    roadLoadB: "道路阻力 B (N/(m/s))",
+    roadLoadC: "道路阻力 C (N/(m/s)²)",
+    timeS: "时间 (s)",
+    vehicleSpeed: "车速 (km/h)",
+    gradePct: "坡度 (%)",
+    cyclePassed: "全部在包络内",
+    cycleFailed: "个采样点超出包络",
+    duration: "时长",
+    netEnergy: "净能耗",
+    motoringEnergy: "驱动耗电",
+    regenEnergy: "回馈电能",
+    lossEnergy: "电机损耗",
+    averageEfficiency: "平均效率",
+    regenEfficiency: "回馈效率",
+    cycleTimeline: "时间历程",
+    cyclePoints: "工况点与 T-N 曲线",
+    limitTorque: "包络转矩",
+    pass: "通过",
+    fail: "超限",
+    driveCycleNote: "转矩为轴端转矩，校核包络前计入摩擦与风摩损耗。能耗为电机电输入（不含逆变器损耗），仅对包络内的采样点按梯形法积分。",
+    loadCurve: "负载与起动",
+    loadCurveHint: "定义负载转矩与转子、负载转动惯量，求稳态工作点及从静止起动的加速时间。",
+    loadKind: "负载类型",
+    loadConstant: "恒转矩",
+    loadQuadratic: "平方律（风机/泵）",
+    loadPolynomial: "多项式",
+    loadTable: "数据表",
+    loadTorque: "负载转矩 (Nm)",
+    loadRatedTorque: "额定转速下转矩 (Nm)",
+    loadRatedSpeed: "额定转速 (RPM)",
+    loadCoefficients: "系数 c0, c1, c2, …",
+    loadPolynomialHint: "T = c0 + c1·n + c2·n² + …，n 单位为 krpm",
+    importLoadTable: "导入负载 CSV",
+    rotorInertia: "转子惯量 (kg·m²)",
+    loadInertia: "负载惯量 (kg·m²)",
+    targetSpeed: "目标转速 (RPM)",
+    showLoadOnChart: "在 T-N 图上显示",
+    load: "负载",
+    steadyStatePoint: "稳态工作点",
+    noSteadyState: "在最高转速内电机转矩始终大于负载",
+    loadStalled: "负载超过静止时可用转矩：电机无法起动",
+    timeToTarget: "到达目标转速时间",
+    targetNotReached: "无法到达",
+    runUpCurve: "静止起动加速曲线",
+    loadCurveNote: "可用轴端转矩为包络转矩减去摩擦与风摩转矩。稳态转速只能渐近到达，加速曲线截止于稳态转速的 99%。",
+    currentLoop: "电流环",
+    currentLoopHint: "在恒定转速下积分电机 dq 电压方程，仿真 dq 轴 PI 电流调节器的阶跃响应。",
+    initialTorque: "初始转矩 (Nm)",
+    finalTorque: "阶跃转矩 (Nm)",
+    stepTimeMs: "阶跃时刻 (ms)",
+    durationMs: "仿真时长 (ms)",
+    sampleRateKhz: "控制频率 (kHz)",
+    bandwidthHz: "带宽 (Hz)",
+    autoTune: "自动整定",
+    autoTuneHint: "Kp = ωbw·L，Ki = ωbw·Rs（零极点对消）",
+    kpD: "Kp d (V/A)",
+    kiD: "Ki d (V/(A·s))",
+    kpQ: "Kp q (V/A)",
+    kiQ: "Ki q (V/(A·s))",
+    decoupling: "解耦前馈",
+    timeMs: "时间 (ms)",
+    currentsA: "电流 (A)",
+    voltagesV: "电压 (V)",
+    reference: "给定",
+    voltageLimit: "电压极限",
+    riseTime: "上升时间 (10–90%)",
+    overshoot: "超调量",
+    settlingTime: "调节时间 (2%)",
+    notSettled: "未稳定",
+    axis: "轴",
+    currentLoopNote: "电流给定按控制策略（MTPA 或 Id=0）计算，不含弱磁。电压指令限幅于调制方式的电压极限（限幅时积分冻结），并延迟一个采样周期输出。",
+    modulationScheme: "调制方式",
+    modSpwm: "正弦 PWM (Vdc/2)",
+    modSvpwm: "SVPWM (Vdc/√3)",
+    modDpwm: "不连续 PWM (Vdc/√3)",
+    modOvermodulation: "过调制 (M·2Vdc/π)",
+    modSixStep: "六步方波 (2Vdc/π)",
+    overmodulationIndex: "过调制指数 M",
+    compareModulation: "对比调制方式",
+    voltageCeiling: "Vmax (峰值)",
+    torqueAt: "转矩 @",
+    deltaVsSelected: "相对当前",
+    selected: "当前",
+    modulationNote: "各调制方式采用相同利用率、电流极限与转速范围。DPWM 线性区与 SVPWM 相同（开关损耗更低）。M = V1 / (2·Vdc/π)：0.907 为线性区终点，1 为六步方波。",
+    battery: "电池",
+    batteryHint: "以开路电压-SOC 曲线串联内阻等效电池，计算电池供电下的电动外特性。每个转速点自洽求解母线电压，使电池在输出所需功率时仍能维持该电压。",
+    cellsInSeries: "串联节数",
+    packResistance: "电池组内阻 (Ω)",
+    cutoffVoltage: "截止电压 (V)",
+    socLevels: "SOC 水平 (%)",
+    ocvCurve: "单体开路电压曲线",
+    ocvCurveHint: "每节电芯的 SOC:电压 对，例如 0:3.0, 50:3.73, 100:4.18",
+    soc: "SOC",
+    openCircuitVoltage: "电池组开路电压",
+    minBusVoltage: "最低母线电压",
+    maxDcCurrent: "最大直流电流",
+    maxBatteryPower: "最大电池功率",
+    idealBus: "理想母线",
+    busVoltageV: "母线电压 (V)",
+    dcCurrentA: "直流电流 (A)",
+    batteryPowerW: "电池功率 (W)",
+    undervoltageWarning: "部分工况下母线电压跌落至截止电压以下，电池管理系统将在此处切断。",
+    batteryNote: "电池功率按电池组端口计算：轴功率加摩擦、铜耗与铁耗（忽略逆变器损耗）。母线压降 = 直流电流 × 电池内阻。",
+    thermalModel: "热模型",
+    ambientTemp: "环境 / 冷却介质温度",
+    thermalResCooling: "R 机壳→环境",
+    thermalResWinding: "R 绕组→机壳",
+    thermalResMagnet: "R 磁钢→机壳",
+    thermalCapWinding: "C 绕组",
+    thermalCapMagnet: "C 转子/磁钢",
+    thermalCapHousing: "C 定子/机壳",
+    maxWindingTemp: "绕组最高温度",
+    maxMagnetTemp: "磁钢最高温度",
+    thermalExplain: "三节点热网络：铜耗加热绕组，摩擦与风摩损耗加热转子，铁耗加热定子/机壳，机壳向环境散热。冷却方式决定 R 机壳→环境。",
+    thermalEnvelopes: "S1 / S2 额定",
+    peakDurations: "S2 持续时间 (s)，逗号分隔",
+    continuousDuty: "S1 连续",
+    shortTimeDuty: "S2",
+    dutyType: "工作制",
+    ratioToPeak: "相对峰值",
+    limitedBy: "限制因素",
+    limitWinding: "绕组温度",
+    limitMagnet: "磁钢温度",
+    limitPeak: "电流 / 电压极限",
+    thermalNote: "S1：稳态达到温度极限。S2：从环境温度起动，持续时间结束时达到极限。按最小损耗工作点计算，Rs 与 ψf 随节点温度修正。",
+    inputMode: "参数输入方式",
+    phaseValues: "相参数 (dq)",
+    datasheetValues: "规格书",
+    keConvention: "Ke 标注方式",
+    currentConvention: "电流",
+    impedanceConvention: "R / L",
+    lineRms: "线电压有效值",
+    linePeak: "线电压峰值",
+    phaseRms: "相电压有效值",
+    phasePeak: "相电压峰值",
+    rms: "有效值",
+    peak: "峰值",
+    lineToLine: "线间",
+    phaseStar: "相 (星形)",
+    backEmfConstant: "反电动势常数 Ke",
+    torqueConstant: "转矩常数 Kt",
+    datasheetResistance: "电阻",
+    datasheetInductance: "电感",
+    datasheetMaxCurrent: "最大电流",
+    inductanceMin: "电感 (最小, d 轴)",
+    inductanceMax: "电感 (最大, q 轴)",
+    derivedValues: "换算后的相参数",
+    datasheetExplain: "线电压有效值时 Ke = ψf·ωe(1 krpm)·√3/√2（线电压峰值为 √3，相电压有效值为 1/√2）；有效值电流时 Kt = 1.5·p·ψf·√2。线间 R、L 为星形等效相值的两倍；IPMSM 随转子位置变化的最小/最大值分别对应 Ld、Lq。Ke 与 Kt 均决定 ψf（以最后输入为准），请先设置极对数。",
+    tolerance: "公差分析",
+    toleranceHint: "蒙特卡洛分析：每个样本按设定分布在标称值附近抽取所选参数，并计算完整的 T-N 外特性。",
+    distribution: "分布",
+    tolerancePct: "公差 (± %)",
+    normalDistribution: "正态 (±3σ)",
+    uniformDistribution: "均匀",
+    sampleCount: "样本数",
+    samplesLower: "个样本",
+    randomSeed: "随机种子",
+    lowPercentile: "下百分位 (%)",
+    highPercentile: "上百分位 (%)",
+    runAnalysis: "运行",
+    staleResult: "参数或设置已更改，请重新运行以更新结果。",
+    toleranceBand: "百分位区间",
+    nominal: "标称",
+    count: "数量",
+    toleranceNote: "百分位按每个转速点分别统计，区间边界并不对应某一台电机。SPMSM 的 Lq 随抽样的 Ld 变化。基速分辨率为仿真转速步长。",
+    sweep: "参数扫描",
+    sweepHint: "在一定范围内改变一个或两个参数。单参数时绘制 T-N 曲线族，双参数时以热图显示峰值转矩、基速或峰值功率。",
+    sweepPrimary: "参数",
+    sweepSecondary: "第二参数",
+    sweepUseSecondary: "扫描第二个参数 (热图)",
+    sweepFrom: "起始值",
+    sweepTo: "终止值",
+    sweepSteps: "步数",
+    sweepRuns: "次计算",
+    sweepFamily: "T-N 曲线族",
+    sweepOutput: "输出量",
+    sweepNote: "其余参数保持当前值。SPMSM 的 Ld 与 Lq 同步扫描。",
+    inverseDesign: "逆向设计",
+    inverseDesignHint: "输入电机在指定转速下需达到的转矩或功率。在当前 Vdc 与 Imax 下搜索极对数、每匝 ψf 与 Ld/Lq 以及匝数，得到刚好满足所有目标且最接近当前设计的方案。",
+    designTargets: "设计目标",
+    targetKind: "目标量",
+    targetValue: "数值",
+    remove: "删除",
+    addTarget: "添加目标",
+    minPolePairs: "最小极对数",
+    maxPolePairs: "最大极对数",
+    targetsMet: "所有目标均已满足。",
+    targetsNotMet: "搜索范围内没有满足全部目标的设计，显示最接近的方案。",
+    presentDesign: "当前设计",
+    foundDesign: "搜索结果",
+    requiredTorque: "需求 (Nm)",
+    availableTorque: "可用 (Nm)",
+    margin: "裕量",
+    turnsRatio: "匝数比 (新/当前)",
+    fluxPerTurn: "每匝 ψf",
+    inductancePerTurn: "每匝² 电感",
+    applyDesign: "应用到参数",
+    evaluations: "次评估",
+    inverseDesignNote: "电流限值取逆变器 Imax 与当前安匝数除以匝数两者中的较小值，匝数增加会降低 Imax。搜索采用恒定 Ld、Lq，因此结果关闭了饱和模型。请确认所得每匝磁链与电感可实现。",
+    rewind: "重绕",
+    rewindHint: "保持磁钢、铁心与槽满率不变，以不同匝数重绕当前电机：Rs ∝ N²，L ∝ N²，ψf ∝ N，Imax ∝ 1/N。",
+    rewound: "重绕后",
+    applyRewind: "应用重绕",
+    rewindNote: "电流限值按相同安匝数缩放，请确认逆变器能提供重绕后的 Imax。已导入的磁链表同样会被缩放。",
+    currentPlane: "id–iq 平面",
+    region: "工作区",
+    play: "播放",
+    pause: "暂停",
+    currentLimit: "电流极限圆",
+    voltageLimitCurve: "电压极限椭圆",
+    mtpaTrajectory: "MTPA 轨迹",
+    constantTorqueCurves: "恒转矩曲线",
+    operatingTrajectory: "工作点轨迹",
+    currentPlaneNote: "曲线按工作温度绘制，并与求解器一样计入 Rs 与已导入的磁链表。阴影区域内在所选转速下满足电压限制；求解器选择同时位于电流极限圆内的最大转矩点。",
+    changeHistory: "修改历史",
+    undo: "撤销",
+    redo: "重做",
+    jumpToState: "回到此状态",
+    initialState: "初始",
+    pinState: "固定",
+    pinStateHint: "将此状态添加为设计方案，作为对比曲线显示",
+    olderEntriesHidden: "更早的修改未列出，但仍可撤销。",
+    fluxMapHistory: "磁链表",
+    diagnostics: "诊断",
+    diagnosticsErrorNote: "修正错误前结果无参考意义",
+    severityError: "错误",
+    severityWarning: "警告",
+    severityInfo: "提示",
+    diagNegativeValue: "不能为负值。",
+    diagNonPositiveValue: "必须大于零。",
+    diagPolePairsNotInteger: "极对数必须为不小于 1 的整数。",
+    diagUtilizationAboveOne: "利用率超过 100% 意味着假设的电压超出调制所能提供的范围。",
+    diagOvermodulationRange: "过调制指数应介于 SVPWM 极限 (0.907) 与六步波 (1.0) 之间。",
+    diagInverseSaliency: "Lq 小于 Ld，负 id 时磁阻转矩为负；请检查 d/q 轴是否颠倒。",
+    diagNoSaliency: "Lq 等于 Ld，该 IPMSM 的特性与表贴式电机相同。",
+    diagSpmsmSaliency: "表贴式电机应满足 Lq = Ld；当前 Lq 与 Ls 不同。",
+    diagZeroFluxSpmsm: "无永磁磁链且无凸极性时电机不产生转矩。",
+    diagZeroFluxIpmsm: "无永磁磁链时仅产生磁阻转矩（同步磁阻电机）。",
+    diagWindingOverLimit: "绕组温度超过允许限值。",
+    diagMagnetOverLimit: "磁钢温度超过退磁限值。",
+    diagCopperCoeffSign: "铜电阻随温度升高；系数通常为正（约 +0.39 %/K）。",
+    diagMagnetCoeffSign: "磁链随温度降低；系数通常为负（钕铁硼约 -0.12 %/K）。",
+    diagSaturationWithoutMap: "已启用饱和但未加载磁链表，将使用线性模型。",
+    diagVoltageAtStandstill: "额定电流下的电阻压降在零速时已超过可用电压。",
+    diagFieldWeakeningFailed: "从该转速起弱磁找不到满足限制的电流，曲线提前终止。",
+    diagNoTorque: "该设计不产生正转矩。",
+    designReport: "设计报告",
+    designReportHint: "包含参数、曲线、结果、公式与警告的设计报告（PDF 通过打印对话框保存）",
+    reportProject: "项目",
+    reportGenerated: "生成时间",
+    reportNoWarnings: "该设计无警告。",
+    reportValue: "数值",
+    reportUnit: "单位",
+    popupBlocked: "报告窗口被拦截，请允许此页面弹出窗口",
+    inverseDesignNoFw: "弱磁已关闭：基速以上只能依靠反电势余量，高速目标可能无法达到。在参数中启用弱磁可扩展转速范围。"
   }
 };
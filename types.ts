@@ -2,6 +2,22 @@
 export type MotorType = 'IPMSM' | 'SPMSM';
 export type ControlStrategy = 'MTPA' | 'Id=0';
 export type Language = 'en' | 'zh';
+export type ResultsView = 'curve' | 'fourQuadrant' | 'efficiency' | 'currentPlane';
+export type TorqueDirection = 'motoring' | 'generating';
+export type ModulationScheme = 'spwm' | 'svpwm' | 'dpwm' | 'overmodulation' | 'sixStep';
+export type AnalysisTool = 'measurement' | 'parameterFit' | 'driveCycle' | 'loadCurve' | 'currentLoop' | 'battery' | 'tolerance' | 'sweep' | 'inverseDesign';
+export type OperatingRegion = 'constantTorque' | 'fluxWeakening' | 'mtpv' | 'voltageLimited';
+
+export type FluxMapKind = 'flux' | 'inductance';
+
+export interface FluxMap {
+  name: string;           // Source file name
+  kind: FluxMapKind;      // 'flux': ψd/ψq tables (Wb), 'inductance': Ld/Lq tables (H)
+  idAxis: number[];       // d-axis current breakpoints (A, ascending)
+  iqAxis: number[];       // q-axis current breakpoints (A, ascending)
+  d: number[][];          // [iqIndex][idIndex] ψd (Wb) or Ld (H)
+  q: number[][];          // [iqIndex][idIndex] ψq (Wb) or Lq (H)
+}
 
 export interface MotorParams {
   motorType: MotorType; // 'IPMSM' or 'SPMSM'
@@ -13,24 +29,552 @@ export interface MotorParams {
   psif: number;     // Permanent Magnet Flux Linkage (Weber)
   p: number;        // Pole Pairs
   vdc: number;      // DC Bus Voltage (Volts)
-  voltageUtilization: number; // Ratio 0-1+ for SVPWM (multiplier of Vdc/sqrt(3))
+  modulation: ModulationScheme; // PWM method, sets the fundamental voltage ceiling
+  overmodulationIndex: number;  // Modulation index M = V1 / (2·Vdc/π) reached in overmodulation (0.907-1)
+  voltageUtilization: number; // Ratio 0-1 of the modulation ceiling actually usable (dead time, control headroom)
   imax: number;     // Maximum Current (Amps peak)
   maxSpeed: number; // Max simulation speed (RPM)
+  ironLossHyst: number;  // Hysteresis loss coefficient kh (W / (Hz·Wb²))
+  ironLossEddy: number;  // Eddy-current loss coefficient ke (W / (Hz²·Wb²))
+  enableMechanicalLoss: boolean; // Include friction & windage in the loss model
+  frictionTorque: number; // Bearing friction torque (Nm)
+  windageCoeff: number;   // Windage coefficient (W per (rad/s)³)
+  enableSaturation: boolean; // Use the imported flux map instead of constant Ld/Lq/ψf
+  fluxMap: FluxMap | null;   // Imported saturation data (includes cross-saturation)
+  referenceTemp: number;     // Temperature at which rs and psif are specified (°C)
+  windingTemp: number;       // Operating winding temperature (°C)
+  magnetTemp: number;        // Operating magnet temperature (°C)
+  copperTempCoeff: number;   // Copper resistance temperature coefficient (%/K)
+  magnetTempCoeff: number;   // Magnet remanence (Br) temperature coefficient (%/K)
+  ambientTemp: number;       // Cooling air or coolant temperature (°C)
+  thermalResWinding: number; // Winding → stator/housing thermal resistance (K/W)
+  thermalResMagnet: number;  // Rotor/magnet → stator/housing, across the air gap (K/W)
+  thermalResCooling: number; // Housing → ambient, set by the cooling (K/W)
+  thermalCapWinding: number; // Winding heat capacity (J/K)
+  thermalCapMagnet: number;  // Rotor and magnet heat capacity (J/K)
+  thermalCapHousing: number; // Stator core and housing heat capacity (J/K)
+  maxWindingTemp: number;    // Insulation limit (°C)
+  maxMagnetTemp: number;     // Irreversible demagnetization limit (°C)
 }
 
 export interface SimulationPoint {
   speedRPM: number;
-  torque: number;
-  power: number;
+  torque: number;   // Signed: negative when generating
+  power: number;    // Mechanical power (kW), signed like T·ω
   voltageIndex: number; // Ratio of V/Vmax (0 to 1)
   currentAngle: number; // Beta angle in degrees
   id: number;
   iq: number;
+  region: OperatingRegion; // Control region the point was solved in
 }
 
 export interface SimulationResult {
   points: SimulationPoint[];
+  maxTorque: number; // Peak torque, signed (negative for the generating envelope)
+  baseSpeed: number;
+  maxPower: number;  // Peak power, signed like maxTorque
+}
+
+export interface FourQuadrantResult {
+  motoring: SimulationResult;    // Forward motoring (Q1: +speed, +torque)
+  generating: SimulationResult;  // Forward braking (Q4: +speed, -torque)
+  reverseMotoring: SimulationPoint[];   // Q3: -speed, -torque (point mirror of Q1)
+  reverseGenerating: SimulationPoint[]; // Q2: -speed, +torque (point mirror of Q4)
+}
+
+export interface LossBreakdown {
+  copper: number;     // Stator copper loss (W)
+  iron: number;       // Core loss (W)
+  mechanical: number; // Friction & windage (W)
+  total: number;      // Sum of all losses (W)
+}
+
+export interface EfficiencyMapCell {
+  speedRPM: number;
+  torque: number;
+  efficiency: number; // Ratio 0-1
+  id: number;
+  iq: number;
+  losses: LossBreakdown;
+}
+
+export interface EfficiencyMapResult {
+  speeds: number[];  // Grid speeds (RPM)
+  torques: number[]; // Grid torques (Nm)
+  cells: (EfficiencyMapCell | null)[][]; // [torqueIndex][speedIndex], null outside the envelope
+  maxEfficiency: number;
+}
+
+export interface TemperatureCase {
+  temperature: number; // Winding and magnet temperature (°C)
+  result: SimulationResult;
+  maxTorqueDrop: number; // Relative to the coldest case (%)
+  baseSpeedDrop: number;
+  maxPowerDrop: number;
+}
+
+export interface ModulationCase {
+  scheme: ModulationScheme;
+  vLim: number;              // Phase voltage peak limit (V)
+  result: SimulationResult;
+  referenceTorque: number;   // Torque at the comparison's reference speed (Nm)
+}
+
+export interface ModulationComparison {
+  referenceSpeed: number; // High-speed point where the schemes are compared (RPM)
+  cases: ModulationCase[];
+}
+
+export type ThermalLimit = 'winding' | 'magnet' | 'peak';
+
+export interface ThermalPoint {
+  speedRPM: number;
+  torque: number;      // Nm
+  power: number;       // kW
+  windingTemp: number; // °C at the end of the duty (steady state for S1)
+  magnetTemp: number;
+  limit: ThermalLimit; // What caps the torque at this speed
+}
+
+export interface ThermalEnvelope {
+  duration: number | null; // S2 duration from cold (s), null for continuous duty (S1)
+  points: ThermalPoint[];
+  maxTorque: number;
+  maxPower: number;        // kW
+}
+
+export interface Design {
+  id: string;
+  name: string;
+  color: string;    // Curve color in overlays and the comparison table
+  visible: boolean; // Overlaid on the chart when not the active design
+  params: MotorParams;
+}
+
+export interface DesignSummary {
+  maxTorque: number; // Nm
+  baseSpeed: number; // RPM
+  maxPower: number;  // kW
+  mtpaAngle: number; // Current angle at standstill (deg)
+}
+
+export interface DesignOverlay {
+  id: string;
+  name: string;
+  color: string;
+  result: SimulationResult;
+}
+
+export interface ChartSettings {
+  view: ResultsView;
+  showFormulas: boolean;
+  compareSaturation: boolean;
+  showTemperatureSweep: boolean;
+  compareModulation: boolean; // Overlay the envelope of every modulation scheme
+  sweepTemperatures: string; // Comma separated list as typed (°C)
+  showThermalEnvelopes: boolean; // Overlay the continuous (S1) and short-time (S2) envelopes
+  peakDurations: string;     // S2 durations, comma separated as typed (s)
+}
+
+export interface ProjectFile {
+  schemaVersion: number;
+  name: string;
+  savedAt: string; // ISO timestamp
+  language: Language;
+  designs: Design[];
+  activeDesignId: string;
+  baselineDesignId: string;
+  chartSettings: ChartSettings;
+  notes: string;
+}
+
+export type MeasurementChannel = 'torque' | 'current' | 'voltage' | 'power';
+
+export interface MeasuredPoint {
+  speedRPM: number;
+  torque: number;   // Nm
+  current?: number; // Phase current (A rms)
+  voltage?: number; // Line-to-line voltage (V rms)
+  power?: number;   // Shaft power (kW)
+  id?: number;      // d-axis current from the drive (A peak)
+  iq?: number;      // q-axis current from the drive (A peak)
+}
+
+export interface MeasurementSet {
+  name: string; // Source file name
+  points: MeasuredPoint[];
+}
+
+export interface MeasurementComparisonRow {
+  point: MeasuredPoint;
+  predicted: Record<MeasurementChannel, number | null>; // null beyond the simulated speed range
+  error: Partial<Record<MeasurementChannel, number>>;    // Measured − predicted
+  errorPct: Partial<Record<MeasurementChannel, number>>; // Relative to predicted (%)
+}
+
+export interface MeasurementComparison {
+  channels: MeasurementChannel[]; // Channels present in the measurement
+  rows: MeasurementComparisonRow[];
+  rms: Partial<Record<MeasurementChannel, number>>;    // RMS of the absolute error
+  rmsPct: Partial<Record<MeasurementChannel, number>>; // RMS of the relative error (%)
+}
+
+export type FitParameter = 'rs' | 'ld' | 'lq' | 'psif';
+
+export interface FitEstimate {
+  key: FitParameter;
+  initial: number; // Starting value, referred to the reference temperature
+  value: number;   // Fitted value, referred to the reference temperature
+  ci95: number | null; // Half width of the 95% confidence interval, null when not identifiable
+}
+
+export interface FitResidual {
+  speedRPM: number;
+  torque: number;   // Measured − model (Nm)
+  voltage?: number; // Measured − model, line-to-line (V rms)
+}
+
+export interface ParameterFitResult {
+  estimates: FitEstimate[];
+  residuals: FitResidual[];
+  rmsBefore: { torque: number; voltage?: number };
+  rmsAfter: { torque: number; voltage?: number };
+  iterations: number;
+  converged: boolean;
+  fitted: Pick<MotorParams, FitParameter>; // Fitted values referred back to the reference temperature
+}
+
+export type DriveCycleSource = 'motor' | 'vehicle';
+
+export interface VehicleParams {
+  mass: number;           // Test mass (kg)
+  wheelRadius: number;    // Dynamic rolling radius (m)
+  gearRatio: number;      // Motor speed / wheel speed
+  gearEfficiency: number; // Drivetrain efficiency (0-1), applied in both directions
+  roadLoadA: number;      // Road-load coefficient F0 (N)
+  roadLoadB: number;      // Road-load coefficient F1 (N per m/s)
+  roadLoadC: number;      // Road-load coefficient F2 (N per (m/s)²)
+}
+
+export interface DriveCycleSample {
+  time: number;     // s
+  speedRPM: number; // Motor speed
+  torque: number;   // Motor shaft torque (Nm), negative when braking
+}
+
+export interface VehicleProfileSample {
+  time: number;      // s
+  speedKph: number;  // Vehicle speed (km/h)
+  gradePct: number;  // Road grade (%), positive uphill
+}
+
+export type DriveCycleInput =
+  | { source: 'motor'; name: string; samples: DriveCycleSample[] }
+  | { source: 'vehicle'; name: string; profile: VehicleProfileSample[] };
+
+export type DriveCycleStatus = 'pass' | 'torqueLimit' | 'overspeed';
+
+export interface DriveCyclePoint extends DriveCycleSample {
+  status: DriveCycleStatus;
+  limitTorque: number;        // Envelope torque at this speed, same sign as torque (0 beyond the envelope)
+  inputPower: number | null;  // Electrical input power (W), negative when regenerating; null when infeasible
+  losses: LossBreakdown | null;
+}
+
+export interface DriveCycleResult {
+  points: DriveCyclePoint[];
+  motoring: SimulationResult;   // Envelopes the samples were checked against
+  generating: SimulationResult;
+  duration: number;          // s
+  failCount: number;         // Samples outside the envelope
+  energyWh: number;          // Net electrical energy (Wh), regeneration subtracted
+  motoringEnergyWh: number;  // Electrical energy drawn while motoring
+  regenEnergyWh: number;     // Electrical energy returned while braking
+  lossEnergyWh: number;      // Motor losses (copper, iron, mechanical)
+  averageEfficiency: number | null; // Shaft energy out / electrical energy in while motoring
+  regenEfficiency: number | null;   // Electrical energy out / shaft energy in while braking
+}
+
+export type LoadCurveKind = 'constant' | 'quadratic' | 'polynomial' | 'table';
+
+export interface LoadTablePoint {
+  speedRPM: number;
+  torque: number; // Nm
+}
+
+export interface LoadCurve {
+  kind: LoadCurveKind;
+  torque: number;        // Constant torque, or torque at ratedSpeed for the quadratic (fan/pump) curve (Nm)
+  ratedSpeed: number;    // Reference speed of the quadratic curve (RPM)
+  coefficients: string;  // Polynomial c0, c1, c2, … as typed: T = Σ ci·nⁱ with n in krpm
+  table: LoadTablePoint[]; // Imported speed/torque table, sorted by speed
+  tableName: string;
+  rotorInertia: number;  // Motor rotor inertia (kg·m²)
+  loadInertia: number;   // Driven load inertia referred to the motor shaft (kg·m²)
+  targetSpeed: number;   // Speed for the run-up time (RPM)
+  showOnChart: boolean;  // Overlay the load and the steady-state point on the T-N chart
+}
+
+export interface RunUpPoint {
+  time: number;     // s
+  speedRPM: number;
+}
+
+export interface LoadAnalysis {
+  curve: LoadTablePoint[]; // Load torque at the envelope speeds
+  steadyState: LoadTablePoint | null; // Intersection of shaft torque and load, null when the motor stays above the load
+  stalled: boolean;        // The load exceeds the available torque at standstill
+  runUp: RunUpPoint[];     // Speed versus time from standstill
+  targetTime: number | null; // Time to reach the target speed, null when it is not reached
+}
+
+export interface CurrentLoopSettings {
+  speedRPM: number;      // Rotor speed, held constant during the step
+  initialTorque: number; // Torque reference before the step (Nm)
+  finalTorque: number;   // Torque reference after the step (Nm)
+  stepTime: number;      // s
+  duration: number;      // Simulated time (s)
+  sampleRate: number;    // Controller update rate (Hz)
+  bandwidth: number;     // Target closed-loop bandwidth for auto-tuning (Hz)
+  kpD: number;           // d-axis proportional gain (V/A)
+  kiD: number;           // d-axis integral gain (V/(A·s))
+  kpQ: number;           // q-axis proportional gain (V/A)
+  kiQ: number;           // q-axis integral gain (V/(A·s))
+  decoupling: boolean;   // Cross-coupling and back-EMF feed-forward
+}
+
+export interface CurrentLoopSample {
+  time: number;  // s
+  idRef: number;
+  iqRef: number;
+  id: number;    // A peak
+  iq: number;
+  vd: number;    // Applied voltage (V peak)
+  vq: number;
+  torque: number;     // Electromagnetic torque (Nm)
+  saturated: boolean; // Voltage command clipped to the limit
+}
+
+export interface StepMetrics {
+  riseTime: number | null;     // 10% → 90% of the step (s)
+  overshoot: number;           // Peak beyond the final value (% of the step)
+  settlingTime: number | null; // Until the error stays within 2% of the step (s after the step)
+}
+
+export interface CurrentLoopResult {
+  samples: CurrentLoopSample[];
+  vLim: number; // Phase voltage limit (V peak)
+  metrics: { d: StepMetrics | null; q: StepMetrics | null }; // null when the axis reference does not step
+}
+
+export interface BatterySettings {
+  cellsInSeries: number;
+  ocvCurve: string;      // Cell open-circuit voltage versus SOC as typed: "soc:volts" pairs, SOC in %
+  resistance: number;    // Pack internal resistance including wiring (Ω)
+  cutoffVoltage: number; // Pack under-voltage cut-off (V)
+  socLevels: string;     // SOC levels to plot (%), comma separated
+}
+
+export interface OcvPoint {
+  soc: number;     // %
+  voltage: number; // Cell open-circuit voltage (V)
+}
+
+export interface BatteryPoint extends SimulationPoint {
+  busVoltage: number;   // Terminal voltage under load, used as vdc (V)
+  dcCurrent: number;    // Battery current (A)
+  batteryPower: number; // Power delivered at the battery terminals (W)
+  batteryLoss: number;  // Loss in the internal resistance (W)
+  undervoltage: boolean; // Bus below the cut-off voltage
+}
+
+export interface BatteryCase {
+  soc: number;               // %
+  openCircuitVoltage: number; // Pack OCV at this SOC (V)
+  points: BatteryPoint[];
   maxTorque: number;
   baseSpeed: number;
-  maxPower: number;
+  maxPower: number;          // Peak mechanical power (kW)
+  minBusVoltage: number;
+  maxDcCurrent: number;
+  maxBatteryPower: number;   // W
+}
+
+export type ToleranceParameter = 'psif' | 'ld' | 'lq' | 'rs' | 'vdc' | 'imax';
+export type ToleranceDistribution = 'normal' | 'uniform';
+
+export interface ToleranceSpec {
+  key: ToleranceParameter;
+  enabled: boolean;
+  distribution: ToleranceDistribution;
+  tolerance: number; // ± % of nominal: the 3σ width for normal, the full range for uniform
+}
+
+export interface ToleranceSettings {
+  samples: number;
+  seed: number;           // Same seed, same samples
+  lowPercentile: number;  // Lower edge of the band (%)
+  highPercentile: number; // Upper edge of the band (%)
+  specs: ToleranceSpec[];
+}
+
+export interface ToleranceBandPoint {
+  speedRPM: number;
+  torqueNominal: number;
+  torqueLow: number;  // Percentile of the sampled torques at this speed (Nm)
+  torqueHigh: number;
+  powerNominal: number; // kW
+  powerLow: number;
+  powerHigh: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface ToleranceStatistic {
+  nominal: number;
+  mean: number;
+  std: number;
+  low: number;  // Value at the lower band percentile
+  high: number; // Value at the upper band percentile
+  histogram: HistogramBin[];
+}
+
+export interface ToleranceResult {
+  samples: number;
+  band: ToleranceBandPoint[];
+  maxTorque: ToleranceStatistic;
+  baseSpeed: ToleranceStatistic;
+  maxPower: ToleranceStatistic;
+}
+
+export type SweepParameter =
+  | 'vdc'
+  | 'voltageUtilization'
+  | 'imax'
+  | 'psif'
+  | 'ld'
+  | 'lq'
+  | 'rs'
+  | 'windingTemp'
+  | 'magnetTemp';
+
+export type SweepOutput = 'maxTorque' | 'baseSpeed' | 'maxPower';
+
+export interface SweepAxis {
+  key: SweepParameter;
+  from: number;  // In the field's own unit (SI, °C)
+  to: number;
+  steps: number; // Number of values, evenly spaced including both ends
+}
+
+export interface SweepSettings {
+  primary: SweepAxis;
+  secondary: SweepAxis;
+  useSecondary: boolean; // Two-field sweep (heatmap) instead of a curve family
+  output: SweepOutput;   // Scalar shown in the heatmap
+}
+
+export interface SweepResult {
+  primary: SweepAxis;
+  secondary: SweepAxis | null;
+  xValues: number[];               // Primary field values
+  yValues: number[];               // Secondary field values, a single nominal entry for a one-field sweep
+  results: SimulationResult[][];   // [yIndex][xIndex]
+}
+
+export type DesignTargetKind = 'torque' | 'power';
+
+export interface DesignTarget {
+  speedRPM: number;
+  kind: DesignTargetKind;
+  value: number; // Nm for a torque target, kW for a power target
+}
+
+export interface InverseDesignSettings {
+  targets: DesignTarget[];
+  minPolePairs: number;
+  maxPolePairs: number;
+  rewindRatio: number; // New turns / present turns for the rewind
+}
+
+export interface DesignTargetCheck {
+  target: DesignTarget;
+  requiredTorque: number;  // Nm
+  availableTorque: number; // Nm, on the envelope of the found design
+}
+
+export interface InverseDesignResult {
+  params: MotorParams;
+  turnsRatio: number;   // Found turns / present turns
+  fluxScale: number;    // ψf per turn relative to the present design
+  inductanceScale: number; // Ld per turn relative to the present design
+  checks: DesignTargetCheck[];
+  feasible: boolean;    // Every target is met
+  evaluations: number;
+}
+
+export interface CurrentPlanePoint {
+  id: number;
+  iq: number | null; // null where the curve does not exist at this id
+}
+
+export interface TorqueContour {
+  torque: number; // Nm
+  points: CurrentPlanePoint[];
+}
+
+export interface CurrentPlaneGeometry {
+  voltageLimit: CurrentPlanePoint[]; // Upper edge of the voltage-limited region at the chosen speed
+  torqueContours: TorqueContour[];
+  mtpa: CurrentPlanePoint[];         // From zero to the current limit
+}
+
+export interface ParamChange {
+  field: keyof MotorParams;
+  from: MotorParams[keyof MotorParams];
+  to: MotorParams[keyof MotorParams];
+}
+
+export interface HistoryEntry {
+  params: MotorParams;
+  time: number;           // ms since epoch of the (last merged) edit
+  changes: ParamChange[]; // Against the previous entry; empty for the initial state
+}
+
+export interface ParamsHistory {
+  entries: HistoryEntry[]; // Oldest first
+  index: number;           // Entry the design currently shows; later entries can be redone
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticCode =
+  | 'negativeValue'
+  | 'nonPositiveValue'
+  | 'polePairsNotInteger'
+  | 'utilizationAboveOne'
+  | 'overmodulationRange'
+  | 'inverseSaliency'
+  | 'noSaliency'
+  | 'spmsmSaliency'
+  | 'zeroFluxSpmsm'
+  | 'zeroFluxIpmsm'
+  | 'windingOverLimit'
+  | 'magnetOverLimit'
+  | 'copperCoeffSign'
+  | 'magnetCoeffSign'
+  | 'saturationWithoutMap'
+  | 'voltageAtStandstill'
+  | 'fieldWeakeningFailed'
+  | 'noTorque';
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;          // Selects the explanation text
+  field: keyof MotorParams | null; // Offending input, null for whole-design findings
+  detail?: string;               // Numbers behind the finding
 }
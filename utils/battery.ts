@@ -0,0 +1,172 @@
+import { MotorParams, BatterySettings, OcvPoint, BatteryPoint, BatteryCase } from '../types';
+import { createSolverContext } from './motorPhysics';
+import { solveStrategyPoint, solveOperatingPoint } from './controlSolver';
+import { getFluxTorque, getFluxVoltageMag } from './fluxModel';
+import { calculateLosses } from './losses';
+import { applyTemperature } from './temperature';
+
+// Bisection steps of the bus voltage at each speed
+const BUS_ITERATIONS = 30;
+
+/**
+ * Parses the typed cell OCV curve ("soc:volts" pairs) into points sorted by SOC.
+ */
+export const parseOcvCurve = (text: string): OcvPoint[] => {
+  const points = text
+    .split(/[,;\s]+/)
+    .filter(part => part !== '')
+    .map(part => {
+      const fields = part.split(':');
+      const soc = Number(fields[0]);
+      const voltage = Number(fields[1]);
+      if (fields.length !== 2 || fields[1] === '' || !isFinite(soc) || !isFinite(voltage)) {
+        throw new Error(`Invalid OCV point "${part}" (expected soc:volts)`);
+      }
+      return { soc, voltage };
+    });
+  if (points.length < 2) throw new Error('The OCV curve needs at least two points');
+  return points.sort((a, b) => a.soc - b.soc);
+};
+
+/**
+ * Parses the typed SOC levels, clamped to 0-100 % and sorted from full to empty.
+ */
+export const parseSocLevels = (text: string): number[] => {
+  const levels = text
+    .split(/[,;\s]+/)
+    .filter(part => part !== '')
+    .map(Number)
+    .filter(v => isFinite(v))
+    .map(v => Math.min(100, Math.max(0, v)));
+  return Array.from(new Set(levels)).sort((a, b) => b - a);
+};
+
+/**
+ * Cell open-circuit voltage at the given SOC, interpolated linearly and held at the curve ends.
+ */
+export const getCellVoltage = (curve: OcvPoint[], soc: number): number => {
+  if (soc <= curve[0].soc) return curve[0].voltage;
+  for (let i = 1; i < curve.length; i++) {
+    const prev = curve[i - 1];
+    const next = curve[i];
+    if (soc <= next.soc) {
+      return prev.voltage + (next.voltage - prev.voltage) * (soc - prev.soc) / (next.soc - prev.soc);
+    }
+  }
+  return curve[curve.length - 1].voltage;
+};
+
+/**
+ * Terminal voltage at which a source OCV behind R delivers the power P:
+ *   V·(OCV − V)/R = P  →  V = (OCV + √(OCV² − 4·R·P)) / 2
+ * The upper root is the stable operating point; beyond OCV²/(4R) the power cannot be delivered (null).
+ */
+const getTerminalVoltage = (ocv: number, resistance: number, power: number): number | null => {
+  const discriminant = ocv * ocv - 4 * resistance * power;
+  return discriminant >= 0 ? (ocv + Math.sqrt(discriminant)) / 2 : null;
+};
+
+/**
+ * Motoring envelope fed from a battery at one SOC.
+ *
+ * At each speed the bus voltage is solved self-consistently: the envelope point solved with
+ * vdc = Vbus draws Pdc = T·ωm + Pcu + Pfe, and the battery must hold Vbus while supplying it.
+ * Pdc rises with Vbus (more torque in the voltage-limited range) while the terminal voltage
+ * the battery can hold falls with Pdc, so the crossing is found by bisection.
+ */
+export const calculateBatteryCase = (
+  rawParams: MotorParams,
+  battery: BatterySettings,
+  curve: OcvPoint[],
+  soc: number
+): BatteryCase => {
+  const params = applyTemperature(rawParams);
+  const { p, imax, maxSpeed } = params;
+  const { resistance, cutoffVoltage } = battery;
+  const openCircuitVoltage = battery.cellsInSeries * getCellVoltage(curve, soc);
+  const basePoint = solveStrategyPoint(createSolverContext(params), imax);
+
+  const points: BatteryPoint[] = [];
+  let maxTorque = 0;
+  let maxPower = 0;
+  let baseSpeed = 0;
+  let baseSpeedFound = false;
+  const stepRPM = Math.max(10, Math.ceil(maxSpeed / 100));
+
+  for (let rpm = 0; rpm <= maxSpeed; rpm += stepRPM) {
+    const omegaMech = rpm * 2 * Math.PI / 60;
+    const omega = omegaMech * p;
+
+    const evaluate = (vdc: number) => {
+      const ctx = createSolverContext({ ...params, vdc });
+      const pt = solveOperatingPoint(ctx, omega, basePoint);
+      const torque = Math.max(0, getFluxTorque(ctx.model, p, pt.id, pt.iq));
+      const losses = calculateLosses(params, rpm, pt.id, pt.iq);
+      return { ctx, pt, torque, inputPower: torque * omegaMech + losses.copper + losses.iron };
+    };
+
+    let low = 0;
+    let high = openCircuitVoltage;
+    for (let i = 0; i < BUS_ITERATIONS; i++) {
+      const mid = (low + high) / 2;
+      const terminal = getTerminalVoltage(openCircuitVoltage, resistance, evaluate(mid).inputPower);
+      if (terminal !== null && terminal >= mid) low = mid; else high = mid;
+    }
+
+    const busVoltage = low;
+    const { ctx, pt, torque, inputPower } = busVoltage > 0
+      ? evaluate(busVoltage)
+      : { ctx: null, pt: null, torque: 0, inputPower: 0 };
+    const dcCurrent = busVoltage > 0 ? inputPower / busVoltage : 0;
+    const region = pt?.region ?? 'voltageLimited';
+
+    if (region !== 'constantTorque' && !baseSpeedFound) {
+      baseSpeed = Math.max(0, rpm - stepRPM);
+      baseSpeedFound = true;
+    }
+    const power = torque * omegaMech / 1000;
+    maxTorque = Math.max(maxTorque, torque);
+    maxPower = Math.max(maxPower, power);
+
+    points.push({
+      speedRPM: rpm,
+      torque,
+      power,
+      voltageIndex: ctx && pt ? Math.min(1, getFluxVoltageMag(ctx.model, params.rs, omega, pt.id, pt.iq) / ctx.vLim) : 1,
+      currentAngle: pt ? (Math.atan2(-pt.id, pt.iq) * 180) / Math.PI : 0,
+      id: pt?.id ?? 0,
+      iq: pt?.iq ?? 0,
+      region,
+      busVoltage,
+      dcCurrent,
+      batteryPower: inputPower,
+      batteryLoss: resistance * dcCurrent * dcCurrent,
+      undervoltage: busVoltage < cutoffVoltage
+    });
+
+    if (rpm > 100 && torque < 0.01) break;
+  }
+
+  return {
+    soc,
+    openCircuitVoltage,
+    points,
+    maxTorque,
+    baseSpeed,
+    maxPower,
+    minBusVoltage: Math.min(...points.map(pt => pt.busVoltage)),
+    maxDcCurrent: Math.max(...points.map(pt => pt.dcCurrent)),
+    maxBatteryPower: Math.max(...points.map(pt => pt.batteryPower))
+  };
+};
+
+/**
+ * Battery-fed envelopes at each of the configured SOC levels.
+ * Throws an Error describing the problem when the OCV curve or the pack data cannot be used.
+ */
+export const calculateBatteryCases = (params: MotorParams, battery: BatterySettings): BatteryCase[] => {
+  if (!(battery.cellsInSeries > 0)) throw new Error('Cells in series must be positive');
+  if (!(battery.resistance >= 0)) throw new Error('Internal resistance cannot be negative');
+  const curve = parseOcvCurve(battery.ocvCurve);
+  return parseSocLevels(battery.socLevels).map(soc => calculateBatteryCase(params, battery, curve, soc));
+};
@@ -0,0 +1,130 @@
+import { downloadBlob, downloadText } from './download';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const LEGEND_HEIGHT = 24;
+const TITLE_HEIGHT = 28;
+
+// Default high-DPI factor for PNG export (3x ≈ 288 dpi for a 96 dpi layout)
+export const PNG_EXPORT_SCALE = 3;
+
+interface LegendEntry {
+  label: string;
+  color: string;
+}
+
+// Recharts draws the legend as HTML next to the SVG, so it is read back from the DOM
+const readLegend = (container: HTMLElement): LegendEntry[] =>
+  Array.from(container.querySelectorAll<HTMLElement>('.recharts-legend-item')).map(item => {
+    const text = item.querySelector<HTMLElement>('.recharts-legend-item-text');
+    const icon = item.querySelector('path, line, rect');
+    const color = text?.style.color || icon?.getAttribute('stroke') || icon?.getAttribute('fill') || '#1e293b';
+    return { label: text?.textContent ?? '', color };
+  }).filter(entry => entry.label !== '');
+
+const createSvgElement = (name: string, attributes: Record<string, string | number>) => {
+  const el = document.createElementNS(SVG_NS, name);
+  Object.entries(attributes).forEach(([key, value]) => el.setAttribute(key, String(value)));
+  return el;
+};
+
+/**
+ * Builds a standalone SVG document of the chart inside the container:
+ * white background, optional title and the legend redrawn as SVG above the plot.
+ */
+export const buildChartSvg = (container: HTMLElement, title?: string) => {
+  const chart = container.querySelector<SVGSVGElement>('.recharts-wrapper > svg') ?? container.querySelector<SVGSVGElement>('svg');
+  if (!chart) throw new Error('No chart to export');
+
+  const { width, height } = chart.getBoundingClientRect();
+  const legend = readLegend(container);
+  const top = (title ? TITLE_HEIGHT : 0) + (legend.length > 0 ? LEGEND_HEIGHT : 0);
+  const totalHeight = height + top;
+
+  const root = createSvgElement('svg', {
+    xmlns: SVG_NS,
+    width,
+    height: totalHeight,
+    viewBox: `0 0 ${width} ${totalHeight}`,
+    'font-family': getComputedStyle(container).fontFamily || 'sans-serif'
+  });
+  root.appendChild(createSvgElement('rect', { x: 0, y: 0, width, height: totalHeight, fill: '#ffffff' }));
+
+  if (title) {
+    const titleText = createSvgElement('text', {
+      x: width / 2,
+      y: 20,
+      'text-anchor': 'middle',
+      'font-size': 16,
+      'font-weight': 'bold',
+      fill: '#1e293b'
+    });
+    titleText.textContent = title;
+    root.appendChild(titleText);
+  }
+
+  // Legend entries laid out left to right, width estimated from the label length
+  let x = 20;
+  const legendY = (title ? TITLE_HEIGHT : 0) + LEGEND_HEIGHT / 2;
+  legend.forEach(entry => {
+    root.appendChild(createSvgElement('line', {
+      x1: x, y1: legendY, x2: x + 16, y2: legendY, stroke: entry.color, 'stroke-width': 3
+    }));
+    const label = createSvgElement('text', { x: x + 22, y: legendY + 4, 'font-size': 12, fill: entry.color });
+    label.textContent = entry.label;
+    root.appendChild(label);
+    x += 40 + entry.label.length * 7;
+  });
+
+  const plot = chart.cloneNode(true) as SVGSVGElement;
+  plot.setAttribute('x', '0');
+  plot.setAttribute('y', String(top));
+  plot.setAttribute('width', String(width));
+  plot.setAttribute('height', String(height));
+  root.appendChild(plot);
+
+  return {
+    markup: new XMLSerializer().serializeToString(root),
+    width,
+    height: totalHeight
+  };
+};
+
+export const exportChartSvg = (container: HTMLElement, fileName: string, title?: string) => {
+  const { markup } = buildChartSvg(container, title);
+  downloadText(`<?xml version="1.0" encoding="UTF-8"?>\n${markup}`, fileName, 'image/svg+xml');
+};
+
+/**
+ * Rasterizes the chart SVG at `scale` times its on-screen size.
+ */
+export const exportChartPng = async (
+  container: HTMLElement,
+  fileName: string,
+  title?: string,
+  scale: number = PNG_EXPORT_SCALE
+) => {
+  const { markup, width, height } = buildChartSvg(container, title);
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Could not render chart image'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+    ctx.scale(scale, scale);
+    ctx.drawImage(image, 0, 0, width, height);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Could not encode PNG');
+    downloadBlob(blob, fileName);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,314 @@
+import { MotorParams, OperatingRegion } from '../types';
+import { FluxModel, getFluxTorque, getFluxVoltageMag } from './fluxModel';
+
+export interface CurrentVector {
+  id: number;
+  iq: number;
+}
+
+export interface OperatingPoint extends CurrentVector {
+  region: OperatingRegion;
+  foundSolution: boolean; // false when no current vector satisfies the voltage limit
+}
+
+export interface SolverContext {
+  params: MotorParams; // Already corrected to operating temperature
+  model: FluxModel;
+  vLim: number;        // Phase voltage peak limit (V)
+  sign: 1 | -1;        // +1 motoring (iq > 0), -1 generating (iq < 0)
+}
+
+// Relative voltage tolerance for root polishing
+const VOLTAGE_TOL = 1e-6;
+
+const clamp = (x: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, x));
+
+/**
+ * Polishes a root of g inside [lo, hi] with Newton steps (numeric derivative) from an
+ * analytic guess. Falls back to scan + bisection when Newton does not converge.
+ * g must be negative on the feasible side; the root closest to hi is returned.
+ */
+const findRoot = (g: (x: number) => number, guess: number, lo: number, hi: number, tol: number): number | null => {
+  let x = clamp(guess, lo, hi);
+  const h = Math.max(1e-9, (hi - lo) * 1e-7);
+  for (let i = 0; i < 8; i++) {
+    const gx = g(x);
+    if (Math.abs(gx) <= tol) return x;
+    const slope = (g(x + h) - gx) / h;
+    if (!isFinite(slope) || slope === 0) break;
+    x = clamp(x - gx / slope, lo, hi);
+  }
+  if (Math.abs(g(x)) <= tol) return x;
+
+  return largestFeasible(g, lo, hi);
+};
+
+/**
+ * Largest x in [lo, hi] with g(x) <= 0: walks down from hi to the first feasible sample,
+ * then bisects against the previous (infeasible) sample. Does not assume g is monotone.
+ */
+const largestFeasible = (g: (x: number) => number, lo: number, hi: number): number | null => {
+  const samples = 32;
+  let prev = hi;
+  if (g(prev) <= 0) return prev;
+  for (let k = 1; k <= samples; k++) {
+    const cur = hi - ((hi - lo) * k) / samples;
+    if (g(cur) <= 0) {
+      let infeasible = prev;
+      let feasible = cur;
+      for (let i = 0; i < 40; i++) {
+        const mid = (infeasible + feasible) / 2;
+        if (g(mid) <= 0) feasible = mid; else infeasible = mid;
+      }
+      return feasible;
+    }
+    prev = cur;
+  }
+  return null;
+};
+
+// Coarse scan followed by golden-section refinement (maximization)
+const maximize1D = (f: (x: number) => number, lo: number, hi: number, coarseSteps: number = 36): number => {
+  let bestX = lo;
+  let bestF = -Infinity;
+  const step = (hi - lo) / coarseSteps;
+  for (let k = 0; k <= coarseSteps; k++) {
+    const x = lo + step * k;
+    const fx = f(x);
+    if (fx > bestF) {
+      bestF = fx;
+      bestX = x;
+    }
+  }
+
+  let a = Math.max(lo, bestX - step);
+  let b = Math.min(hi, bestX + step);
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let c = b - ratio * (b - a);
+  let d = a + ratio * (b - a);
+  let fc = f(c);
+  let fd = f(d);
+  for (let i = 0; i < 40; i++) {
+    if (fc > fd) {
+      b = d; d = c; fd = fc;
+      c = b - ratio * (b - a); fc = f(c);
+    } else {
+      a = c; c = d; fc = fd;
+      d = a + ratio * (b - a); fd = f(d);
+    }
+  }
+  const xOpt = (a + b) / 2;
+  return f(xOpt) >= bestF ? xOpt : bestX;
+};
+
+/**
+ * Current vector of the low-speed control strategy at current magnitude iMag.
+ *
+ * Id = 0: id = 0, iq = I
+ * MTPA (constant parameters, closed form):
+ *   id = (ψf − √(ψf² + 8(Lq − Ld)²I²)) / (4(Lq − Ld)),  iq = √(I² − id²)
+ * MTPA (flux map): numerical maximization of torque over the current angle.
+ * In generation iq is negated (torque magnitude is maximized).
+ */
+export const solveStrategyPoint = (ctx: SolverContext, iMag: number): CurrentVector => {
+  const { params, model, sign } = ctx;
+  const { ld, lq, psif, p, controlStrategy } = params;
+
+  if (controlStrategy === 'Id=0' || iMag <= 0) {
+    return { id: 0, iq: sign * Math.max(0, iMag) };
+  }
+
+  if (model.isLinear) {
+    const saliency = lq - ld;
+    if (Math.abs(saliency) < 1e-12) return { id: 0, iq: sign * iMag };
+    const id = (psif - Math.sqrt(psif * psif + 8 * saliency * saliency * iMag * iMag)) / (4 * saliency);
+    return { id, iq: sign * Math.sqrt(Math.max(0, iMag * iMag - id * id)) };
+  }
+
+  const beta = maximize1D(
+    b => sign * getFluxTorque(model, p, -iMag * Math.sin(b), sign * iMag * Math.cos(b)),
+    -Math.PI / 6,
+    Math.PI / 2
+  );
+  return { id: -iMag * Math.sin(beta), iq: sign * iMag * Math.cos(beta) };
+};
+
+/**
+ * Field weakening along the current-limit circle (FW-I).
+ *
+ * Closed form neglecting Rs, with ψ = Vlim / ωe:
+ *   (Ld² − Lq²)·id² + 2·Ld·ψf·id + ψf² + Lq²·I² − ψ² = 0
+ * The root is then polished against the full voltage equation including Rs, whose drop
+ * adds to the back-EMF when motoring and subtracts from it when generating.
+ */
+const solveCircleFieldWeakening = (ctx: SolverContext, omega: number, idStart: number): CurrentVector | null => {
+  const { params, model, vLim, sign } = ctx;
+  const { rs, ld, lq, psif, imax } = params;
+
+  const iqOnCircle = (id: number) => sign * Math.sqrt(Math.max(0, imax * imax - id * id));
+  const g = (id: number) => getFluxVoltageMag(model, rs, omega, id, iqOnCircle(id)) - vLim;
+
+  let guess = idStart;
+  if (model.isLinear && omega > 0) {
+    const psi = vLim / omega;
+    const a = ld * ld - lq * lq;
+    const b = 2 * ld * psif;
+    const c = psif * psif + lq * lq * imax * imax - psi * psi;
+    if (Math.abs(a) < 1e-18) {
+      guess = -c / b;
+    } else {
+      const disc = b * b - 4 * a * c;
+      if (disc >= 0) {
+        const roots = [(-b + Math.sqrt(disc)) / (2 * a), (-b - Math.sqrt(disc)) / (2 * a)]
+          .filter(r => r >= -imax && r <= idStart);
+        if (roots.length > 0) guess = Math.max(...roots);
+      }
+    }
+  }
+
+  const id = findRoot(g, guess, -imax, idStart, vLim * VOLTAGE_TOL);
+  if (id === null) return null;
+  return { id, iq: iqOnCircle(id) };
+};
+
+/**
+ * Maximum Torque Per Volt point on the voltage limit (constant parameters, closed form).
+ *
+ * With ψ = Vlim / ωe and ΔL = Lq − Ld:
+ *   ψd = (−ψf·Lq + √((ψf·Lq)² + 8ΔL²ψ²)) / (−4ΔL),   ψq = √(ψ² − ψd²)
+ *   id = (ψd − ψf) / Ld,  iq = ψq / Lq
+ * The flux level ψ is then adjusted so the full voltage equation (with Rs) meets Vlim.
+ */
+const solveLinearMtpv = (ctx: SolverContext, omega: number): CurrentVector | null => {
+  const { params, model, vLim, sign } = ctx;
+  const { rs, ld, lq, psif } = params;
+  if (omega <= 0) return null;
+
+  const pointAtFlux = (psi: number): CurrentVector => {
+    const saliency = lq - ld;
+    const psiD = Math.abs(saliency) < 1e-12
+      ? 0
+      : (-psif * lq + Math.sqrt(psif * psif * lq * lq + 8 * saliency * saliency * psi * psi)) / (-4 * saliency);
+    const psiQ = Math.sqrt(Math.max(0, psi * psi - psiD * psiD));
+    return { id: (psiD - psif) / ld, iq: sign * psiQ / lq };
+  };
+
+  const psiNominal = vLim / omega;
+  const h = (psi: number) => {
+    const pt = pointAtFlux(psi);
+    return getFluxVoltageMag(model, rs, omega, pt.id, pt.iq) - vLim;
+  };
+  const psi = findRoot(h, psiNominal, 0, psiNominal * 2, vLim * VOLTAGE_TOL);
+  return psi === null ? null : pointAtFlux(psi);
+};
+
+/**
+ * Numerical maximum-torque search under the voltage limit (used with flux maps).
+ * For each id the largest iq satisfying both limits is found; torque is maximized over id.
+ * Returns whether the optimum sits on the current circle (FW-I) or inside it (MTPV).
+ */
+const solveNumericVoltageLimit = (ctx: SolverContext, omega: number, idStart: number): OperatingPoint | null => {
+  const { params, model, vLim, sign } = ctx;
+  const { rs, p, imax } = params;
+
+  // Largest |iq| at this id within both limits
+  const maxIq = (id: number): { iq: number; onCircle: boolean } | null => {
+    const iqCircle = Math.sqrt(Math.max(0, imax * imax - id * id));
+    const g = (iqMag: number) => getFluxVoltageMag(model, rs, omega, id, sign * iqMag) - vLim;
+    const iqMag = largestFeasible(g, 0, iqCircle);
+    if (iqMag === null) return null;
+    return { iq: sign * iqMag, onCircle: iqMag >= iqCircle };
+  };
+
+  const torqueAt = (id: number) => {
+    const pt = maxIq(id);
+    return pt ? sign * getFluxTorque(model, p, id, pt.iq) : -Infinity;
+  };
+
+  const id = maximize1D(torqueAt, -imax, Math.max(-imax, idStart), 48);
+  const best = maxIq(id);
+  if (!best) return null;
+  return {
+    id,
+    iq: best.iq,
+    region: best.onCircle ? 'fluxWeakening' : 'mtpv',
+    foundSolution: true
+  };
+};
+
+/**
+ * Voltage-limited operation without field weakening: the strategy trajectory is kept and
+ * the current magnitude shrinks until the voltage limit is met.
+ *
+ * Id = 0 (constant parameters) has the closed form
+ *   (ωe²Lq² + Rs²)·iq² + 2·Rs·ωe·ψf·iq + ωe²ψf² − Vlim² = 0
+ * (the positive root when motoring, the negative root when generating);
+ * otherwise the largest feasible current magnitude along the (analytic) MTPA trajectory is searched.
+ */
+const solveNaturalVoltageLimit = (ctx: SolverContext, omega: number): CurrentVector => {
+  const { params, model, vLim, sign } = ctx;
+  const { rs, lq, psif, imax, controlStrategy } = params;
+
+  if (controlStrategy === 'Id=0' && model.isLinear) {
+    const a = omega * omega * lq * lq + rs * rs;
+    const b = 2 * rs * omega * psif;
+    const c = omega * omega * psif * psif - vLim * vLim;
+    const disc = b * b - 4 * a * c;
+    if (disc < 0 || a <= 0) return { id: 0, iq: 0 };
+    const iq = (-b + sign * Math.sqrt(disc)) / (2 * a);
+    // A root on the wrong side means even zero current exceeds the limit
+    return { id: 0, iq: sign * clamp(sign * iq, 0, imax) };
+  }
+
+  const g = (iMag: number) => {
+    const pt = solveStrategyPoint(ctx, iMag);
+    return getFluxVoltageMag(model, rs, omega, pt.id, pt.iq) - vLim;
+  };
+  const iMag = largestFeasible(g, 0, imax);
+  return iMag === null ? { id: 0, iq: 0 } : solveStrategyPoint(ctx, iMag);
+};
+
+/**
+ * Solves the maximum-torque operating point at the given electrical speed.
+ *
+ * Regions:
+ * - constantTorque: the strategy point at Imax is within the voltage limit
+ * - fluxWeakening:  FW-I, on the current circle with the voltage limit active
+ * - mtpv:           both limits would conflict; Maximum Torque Per Volt inside the circle
+ * - voltageLimited: field weakening disabled (or impossible), current reduced along the strategy
+ */
+export const solveOperatingPoint = (ctx: SolverContext, omega: number, basePoint: CurrentVector): OperatingPoint => {
+  const { params, model, vLim, sign } = ctx;
+  const { rs, p, imax, enableFluxWeakening } = params;
+
+  if (getFluxVoltageMag(model, rs, omega, basePoint.id, basePoint.iq) <= vLim) {
+    return { ...basePoint, region: 'constantTorque', foundSolution: true };
+  }
+
+  if (!enableFluxWeakening) {
+    return { ...solveNaturalVoltageLimit(ctx, omega), region: 'voltageLimited', foundSolution: true };
+  }
+
+  if (!model.isLinear) {
+    const numeric = solveNumericVoltageLimit(ctx, omega, basePoint.id);
+    return numeric ?? { id: 0, iq: 0, region: 'voltageLimited', foundSolution: false };
+  }
+
+  // MTPV takes over once its current fits inside the current circle
+  const mtpv = solveLinearMtpv(ctx, omega);
+  if (mtpv && Math.hypot(mtpv.id, mtpv.iq) <= imax && mtpv.id <= basePoint.id) {
+    const fw = solveCircleFieldWeakening(ctx, omega, basePoint.id);
+    const fwTorque = fw ? sign * getFluxTorque(model, p, fw.id, fw.iq) : -Infinity;
+    if (sign * getFluxTorque(model, p, mtpv.id, mtpv.iq) >= fwTorque) {
+      return { ...mtpv, region: 'mtpv', foundSolution: true };
+    }
+  }
+
+  const fw = solveCircleFieldWeakening(ctx, omega, basePoint.id);
+  if (fw) {
+    return { ...fw, region: 'fluxWeakening', foundSolution: true };
+  }
+
+  // Voltage cannot be satisfied even at full negative Id
+  return { id: 0, iq: 0, region: 'voltageLimited', foundSolution: false };
+};
@@ -0,0 +1,110 @@
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+// Pick the delimiter that splits the first line into the most columns
+const detectDelimiter = (line: string): string => {
+  const candidates = [',', ';', '\t'];
+  let best = ',';
+  let bestCount = 0;
+  for (const d of candidates) {
+    const count = line.split(d).length;
+    if (count > bestCount) {
+      best = d;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+const splitLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (inQuotes) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+/**
+ * Parses CSV text (comma, semicolon or tab separated).
+ * If the first row contains any non-numeric cell it is used as the header row,
+ * otherwise generic "Column N" headers are generated.
+ */
+export const parseCsv = (text: string): CsvTable => {
+  const lines = text
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '' && !line.trim().startsWith('#'));
+  if (lines.length === 0) return { headers: [], rows: [] };
+
+  const delimiter = detectDelimiter(lines[0]);
+  const allRows = lines.map(line => splitLine(line, delimiter));
+
+  const firstRow = allRows[0];
+  const hasHeader = firstRow.some(cell => cell !== '' && isNaN(Number(cell)));
+
+  if (hasHeader) {
+    return { headers: firstRow, rows: allRows.slice(1) };
+  }
+  return {
+    headers: firstRow.map((_, idx) => `Column ${idx + 1}`),
+    rows: allRows
+  };
+};
+
+/**
+ * Normalizes a header for loose matching: lower case, units in brackets and separators removed.
+ * e.g. "Psi_d (Wb)" -> "psid"
+ */
+export const normalizeHeader = (header: string): string => {
+  return header
+    .toLowerCase()
+    .replace(/\(.*?\)|\[.*?\]/g, '')
+    .replace(/[\s_\-.]/g, '');
+};
+
+export interface ColumnField {
+  key: string;
+  label: string;
+  required?: boolean;
+  aliases: string[]; // Normalized header names (see normalizeHeader) that map to this field
+}
+
+export type ColumnMapping = Record<string, number | null>;
+
+/**
+ * Pre-selects a column for every field whose aliases match a header.
+ * Each column is used at most once, in field order.
+ */
+export const guessColumnMapping = (headers: string[], fields: ColumnField[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: ColumnMapping = {};
+  fields.forEach(field => {
+    const idx = normalized.findIndex((h, i) => !used.has(i) && field.aliases.includes(h));
+    mapping[field.key] = idx >= 0 ? idx : null;
+    if (idx >= 0) used.add(idx);
+  });
+  return mapping;
+};
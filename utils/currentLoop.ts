@@ -0,0 +1,198 @@
+import { MotorParams, CurrentLoopSettings, CurrentLoopResult, CurrentLoopSample, StepMetrics } from '../types';
+import { getVoltageLimit, createSolverContext } from './motorPhysics';
+import { solveStrategyPoint, CurrentVector } from './controlSolver';
+import { createFluxModel, getFluxTorque, FluxModel } from './fluxModel';
+import { applyTemperature } from './temperature';
+
+// Upper bound on controller updates per run, keeps the UI responsive
+export const MAX_CONTROL_STEPS = 20000;
+// Plant integration steps per control period
+const SUBSTEPS = 10;
+// Recorded samples per run (the series is decimated beyond this)
+const MAX_RECORDED = 2000;
+// Settling band (fraction of the step)
+const SETTLING_BAND = 0.02;
+
+/**
+ * PI gains by pole-zero cancellation: Kp = ωbw·L, Ki = ωbw·Rs per axis,
+ * which makes each decoupled loop a first-order lag with the given bandwidth.
+ */
+export const tuneCurrentLoop = (rawParams: MotorParams, bandwidthHz: number) => {
+  const { rs, ld, lq } = applyTemperature(rawParams);
+  const omegaBw = 2 * Math.PI * bandwidthHz;
+  return { kpD: omegaBw * ld, kiD: omegaBw * rs, kpQ: omegaBw * lq, kiQ: omegaBw * rs };
+};
+
+/**
+ * Current reference of the control strategy (MTPA or Id = 0) for a torque command.
+ * The current magnitude is found by bisection and capped at Imax; flux weakening is not applied.
+ */
+const solveTorqueReference = (params: MotorParams, model: FluxModel, torque: number): CurrentVector => {
+  if (torque === 0) return { id: 0, iq: 0 };
+  const ctx = createSolverContext(params, torque > 0 ? 'motoring' : 'generating');
+  const target = Math.abs(torque);
+  const torqueAt = (iMag: number) => {
+    const pt = solveStrategyPoint(ctx, iMag);
+    return Math.abs(getFluxTorque(model, params.p, pt.id, pt.iq));
+  };
+  if (torqueAt(params.imax) <= target) return solveStrategyPoint(ctx, params.imax);
+
+  let low = 0;
+  let high = params.imax;
+  for (let i = 0; i < 40; i++) {
+    const mid = (low + high) / 2;
+    if (torqueAt(mid) < target) low = mid; else high = mid;
+  }
+  return solveStrategyPoint(ctx, high);
+};
+
+const stepMetrics = (
+  samples: CurrentLoopSample[],
+  stepTime: number,
+  initial: number,
+  final: number,
+  value: (sample: CurrentLoopSample) => number
+): StepMetrics | null => {
+  const step = final - initial;
+  if (Math.abs(step) < 1e-9) return null;
+  const after = samples.filter(s => s.time >= stepTime);
+  // Progress towards the final value: 0 before the step, 1 when reached
+  const progress = (s: CurrentLoopSample) => (value(s) - initial) / step;
+
+  const t10 = after.find(s => progress(s) >= 0.1)?.time;
+  const t90 = after.find(s => progress(s) >= 0.9)?.time;
+  const peak = after.reduce((max, s) => Math.max(max, progress(s)), 0);
+  const lastOutside = [...after].reverse().find(s => Math.abs(progress(s) - 1) > SETTLING_BAND);
+
+  return {
+    riseTime: t10 !== undefined && t90 !== undefined ? t90 - t10 : null,
+    overshoot: Math.max(0, peak - 1) * 100,
+    // Still outside the band at the end of the run: not settled
+    settlingTime: lastOutside === after[after.length - 1] ? null : (lastOutside?.time ?? stepTime) - stepTime
+  };
+};
+
+/**
+ * Time-domain simulation of the dq current loop at constant speed.
+ *
+ * Plant (integrated with RK4 between controller updates):
+ *   dψd/dt = vd − Rs·id + ωe·ψq
+ *   dψq/dt = vq − Rs·iq − ωe·ψd
+ * with ψd(id, iq), ψq(id, iq) from the flux model, so di/dt uses the incremental inductances.
+ *
+ * Controller, once per sample period:
+ *   v* = Kp·e + ∫Ki·e dt (+ feed-forward −ωe·Lq·iq, ωe·(Ld·id + ψf) when decoupling)
+ * The command is scaled onto the voltage circle (getVoltageLimit) when it exceeds it,
+ * the integrators are frozen while clipped (anti-windup), and it is applied one period
+ * later (computation delay). The run starts in steady state at the initial torque.
+ */
+export const simulateCurrentLoop = (rawParams: MotorParams, settings: CurrentLoopSettings): CurrentLoopResult => {
+  const params = applyTemperature(rawParams);
+  const { rs, ld, lq, psif, p } = params;
+  const { speedRPM, initialTorque, finalTorque, stepTime, duration, sampleRate, kpD, kiD, kpQ, kiQ, decoupling } = settings;
+  if (!(sampleRate > 0) || !(duration > 0)) throw new Error('Sample rate and duration must be positive');
+  const steps = Math.ceil(duration * sampleRate);
+  if (steps > MAX_CONTROL_STEPS) throw new Error(`Duration × sample rate exceeds ${MAX_CONTROL_STEPS} controller updates`);
+
+  const model = createFluxModel(params);
+  const vLim = getVoltageLimit(params);
+  const omega = (speedRPM * 2 * Math.PI / 60) * p;
+  const ts = 1 / sampleRate;
+  const h = ts / SUBSTEPS;
+  const delta = Math.max(1e-6, params.imax * 1e-5);
+
+  // di/dt from the flux derivatives: [∂ψ/∂i]·di/dt = v − Rs·i + ωe·[ψq, −ψd]
+  const derivative = (id: number, iq: number, vd: number, vq: number): [number, number] => {
+    const psiD = model.psiD(id, iq);
+    const psiQ = model.psiQ(id, iq);
+    const fd = vd - rs * id + omega * psiQ;
+    const fq = vq - rs * iq - omega * psiD;
+    const ldd = (model.psiD(id + delta, iq) - model.psiD(id - delta, iq)) / (2 * delta);
+    const ldq = (model.psiD(id, iq + delta) - model.psiD(id, iq - delta)) / (2 * delta);
+    const lqd = (model.psiQ(id + delta, iq) - model.psiQ(id - delta, iq)) / (2 * delta);
+    const lqq = (model.psiQ(id, iq + delta) - model.psiQ(id, iq - delta)) / (2 * delta);
+    const det = ldd * lqq - ldq * lqd;
+    return [(lqq * fd - ldq * fq) / det, (ldd * fq - lqd * fd) / det];
+  };
+
+  const feedForward = (id: number, iq: number): [number, number] =>
+    decoupling ? [-omega * lq * iq, omega * (ld * id + psif)] : [0, 0];
+
+  const initialRef = solveTorqueReference(params, model, initialTorque);
+  const finalRef = solveTorqueReference(params, model, finalTorque);
+
+  // Steady state at the initial reference: the integrators hold what the feed-forward does not supply
+  let id = initialRef.id;
+  let iq = initialRef.iq;
+  let vd = rs * id - omega * model.psiQ(id, iq);
+  let vq = rs * iq + omega * model.psiD(id, iq);
+  const magnitude0 = Math.hypot(vd, vq);
+  let appliedSaturated = magnitude0 > vLim;
+  if (appliedSaturated) {
+    vd *= vLim / magnitude0;
+    vq *= vLim / magnitude0;
+  }
+  const [ffD0, ffQ0] = feedForward(id, iq);
+  let integralD = vd - ffD0;
+  let integralQ = vq - ffQ0;
+
+  const recordEvery = Math.max(1, Math.ceil((steps * SUBSTEPS) / MAX_RECORDED));
+  const samples: CurrentLoopSample[] = [];
+  let counter = 0;
+
+  for (let k = 0; k < steps; k++) {
+    const time = k * ts;
+    const ref = time >= stepTime ? finalRef : initialRef;
+
+    const errorD = ref.id - id;
+    const errorQ = ref.iq - iq;
+    const [ffD, ffQ] = feedForward(id, iq);
+    let cmdD = kpD * errorD + integralD + ffD;
+    let cmdQ = kpQ * errorQ + integralQ + ffQ;
+    const magnitude = Math.hypot(cmdD, cmdQ);
+    const saturated = magnitude > vLim;
+    if (saturated) {
+      cmdD *= vLim / magnitude;
+      cmdQ *= vLim / magnitude;
+    } else {
+      integralD += kiD * errorD * ts;
+      integralQ += kiQ * errorQ * ts;
+    }
+
+    // The voltage computed in the previous period is applied during this one
+    for (let sub = 0; sub < SUBSTEPS; sub++) {
+      if (counter++ % recordEvery === 0) {
+        samples.push({
+          time: time + sub * h,
+          idRef: ref.id,
+          iqRef: ref.iq,
+          id,
+          iq,
+          vd,
+          vq,
+          torque: getFluxTorque(model, p, id, iq),
+          saturated: appliedSaturated
+        });
+      }
+      const k1 = derivative(id, iq, vd, vq);
+      const k2 = derivative(id + (h / 2) * k1[0], iq + (h / 2) * k1[1], vd, vq);
+      const k3 = derivative(id + (h / 2) * k2[0], iq + (h / 2) * k2[1], vd, vq);
+      const k4 = derivative(id + h * k3[0], iq + h * k3[1], vd, vq);
+      id += (h / 6) * (k1[0] + 2 * k2[0] + 2 * k3[0] + k4[0]);
+      iq += (h / 6) * (k1[1] + 2 * k2[1] + 2 * k3[1] + k4[1]);
+    }
+
+    vd = cmdD;
+    vq = cmdQ;
+    appliedSaturated = saturated;
+  }
+
+  return {
+    samples,
+    vLim,
+    metrics: {
+      d: stepMetrics(samples, stepTime, initialRef.id, finalRef.id, s => s.id),
+      q: stepMetrics(samples, stepTime, initialRef.iq, finalRef.iq, s => s.iq)
+    }
+  };
+};
@@ -0,0 +1,67 @@
+import { MotorParams, CurrentPlaneGeometry, CurrentPlanePoint } from '../types';
+import { createSolverContext } from './motorPhysics';
+import { solveStrategyPoint } from './controlSolver';
+import { getFluxTorque, getFluxVoltageMag } from './fluxModel';
+import { applyTemperature } from './temperature';
+
+// Samples along the id axis per curve
+const ID_SAMPLES = 161;
+// Samples along the MTPA trajectory
+const MTPA_SAMPLES = 41;
+// Bisection steps per curve point
+const BISECTION_STEPS = 40;
+// Curves are searched up to this multiple of the visible iq range
+const SEARCH_RANGE = 4;
+
+/**
+ * Smallest iq ≥ 0 in [0, hi] where g changes from ≤ 0 to > 0, or null when g(hi) ≤ 0
+ * or g(0) > 0. g must have a single sign change on the interval.
+ */
+const solveIq = (g: (iq: number) => number, hi: number): number | null => {
+  if (g(0) > 0 || g(hi) <= 0) return null;
+  let lo = 0;
+  for (let i = 0; i < BISECTION_STEPS; i++) {
+    const mid = (lo + hi) / 2;
+    if (g(mid) > 0) hi = mid; else lo = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+/**
+ * Curves of the motoring half of the id–iq plane, from the same flux model and voltage limit
+ * as the envelope solver (including Rs, temperature and a loaded flux map):
+ *
+ * Voltage limit  |v(id, iq)| = Vmax at the given speed; the region below the curve is reachable
+ * Torque         T(id, iq) = T_level for each level
+ * MTPA           the torque-per-ampere optimum from zero to Imax, whatever strategy is selected
+ */
+export const calculateCurrentPlane = (
+  rawParams: MotorParams,
+  speedRPM: number,
+  torqueLevels: number[],
+  idRange: [number, number],
+  iqMax: number
+): CurrentPlaneGeometry => {
+  const params = applyTemperature(rawParams);
+  const ctx = createSolverContext(params);
+  const { model, vLim } = ctx;
+  const { p, rs, imax } = params;
+  const omega = ((speedRPM * 2 * Math.PI) / 60) * p;
+  const hi = iqMax * SEARCH_RANGE;
+
+  const ids = Array.from({ length: ID_SAMPLES }, (_, i) => idRange[0] + ((idRange[1] - idRange[0]) * i) / (ID_SAMPLES - 1));
+  const curve = (g: (id: number, iq: number) => number): CurrentPlanePoint[] =>
+    ids.map(id => ({ id, iq: solveIq(iq => g(id, iq), hi) }));
+
+  const mtpaCtx = createSolverContext({ ...params, controlStrategy: 'MTPA' });
+  const mtpa = Array.from({ length: MTPA_SAMPLES }, (_, i) => solveStrategyPoint(mtpaCtx, (imax * i) / (MTPA_SAMPLES - 1)));
+
+  return {
+    voltageLimit: curve((id, iq) => getFluxVoltageMag(model, rs, omega, id, iq) - vLim),
+    torqueContours: torqueLevels.map(torque => ({
+      torque,
+      points: curve((id, iq) => getFluxTorque(model, p, id, iq) - torque)
+    })),
+    mtpa
+  };
+};
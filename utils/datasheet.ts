@@ -0,0 +1,101 @@
+import { MotorParams } from '../types';
+
+export type DatasheetVoltage = 'lineRms' | 'linePeak' | 'phaseRms' | 'phasePeak';
+export type DatasheetCurrent = 'rms' | 'peak';
+export type DatasheetImpedance = 'lineToLine' | 'phase';
+
+export interface DatasheetConventions {
+  voltage: DatasheetVoltage;     // How the back-EMF constant is quoted
+  current: DatasheetCurrent;     // How Kt and the max current are quoted
+  impedance: DatasheetImpedance; // Terminal (line-to-line) or per-phase R and L
+}
+
+export interface DatasheetValues {
+  ke: number;            // Back-EMF constant (V/krpm)
+  kt: number;            // Torque constant (Nm/A), without reluctance torque
+  resistance: number;    // Ω
+  inductanceMin: number; // H, rotor aligned with the measured winding axis (d axis)
+  inductanceMax: number; // H, rotor in quadrature (q axis); equal to the minimum for SPMSM
+  maxCurrent: number;    // A
+}
+
+export type DatasheetField = keyof DatasheetValues;
+
+export const DATASHEET_VOLTAGES: DatasheetVoltage[] = ['lineRms', 'linePeak', 'phaseRms', 'phasePeak'];
+export const DATASHEET_CURRENTS: DatasheetCurrent[] = ['rms', 'peak'];
+export const DATASHEET_IMPEDANCES: DatasheetImpedance[] = ['lineToLine', 'phase'];
+
+// Phase peak volts per quoted volt
+const VOLTAGE_TO_PHASE_PEAK: Record<DatasheetVoltage, number> = {
+  lineRms: Math.SQRT2 / Math.sqrt(3),
+  linePeak: 1 / Math.sqrt(3),
+  phaseRms: Math.SQRT2,
+  phasePeak: 1
+};
+
+// Peak amps per quoted amp
+const CURRENT_TO_PEAK: Record<DatasheetCurrent, number> = {
+  rms: Math.SQRT2,
+  peak: 1
+};
+
+// Phase (star equivalent) ohms or henries per quoted value: a terminal measurement sees two phases in series
+const IMPEDANCE_TO_PHASE: Record<DatasheetImpedance, number> = {
+  lineToLine: 0.5,
+  phase: 1
+};
+
+// Electrical rad/s at 1000 rpm
+const omegaPerKrpm = (p: number) => (1000 * 2 * Math.PI / 60) * p;
+
+/**
+ * Expresses the phase dq parameters as datasheet quantities in the given conventions.
+ *
+ * Ke = ψf · ωe(1 krpm) / kV          kV = √2/√3 (line rms), 1/√3 (line peak), √2 (phase rms), 1 (phase peak)
+ * Kt = 1.5 · p · ψf · kI             kI = √2 (rms), 1 (peak)
+ * R  = Rs / kZ,  L = Ld or Lq / kZ   kZ = 1/2 (line-to-line), 1 (phase)
+ */
+export const paramsToDatasheet = (params: MotorParams, conventions: DatasheetConventions): DatasheetValues => {
+  const kV = VOLTAGE_TO_PHASE_PEAK[conventions.voltage];
+  const kI = CURRENT_TO_PEAK[conventions.current];
+  const kZ = IMPEDANCE_TO_PHASE[conventions.impedance];
+  return {
+    ke: (params.psif * omegaPerKrpm(params.p)) / kV,
+    kt: 1.5 * params.p * params.psif * kI,
+    resistance: params.rs / kZ,
+    inductanceMin: params.ld / kZ,
+    inductanceMax: params.lq / kZ,
+    maxCurrent: params.imax / kI
+  };
+};
+
+/**
+ * Returns the parameters with one datasheet quantity applied.
+ * Ke and Kt both set ψf, so whichever was entered last wins. For SPMSM the inductance sets Ld and Lq.
+ */
+export const applyDatasheetValue = (
+  params: MotorParams,
+  field: DatasheetField,
+  value: number,
+  conventions: DatasheetConventions
+): MotorParams => {
+  const kV = VOLTAGE_TO_PHASE_PEAK[conventions.voltage];
+  const kI = CURRENT_TO_PEAK[conventions.current];
+  const kZ = IMPEDANCE_TO_PHASE[conventions.impedance];
+  switch (field) {
+    case 'ke':
+      return { ...params, psif: (value * kV) / omegaPerKrpm(params.p) };
+    case 'kt':
+      return { ...params, psif: value / (1.5 * params.p * kI) };
+    case 'resistance':
+      return { ...params, rs: value * kZ };
+    case 'inductanceMin':
+      return params.motorType === 'SPMSM'
+        ? { ...params, ld: value * kZ, lq: value * kZ }
+        : { ...params, ld: value * kZ };
+    case 'inductanceMax':
+      return { ...params, lq: value * kZ };
+    case 'maxCurrent':
+      return { ...params, imax: value * kI };
+  }
+};
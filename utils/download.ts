@@ -0,0 +1,26 @@
+/**
+ * Saves content as a file through a temporary object URL.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (content: string, fileName: string, mimeType: string = 'text/plain') => {
+  downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), fileName);
+};
+
+/**
+ * Turns a user supplied name into something safe to use as a file name.
+ */
+export const toFileName = (name: string, extension: string) => {
+  const base = name.trim().replace(/[\\/:*?"<>|]+/g, '_').replace(/\s+/g, '_') || 'untitled';
+  return `${base}.${extension}`;
+};
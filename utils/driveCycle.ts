@@ -0,0 +1,192 @@
+import {
+  MotorParams,
+  VehicleParams,
+  DriveCycleSample,
+  DriveCycleInput,
+  DriveCyclePoint,
+  DriveCycleResult,
+  DriveCycleSource,
+  VehicleProfileSample
+} from '../types';
+import { CsvTable, ColumnMapping } from './csv';
+import { calculateMotorCharacteristics, interpolateEnvelope } from './motorPhysics';
+import { solveMinLossPoint } from './efficiencyMap';
+import { calculateLosses } from './losses';
+
+export type DriveCycleColumn = 'time' | 'speedRPM' | 'torque' | 'speedKph' | 'gradePct';
+
+// Normalized header aliases used to pre-fill the column mapping dialog
+export const DRIVE_CYCLE_COLUMN_ALIASES: Record<DriveCycleColumn, string[]> = {
+  time: ['time', 'times', 't', 'sec', 's', '时间'],
+  speedRPM: ['speed', 'speedrpm', 'rpm', 'n', 'motorspeed', '转速'],
+  torque: ['torque', 'torquenm', 'tq', 'motortorque', '转矩', '扭矩'],
+  speedKph: ['speed', 'speedkph', 'speedkmh', 'kph', 'kmh', 'v', 'vehiclespeed', '车速'],
+  gradePct: ['grade', 'gradepct', 'slope', '坡度']
+};
+
+const GRAVITY = 9.81;
+// Torque tolerance so samples lying on the envelope itself pass
+const ENVELOPE_TOLERANCE = 1.001;
+
+/**
+ * Turns the mapped CSV columns into a drive cycle sorted by time.
+ * Rows without numeric values in the required columns are skipped.
+ */
+export const buildDriveCycleInput = (
+  table: CsvTable,
+  mapping: ColumnMapping,
+  source: DriveCycleSource,
+  name: string
+): DriveCycleInput => {
+  const read = (row: string[], col: number | null | undefined) => {
+    if (col == null) return undefined;
+    const value = parseFloat(row[col]);
+    return isFinite(value) ? value : undefined;
+  };
+  if (mapping.time == null) throw new Error('A time column is required');
+
+  if (source === 'motor') {
+    if (mapping.speedRPM == null || mapping.torque == null) throw new Error('Speed and torque columns are required');
+    const samples: DriveCycleSample[] = [];
+    table.rows.forEach(row => {
+      const time = read(row, mapping.time);
+      const speedRPM = read(row, mapping.speedRPM);
+      const torque = read(row, mapping.torque);
+      if (time !== undefined && speedRPM !== undefined && torque !== undefined) samples.push({ time, speedRPM, torque });
+    });
+    if (samples.length < 2) throw new Error('At least two rows with numeric time, speed and torque are needed');
+    samples.sort((a, b) => a.time - b.time);
+    return { source, name, samples };
+  }
+
+  if (mapping.speedKph == null) throw new Error('A vehicle speed column is required');
+  const profile: VehicleProfileSample[] = [];
+  table.rows.forEach(row => {
+    const time = read(row, mapping.time);
+    const speedKph = read(row, mapping.speedKph);
+    if (time !== undefined && speedKph !== undefined) profile.push({ time, speedKph, gradePct: read(row, mapping.gradePct) ?? 0 });
+  });
+  if (profile.length < 2) throw new Error('At least two rows with numeric time and speed are needed');
+  profile.sort((a, b) => a.time - b.time);
+  return { source, name, profile };
+};
+
+/**
+ * Converts a vehicle speed profile into motor speed and shaft torque.
+ *
+ * Tractive force:  F = A + B·v + C·v² + m·a + m·g·sin(atan(grade))
+ * Wheel torque F·r is referred to the motor through the gear ratio; drivetrain losses
+ * increase the motor torque when driving and reduce it when braking.
+ * Acceleration is the central difference of the speed samples.
+ */
+export const vehicleProfileToCycle = (profile: VehicleProfileSample[], vehicle: VehicleParams): DriveCycleSample[] => {
+  const { mass, wheelRadius, gearRatio, gearEfficiency, roadLoadA, roadLoadB, roadLoadC } = vehicle;
+  const speeds = profile.map(pt => pt.speedKph / 3.6);
+
+  return profile.map((pt, i) => {
+    const prev = Math.max(0, i - 1);
+    const next = Math.min(profile.length - 1, i + 1);
+    const dt = profile[next].time - profile[prev].time;
+    const accel = dt > 0 ? (speeds[next] - speeds[prev]) / dt : 0;
+    const v = speeds[i];
+
+    // Rolling and aerodynamic resistance oppose the direction of travel
+    const direction = Math.sign(v);
+    const roadLoad = direction * (roadLoadA + roadLoadB * Math.abs(v) + roadLoadC * v * v);
+    const force = roadLoad + mass * accel + mass * GRAVITY * Math.sin(Math.atan(pt.gradePct / 100));
+
+    // At standstill the travel direction is that of the speed being left or approached,
+    // so a sample braking into (or pulling away from) rest takes the right gear loss branch
+    const travel = direction !== 0 ? direction : Math.sign(speeds[prev] + speeds[next]);
+    const wheelTorque = force * wheelRadius;
+    const motorTorque = wheelTorque * travel >= 0
+      ? wheelTorque / (gearRatio * gearEfficiency)
+      : (wheelTorque * gearEfficiency) / gearRatio;
+
+    return {
+      time: pt.time,
+      speedRPM: (v / wheelRadius) * gearRatio * 60 / (2 * Math.PI),
+      torque: motorTorque
+    };
+  });
+};
+
+export const getDriveCycleSamples = (input: DriveCycleInput, vehicle: VehicleParams): DriveCycleSample[] =>
+  input.source === 'motor' ? input.samples : vehicleProfileToCycle(input.profile, vehicle);
+
+/**
+ * Checks every sample of the cycle against the motoring and generating envelopes
+ * and integrates the electrical energy over time (trapezoidal rule).
+ *
+ * The sample torque is the shaft torque, so the motor has to produce friction and windage
+ * on top of it. Feasible samples are solved for the minimum-loss current vector;
+ * samples outside the envelope carry no energy and are counted as failures.
+ * Negative speeds are evaluated as the mirrored point of the positive-speed quadrant.
+ */
+export const simulateDriveCycle = (params: MotorParams, samples: DriveCycleSample[]): DriveCycleResult => {
+  const motoring = calculateMotorCharacteristics(params, 'motoring');
+  const generating = calculateMotorCharacteristics(params, 'generating');
+
+  const points: DriveCyclePoint[] = samples.map(sample => {
+    const direction = sample.speedRPM < 0 ? -1 : 1;
+    const speed = Math.abs(sample.speedRPM);
+    const shaftTorque = sample.torque * direction;
+    const omegaMech = speed * 2 * Math.PI / 60;
+
+    const mechanicalLoss = calculateLosses(params, speed, 0, 0).mechanical;
+    const emTorque = shaftTorque + (omegaMech > 0 ? mechanicalLoss / omegaMech : 0);
+    const envelope = interpolateEnvelope(emTorque >= 0 ? motoring : generating, speed, pt => pt.torque);
+    const limitTorque = (envelope ?? 0) * direction;
+
+    if (envelope === null) {
+      return { ...sample, status: 'overspeed', limitTorque, inputPower: null, losses: null };
+    }
+    if (Math.abs(emTorque) > Math.abs(envelope) * ENVELOPE_TOLERANCE) {
+      return { ...sample, status: 'torqueLimit', limitTorque, inputPower: null, losses: null };
+    }
+
+    const solution = solveMinLossPoint(params, speed, emTorque);
+    if (!solution) {
+      return { ...sample, status: 'torqueLimit', limitTorque, inputPower: null, losses: null };
+    }
+
+    const inputPower = emTorque * omegaMech + solution.losses.copper + solution.losses.iron;
+    return { ...sample, status: 'pass', limitTorque, inputPower, losses: solution.losses };
+  });
+
+  let motoringJ = 0;
+  let regenJ = 0;
+  let lossJ = 0;
+  let shaftOutJ = 0;
+  let shaftInJ = 0;
+
+  points.forEach((pt, i) => {
+    // Trapezoidal weight: half of the interval on each side
+    const before = i > 0 ? pt.time - points[i - 1].time : 0;
+    const after = i < points.length - 1 ? points[i + 1].time - pt.time : 0;
+    const weight = (before + after) / 2;
+    if (pt.inputPower === null || pt.losses === null || weight <= 0) return;
+
+    const shaftPower = pt.torque * pt.speedRPM * 2 * Math.PI / 60;
+    lossJ += pt.losses.total * weight;
+    if (pt.inputPower >= 0) motoringJ += pt.inputPower * weight;
+    else regenJ -= pt.inputPower * weight;
+    if (shaftPower >= 0) shaftOutJ += shaftPower * weight;
+    else shaftInJ -= shaftPower * weight;
+  });
+
+  const toWh = (joules: number) => joules / 3600;
+  return {
+    points,
+    motoring,
+    generating,
+    duration: points.length > 0 ? points[points.length - 1].time - points[0].time : 0,
+    failCount: points.filter(pt => pt.status !== 'pass').length,
+    energyWh: toWh(motoringJ - regenJ),
+    motoringEnergyWh: toWh(motoringJ),
+    regenEnergyWh: toWh(regenJ),
+    lossEnergyWh: toWh(lossJ),
+    averageEfficiency: motoringJ > 0 ? Math.min(1, shaftOutJ / motoringJ) : null,
+    regenEfficiency: shaftInJ > 0 ? Math.min(1, regenJ / shaftInJ) : null
+  };
+};
@@ -0,0 +1,130 @@
+import { MotorParams, SimulationResult, EfficiencyMapCell, EfficiencyMapResult, LossBreakdown } from '../types';
+import { getVoltageLimit, getEnvelopeTorque } from './motorPhysics';
+import { calculateLosses } from './losses';
+import { createFluxModel, getFluxTorque, getFluxVoltageMag } from './fluxModel';
+import { applyTemperature } from './temperature';
+
+export interface LossOptimalPoint {
+  id: number;
+  iq: number;
+  losses: LossBreakdown;
+}
+
+/**
+ * Finds the current vector that produces the requested torque at the given speed with the lowest losses.
+ *
+ * Walks along the constant-torque hyperbola (id from 0 to -Imax, iq solved from the torque equation),
+ * discarding points outside the current circle or voltage ellipse.
+ * A negative torque is solved as generating: the current vector of |T| with iq mirrored,
+ * which has the same losses but a different voltage requirement.
+ * Returns null when no feasible point exists.
+ */
+export const solveMinLossPoint = (rawParams: MotorParams, speedRPM: number, signedTorque: number): LossOptimalPoint | null => {
+  const params = applyTemperature(rawParams);
+  const sign = signedTorque < 0 ? -1 : 1;
+  const torque = Math.abs(signedTorque);
+  const { rs, ld, lq, psif, p, imax } = params;
+  const vLim = getVoltageLimit(params);
+  const omega = (speedRPM * 2 * Math.PI / 60) * p;
+  const fluxModel = createFluxModel(params);
+
+  // iq that produces the requested torque at this id (null if unreachable within Imax)
+  const solveIq = (id: number): number | null => {
+    if (fluxModel.isLinear) {
+      const torquePerIq = 1.5 * p * (psif + (ld - lq) * id);
+      return torquePerIq > 1e-12 ? torque / torquePerIq : null;
+    }
+    const iqMax = Math.sqrt(Math.max(0, imax * imax - id * id));
+    if (getFluxTorque(fluxModel, p, id, iqMax) < torque) return null;
+    let low = 0;
+    let high = iqMax;
+    for (let i = 0; i < 30; i++) {
+      const mid = (low + high) / 2;
+      if (getFluxTorque(fluxModel, p, id, mid) < torque) low = mid; else high = mid;
+    }
+    return high;
+  };
+
+  const evaluate = (id: number): LossOptimalPoint | null => {
+    const iq = solveIq(id);
+    if (iq === null) return null;
+
+    if (id * id + iq * iq > imax * imax) return null;
+
+    if (getFluxVoltageMag(fluxModel, rs, omega, id, sign * iq) > vLim) return null;
+
+    return { id, iq: sign * iq, losses: calculateLosses(params, speedRPM, id, sign * iq) };
+  };
+
+  let best: LossOptimalPoint | null = null;
+  const scan = (from: number, to: number, steps: number) => {
+    for (let i = 0; i <= steps; i++) {
+      const candidate = evaluate(from + ((to - from) * i) / steps);
+      if (candidate && (!best || candidate.losses.total < best.losses.total)) {
+        best = candidate;
+      }
+    }
+  };
+
+  // Coarse scan followed by fine scan around the best coarse point
+  const coarseSteps = 40;
+  const coarseStep = imax / coarseSteps;
+  scan(0, -imax, coarseSteps);
+  if (!best) return null;
+
+  const bestId = (best as LossOptimalPoint).id;
+  scan(Math.min(0, bestId + coarseStep), Math.max(-imax, bestId - coarseStep), 20);
+
+  return best;
+};
+
+/**
+ * Solves every (speed, torque) grid point inside the max-torque envelope for efficiency.
+ *
+ * Torque is the electromagnetic torque. Output power is T·ωm minus friction & windage,
+ * input power is T·ωm plus copper and iron loss.
+ */
+export const calculateEfficiencyMap = (
+  params: MotorParams,
+  envelope: SimulationResult,
+  speedSteps: number = 40,
+  torqueSteps: number = 30
+): EfficiencyMapResult => {
+  const { points, maxTorque } = envelope;
+  const topSpeed = points.length > 0 ? points[points.length - 1].speedRPM : 0;
+
+  const speeds: number[] = [];
+  const torques: number[] = [];
+  for (let i = 1; i <= speedSteps; i++) speeds.push((topSpeed * i) / speedSteps);
+  for (let j = 1; j <= torqueSteps; j++) torques.push((maxTorque * j) / torqueSteps);
+
+  let maxEfficiency = 0;
+  const cells = torques.map(torque =>
+    speeds.map((speedRPM): EfficiencyMapCell | null => {
+      // Small tolerance so grid points lying on the envelope itself are kept
+      if (torque > getEnvelopeTorque(envelope, speedRPM) * 1.001) return null;
+
+      const solution = solveMinLossPoint(params, speedRPM, torque);
+      if (!solution) return null;
+
+      const omegaMech = speedRPM * 2 * Math.PI / 60;
+      const airGapPower = torque * omegaMech;
+      const outputPower = airGapPower - solution.losses.mechanical;
+      const inputPower = airGapPower + solution.losses.copper + solution.losses.iron;
+      const efficiency = inputPower > 0 ? Math.max(0, outputPower / inputPower) : 0;
+
+      if (efficiency > maxEfficiency) maxEfficiency = efficiency;
+
+      return {
+        speedRPM,
+        torque,
+        efficiency,
+        id: solution.id,
+        iq: solution.iq,
+        losses: solution.losses
+      };
+    })
+  );
+
+  return { speeds, torques, cells, maxEfficiency };
+};
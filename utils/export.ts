@@ -0,0 +1,71 @@
+import { MotorParams, SimulationPoint, SimulationResult } from '../types';
+import { CellValue, createXlsx } from './xlsx';
+
+export interface ExportContext {
+  projectName: string;
+  designName: string;
+  params: MotorParams;
+  result: SimulationResult;
+}
+
+// Column order of the exported point table; headers carry the unit after an underscore
+const POINT_COLUMNS: { key: keyof SimulationPoint; header: string }[] = [
+  { key: 'speedRPM', header: 'speed_rpm' },
+  { key: 'torque', header: 'torque_Nm' },
+  { key: 'power', header: 'power_kW' },
+  { key: 'voltageIndex', header: 'voltage_index' },
+  { key: 'currentAngle', header: 'current_angle_deg' },
+  { key: 'id', header: 'id_A' },
+  { key: 'iq', header: 'iq_A' },
+  { key: 'region', header: 'region' }
+];
+
+/**
+ * Key/value pairs describing where the data came from: names, timestamp, every input parameter and the summary.
+ */
+export const buildExportMetadata = ({ projectName, designName, params, result }: ExportContext): [string, CellValue][] => {
+  const paramRows = (Object.keys(params) as (keyof MotorParams)[]).map((key): [string, CellValue] => {
+    const value = params[key];
+    if (key === 'fluxMap') return [key, params.fluxMap ? params.fluxMap.name : ''];
+    return [key, value as CellValue];
+  });
+  return [
+    ['project', projectName],
+    ['design', designName],
+    ['exportedAt', new Date().toISOString()],
+    ...paramRows,
+    ['maxTorque_Nm', result.maxTorque],
+    ['baseSpeed_rpm', result.baseSpeed],
+    ['maxPower_kW', result.maxPower]
+  ];
+};
+
+const buildPointRows = (points: SimulationPoint[]): CellValue[][] => [
+  POINT_COLUMNS.map(col => col.header),
+  ...points.map(pt => POINT_COLUMNS.map(col => pt[col.key]))
+];
+
+export const csvField = (value: CellValue) => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV with the metadata as leading '#' comment lines, so the file re-imports with parseCsv.
+ */
+export const resultToCsv = (context: ExportContext): string => {
+  const metadata = buildExportMetadata(context).map(([key, value]) => `# ${key},${csvField(value)}`);
+  const table = buildPointRows(context.result.points).map(row => row.map(csvField).join(','));
+  return [...metadata, ...table].join('\r\n') + '\r\n';
+};
+
+/**
+ * Workbook with a 'Metadata' sheet and a 'Points' sheet.
+ */
+export const resultToXlsx = (context: ExportContext): Blob => {
+  return createXlsx([
+    { name: 'Metadata', rows: [['key', 'value'], ...buildExportMetadata(context)] },
+    { name: 'Points', rows: buildPointRows(context.result.points) }
+  ]);
+};
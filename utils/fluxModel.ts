@@ -0,0 +1,184 @@
+import { MotorParams, FluxMap } from '../types';
+import { parseCsv, normalizeHeader } from './csv';
+
+/**
+ * dq flux linkage model used by the physics engine.
+ *
+ * Linear model:    ψd = Ld·id + ψf,   ψq = Lq·iq
+ * Saturated model: ψd(id, iq), ψq(id, iq) interpolated from an imported flux map,
+ *                  so both self- and cross-saturation are captured.
+ */
+export interface FluxModel {
+  isLinear: boolean;
+  psiD: (id: number, iq: number) => number;
+  psiQ: (id: number, iq: number) => number;
+}
+
+// Index of the lower breakpoint of the interval containing x (clamped to the table)
+const findInterval = (axis: number[], x: number): number => {
+  if (axis.length < 2 || x <= axis[0]) return 0;
+  if (x >= axis[axis.length - 1]) return axis.length - 2;
+  let lo = 0;
+  let hi = axis.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (axis[mid] <= x) lo = mid; else hi = mid;
+  }
+  return lo;
+};
+
+/**
+ * Bilinear interpolation on a [yIndex][xIndex] table.
+ * Outside the table either extrapolates linearly from the edge cell or clamps to the edge.
+ */
+const interpolate2D = (
+  xAxis: number[],
+  yAxis: number[],
+  table: number[][],
+  x: number,
+  y: number,
+  extrapolate: boolean
+): number => {
+  if (!extrapolate) {
+    x = Math.min(xAxis[xAxis.length - 1], Math.max(xAxis[0], x));
+    y = Math.min(yAxis[yAxis.length - 1], Math.max(yAxis[0], y));
+  }
+  const i = findInterval(xAxis, x);
+  const j = findInterval(yAxis, y);
+  const i1 = Math.min(i + 1, xAxis.length - 1);
+  const j1 = Math.min(j + 1, yAxis.length - 1);
+
+  const tx = i1 === i ? 0 : (x - xAxis[i]) / (xAxis[i1] - xAxis[i]);
+  const ty = j1 === j ? 0 : (y - yAxis[j]) / (yAxis[j1] - yAxis[j]);
+
+  const v00 = table[j][i];
+  const v10 = table[j][i1];
+  const v01 = table[j1][i];
+  const v11 = table[j1][i1];
+  return (v00 * (1 - tx) + v10 * tx) * (1 - ty) + (v01 * (1 - tx) + v11 * tx) * ty;
+};
+
+const createTableModel = (map: FluxMap, psif: number): FluxModel => {
+  const { idAxis, iqAxis, d, q, kind } = map;
+  // Tables measured for motoring only (iq >= 0) are mirrored: ψd is even in iq, ψq is odd.
+  const mirrorIq = iqAxis[0] >= 0;
+
+  const lookup = (table: number[][], id: number, iq: number) =>
+    interpolate2D(idAxis, iqAxis, table, id, mirrorIq ? Math.abs(iq) : iq, kind === 'flux');
+
+  if (kind === 'flux') {
+    return {
+      isLinear: false,
+      psiD: (id, iq) => lookup(d, id, iq),
+      psiQ: (id, iq) => {
+        const psiQ = lookup(q, id, iq);
+        return mirrorIq && iq < 0 ? -psiQ : psiQ;
+      }
+    };
+  }
+
+  // Apparent inductance tables: ψ = L(id, iq)·i, magnet flux from the parameters
+  return {
+    isLinear: false,
+    psiD: (id, iq) => lookup(d, id, iq) * id + psif,
+    psiQ: (id, iq) => lookup(q, id, iq) * iq
+  };
+};
+
+/**
+ * Builds the flux model for the given parameters.
+ * Falls back to the constant-parameter model when saturation is disabled or no map is loaded.
+ */
+export const createFluxModel = (params: MotorParams): FluxModel => {
+  const { ld, lq, psif, enableSaturation, fluxMap } = params;
+
+  if (enableSaturation && fluxMap) {
+    return createTableModel(fluxMap, psif);
+  }
+
+  return {
+    isLinear: true,
+    psiD: (id) => ld * id + psif,
+    psiQ: (_id, iq) => lq * iq
+  };
+};
+
+/**
+ * Electromagnetic torque: Te = 1.5 · p · (ψd·iq − ψq·id)
+ */
+export const getFluxTorque = (model: FluxModel, p: number, id: number, iq: number): number => {
+  return 1.5 * p * (model.psiD(id, iq) * iq - model.psiQ(id, iq) * id);
+};
+
+/**
+ * Steady-state phase voltage magnitude: vd = Rs·id − ωe·ψq, vq = Rs·iq + ωe·ψd
+ */
+export const getFluxVoltageMag = (model: FluxModel, rs: number, omega: number, id: number, iq: number): number => {
+  const vd = rs * id - omega * model.psiQ(id, iq);
+  const vq = rs * iq + omega * model.psiD(id, iq);
+  return Math.sqrt(vd * vd + vq * vq);
+};
+
+const COLUMN_ALIASES = {
+  id: ['id', 'isd', 'idpk'],
+  iq: ['iq', 'isq', 'iqpk'],
+  psiD: ['psid', 'ψd', 'fluxd', 'lambdad', 'fluxlinkaged'],
+  psiQ: ['psiq', 'ψq', 'fluxq', 'lambdaq', 'fluxlinkageq'],
+  ld: ['ld', 'inductanced'],
+  lq: ['lq', 'inductanceq']
+};
+
+/**
+ * Parses a flux map CSV in long format: one row per (id, iq) point with
+ * either ψd/ψq columns (Wb) or Ld/Lq columns (H). The points must form a full id × iq grid.
+ */
+export const parseFluxMapCsv = (text: string, name: string): FluxMap => {
+  const { headers, rows } = parseCsv(text);
+  const normalized = headers.map(normalizeHeader);
+  const findColumn = (aliases: string[]) => normalized.findIndex(h => aliases.includes(h));
+
+  const idCol = findColumn(COLUMN_ALIASES.id);
+  const iqCol = findColumn(COLUMN_ALIASES.iq);
+  if (idCol < 0 || iqCol < 0) {
+    throw new Error('Flux map CSV needs "id" and "iq" columns');
+  }
+
+  let kind: FluxMap['kind'];
+  let dCol = findColumn(COLUMN_ALIASES.psiD);
+  let qCol = findColumn(COLUMN_ALIASES.psiQ);
+  if (dCol >= 0 && qCol >= 0) {
+    kind = 'flux';
+  } else {
+    dCol = findColumn(COLUMN_ALIASES.ld);
+    qCol = findColumn(COLUMN_ALIASES.lq);
+    if (dCol < 0 || qCol < 0) {
+      throw new Error('Flux map CSV needs "psid"/"psiq" or "ld"/"lq" columns');
+    }
+    kind = 'inductance';
+  }
+
+  const samples = rows
+    .map(row => [row[idCol], row[iqCol], row[dCol], row[qCol]].map(Number))
+    .filter(values => values.every(v => isFinite(v)));
+
+  const idAxis = Array.from(new Set(samples.map(s => s[0]))).sort((a, b) => a - b);
+  const iqAxis = Array.from(new Set(samples.map(s => s[1]))).sort((a, b) => a - b);
+  if (idAxis.length < 2 || iqAxis.length < 2) {
+    throw new Error('Flux map needs at least two distinct id and iq values');
+  }
+
+  const d: number[][] = iqAxis.map(() => idAxis.map(() => NaN));
+  const q: number[][] = iqAxis.map(() => idAxis.map(() => NaN));
+  samples.forEach(([id, iq, dVal, qVal]) => {
+    const i = idAxis.indexOf(id);
+    const j = iqAxis.indexOf(iq);
+    d[j][i] = dVal;
+    q[j][i] = qVal;
+  });
+
+  if (d.some(row => row.some(v => isNaN(v)))) {
+    throw new Error(`Flux map is not a full grid (${idAxis.length} id × ${iqAxis.length} iq points expected)`);
+  }
+
+  return { name, kind, idAxis, iqAxis, d, q };
+};
@@ -0,0 +1,58 @@
+import { MotorParams, ParamChange, ParamsHistory } from '../types';
+
+// Oldest entries beyond this are dropped
+export const MAX_HISTORY_ENTRIES = 200;
+// Edits of the same fields within this window merge into one entry, so typing a number is one step (ms)
+const MERGE_WINDOW = 1000;
+
+export const createHistory = (params: MotorParams, time: number = Date.now()): ParamsHistory => ({
+  entries: [{ params, time, changes: [] }],
+  index: 0
+});
+
+/**
+ * Fields that differ between two parameter sets (flux maps compared by reference).
+ */
+export const diffParams = (before: MotorParams, after: MotorParams): ParamChange[] =>
+  (Object.keys(after) as (keyof MotorParams)[])
+    .filter(field => before[field] !== after[field])
+    .map(field => ({ field, from: before[field], to: after[field] }));
+
+const sameFields = (a: ParamChange[], b: ParamChange[]) =>
+  a.length === b.length && a.every(change => b.some(other => other.field === change.field));
+
+/**
+ * Records a new state after the current one, discarding anything that could have been redone.
+ * A quick follow-up edit of the same fields replaces the last entry instead of adding one;
+ * an edit that returns to the previous state removes it.
+ */
+export const pushHistory = (history: ParamsHistory, params: MotorParams, time: number = Date.now()): ParamsHistory => {
+  const entries = history.entries.slice(0, history.index + 1);
+  const last = entries[entries.length - 1];
+  const changes = diffParams(last.params, params);
+  if (changes.length === 0) return history;
+
+  const atEnd = history.index === history.entries.length - 1;
+  if (atEnd && entries.length > 1 && time - last.time < MERGE_WINDOW && sameFields(changes, last.changes)) {
+    const previous = entries[entries.length - 2];
+    const merged = diffParams(previous.params, params);
+    const kept = merged.length === 0
+      ? entries.slice(0, -1)
+      : [...entries.slice(0, -1), { params, time, changes: merged }];
+    return { entries: kept, index: kept.length - 1 };
+  }
+
+  const appended = [...entries, { params, time, changes }].slice(-MAX_HISTORY_ENTRIES);
+  return { entries: appended, index: appended.length - 1 };
+};
+
+/**
+ * Moves to any recorded state; undo and redo are steps of one.
+ */
+export const jumpHistory = (history: ParamsHistory, index: number): ParamsHistory => ({
+  ...history,
+  index: Math.min(history.entries.length - 1, Math.max(0, index))
+});
+
+export const canUndo = (history: ParamsHistory) => history.index > 0;
+export const canRedo = (history: ParamsHistory) => history.index < history.entries.length - 1;
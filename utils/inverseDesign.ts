@@ -0,0 +1,205 @@
+import { MotorParams, DesignTarget, DesignTargetCheck, InverseDesignSettings, InverseDesignResult } from '../types';
+import { createSolverContext } from './motorPhysics';
+import { solveStrategyPoint, solveOperatingPoint } from './controlSolver';
+import { getFluxTorque } from './fluxModel';
+import { applyTemperature } from './temperature';
+
+// Search bounds of every scale factor (ratio to the present design)
+const MIN_SCALE = 0.05;
+const MAX_SCALE = 20;
+// Nelder-Mead: initial simplex size in ln(scale), iterations and restarts per pole-pair count
+const SIMPLEX_SIZE = 0.5;
+const MAX_ITERATIONS = 300;
+const RESTARTS = 2;
+const CONVERGENCE = 1e-9;
+// A shortfall costs this much more than the same surplus
+const SHORTFALL_WEIGHT = 1e4;
+// Pull towards the present design, so the closest of equally good candidates wins
+const REGULARIZATION = 0.02;
+// Targets are met within this relative tolerance
+const FEASIBILITY_TOLERANCE = 1e-3;
+
+/**
+ * Rewinds the winding with `ratio` times the turns, keeping the magnetic design and the slot fill:
+ *
+ * Rs ∝ N²,  Ld, Lq ∝ N²,  ψf ∝ N,  Imax ∝ 1/N (same ampere-turns)
+ *
+ * A flux map is rescaled the same way: current breakpoints ∝ 1/N, flux entries ∝ N, inductance entries ∝ N².
+ */
+export const rewindParams = (params: MotorParams, ratio: number): MotorParams => {
+  if (!(ratio > 0) || !isFinite(ratio)) throw new Error('Turns ratio must be positive');
+  const { fluxMap } = params;
+  const tableScale = fluxMap?.kind === 'inductance' ? ratio * ratio : ratio;
+  return {
+    ...params,
+    rs: params.rs * ratio * ratio,
+    ld: params.ld * ratio * ratio,
+    lq: params.lq * ratio * ratio,
+    psif: params.psif * ratio,
+    imax: params.imax / ratio,
+    fluxMap: fluxMap && {
+      ...fluxMap,
+      idAxis: fluxMap.idAxis.map(v => v / ratio),
+      iqAxis: fluxMap.iqAxis.map(v => v / ratio),
+      d: fluxMap.d.map(row => row.map(v => v * tableScale)),
+      q: fluxMap.q.map(row => row.map(v => v * tableScale))
+    }
+  };
+};
+
+export const getRequiredTorque = (target: DesignTarget): number => {
+  if (target.kind === 'torque') return target.value;
+  const omegaMech = (target.speedRPM * 2 * Math.PI) / 60;
+  return omegaMech > 0 ? (target.value * 1000) / omegaMech : Infinity;
+};
+
+/**
+ * Peak motoring torque at each target speed, solved directly at those speeds.
+ */
+const checkTargets = (rawParams: MotorParams, targets: DesignTarget[]): DesignTargetCheck[] => {
+  const params = applyTemperature(rawParams);
+  const ctx = createSolverContext(params);
+  const basePoint = solveStrategyPoint(ctx, params.imax);
+  return targets.map(target => {
+    const omega = ((target.speedRPM * 2 * Math.PI) / 60) * params.p;
+    const pt = solveOperatingPoint(ctx, omega, basePoint);
+    return {
+      target,
+      requiredTorque: getRequiredTorque(target),
+      availableTorque: Math.max(0, getFluxTorque(ctx.model, params.p, pt.id, pt.iq))
+    };
+  });
+};
+
+/**
+ * Minimizes f from x0 with the Nelder-Mead simplex method.
+ */
+const minimizeSimplex = (f: (x: number[]) => number, x0: number[]): { x: number[]; value: number } => {
+  const n = x0.length;
+  let simplex = [x0, ...x0.map((_, k) => x0.map((v, i) => (i === k ? v + SIMPLEX_SIZE : v)))]
+    .map(x => ({ x, value: f(x) }));
+  const along = (a: number[], b: number[], t: number) => a.map((v, i) => v + t * (b[i] - v));
+
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    simplex.sort((a, b) => a.value - b.value);
+    const bestVertex = simplex[0];
+    const worst = simplex[n];
+    if (worst.value - bestVertex.value < CONVERGENCE) break;
+
+    const centroid = x0.map((_, i) => simplex.slice(0, n).reduce((sum, v) => sum + v.x[i], 0) / n);
+    const reflected = along(centroid, worst.x, -1);
+    const reflectedValue = f(reflected);
+    if (reflectedValue < bestVertex.value) {
+      const expanded = along(centroid, worst.x, -2);
+      const expandedValue = f(expanded);
+      simplex[n] = expandedValue < reflectedValue ? { x: expanded, value: expandedValue } : { x: reflected, value: reflectedValue };
+    } else if (reflectedValue < simplex[n - 1].value) {
+      simplex[n] = { x: reflected, value: reflectedValue };
+    } else {
+      const contracted = along(centroid, reflectedValue < worst.value ? reflected : worst.x, 0.5);
+      const contractedValue = f(contracted);
+      if (contractedValue < Math.min(reflectedValue, worst.value)) {
+        simplex[n] = { x: contracted, value: contractedValue };
+      } else {
+        simplex = simplex.map((v, i) => {
+          if (i === 0) return v;
+          const x = along(bestVertex.x, v.x, 0.5);
+          return { x, value: f(x) };
+        });
+      }
+    }
+  }
+  simplex.sort((a, b) => a.value - b.value);
+  return simplex[0];
+};
+
+/**
+ * Searches pole pairs, ψf and Ld/Lq per turn and the number of turns for a design that meets
+ * every torque/power target at the present Vdc and Imax.
+ *
+ * The candidate is the present design with ψf, Ld and Lq per turn scaled (the magnetic design),
+ * rewound by the turns ratio N, at the given pole pairs. The rewind follows rewindParams
+ * (ψf ∝ N, Ld, Lq, Rs ∝ N²) and the current limit is the lower of the inverter's Imax and the
+ * winding's, which keeps the present ampere-turns (Imax / N). More turns therefore buy torque per
+ * ampere only up to the ampere-turn limit and cost back-EMF at speed; fewer turns cost torque once
+ * the inverter limits the current. For IPMSM the saliency Lq/Ld is a further variable; SPMSM keeps
+ * Lq = Ld. The cost is the squared relative shortfall per target, weighted far above the squared
+ * log surplus, so the search settles on a design that just meets the targets. Each pole-pair count
+ * runs a restarted Nelder-Mead search; the lowest cost wins.
+ * Saturation is not modelled: the search and the found design use constant Ld and Lq.
+ */
+export const runInverseDesign = (params: MotorParams, settings: InverseDesignSettings): InverseDesignResult => {
+  const { targets, minPolePairs, maxPolePairs } = settings;
+  if (targets.length === 0) throw new Error('Add at least one target');
+  if (targets.some(target => !(target.speedRPM >= 0) || !(target.value > 0))) {
+    throw new Error('Targets need a non-negative speed and a positive value');
+  }
+  if (targets.some(target => target.kind === 'power' && target.speedRPM === 0)) {
+    throw new Error('A power target needs a speed above zero');
+  }
+  if (!Number.isInteger(minPolePairs) || !Number.isInteger(maxPolePairs) || minPolePairs < 1 || maxPolePairs < minPolePairs) {
+    throw new Error('Pole pairs must be whole numbers with min ≤ max');
+  }
+
+  const salient = params.motorType === 'IPMSM';
+  const base: MotorParams = {
+    ...params,
+    enableSaturation: false,
+    maxSpeed: Math.max(params.maxSpeed, ...targets.map(target => target.speedRPM))
+  };
+  const lower = Math.log(MIN_SCALE);
+  const upper = Math.log(MAX_SCALE);
+  const clamp = (x: number[]) => x.map(v => Math.min(upper, Math.max(lower, v)));
+
+  // x = ln [ψf per turn scale, Ld per turn scale, turns ratio, saliency scale (IPMSM)]
+  const toParams = (p: number, x: number[]): MotorParams => {
+    const [flux, inductance, turns, saliency] = clamp(x);
+    const ld = base.ld * Math.exp(inductance + 2 * turns);
+    return {
+      ...base,
+      p,
+      psif: base.psif * Math.exp(flux + turns),
+      ld,
+      lq: salient ? base.lq * Math.exp(inductance + 2 * turns + saliency) : ld,
+      rs: base.rs * Math.exp(2 * turns),
+      imax: base.imax * Math.min(1, Math.exp(-turns))
+    };
+  };
+
+  let evaluations = 0;
+  const cost = (p: number, x: number[]) => {
+    evaluations += 1;
+    const fit = checkTargets(toParams(p, x), targets).reduce((sum, check) => {
+      const ratio = check.availableTorque / check.requiredTorque;
+      return sum + (ratio < 1 ? SHORTFALL_WEIGHT * (1 - ratio) ** 2 : Math.log(ratio) ** 2);
+    }, 0);
+    // Also penalizes leaving the bounds, where the clamped candidate stops changing
+    const outside = x.reduce((sum, v) => sum + Math.max(0, lower - v, v - upper) ** 2, 0);
+    const change = clamp(x).reduce((sum, v) => sum + v * v, Math.log(p / params.p) ** 2);
+    return fit + REGULARIZATION * change + outside;
+  };
+
+  // Every search starts from the present magnetic design and turns
+  const start = salient ? [0, 0, 0, 0] : [0, 0, 0];
+  let best = { p: minPolePairs, x: start, value: cost(minPolePairs, start) };
+  for (let p = minPolePairs; p <= maxPolePairs; p++) {
+    let run = { x: start, value: Infinity };
+    for (let restart = 0; restart <= RESTARTS; restart++) {
+      run = minimizeSimplex(x => cost(p, x), run.x);
+    }
+    if (run.value < best.value) best = { p, ...run };
+  }
+
+  const found = toParams(best.p, best.x);
+  const [flux, inductance, turns] = clamp(best.x);
+  const checks = checkTargets(found, targets);
+  return {
+    params: found,
+    turnsRatio: Math.exp(turns),
+    fluxScale: Math.exp(flux),
+    inductanceScale: Math.exp(inductance),
+    checks,
+    feasible: checks.every(check => check.availableTorque >= check.requiredTorque * (1 - FEASIBILITY_TOLERANCE)),
+    evaluations
+  };
+};
@@ -0,0 +1,135 @@
+import { MotorParams, SimulationResult, LoadCurve, LoadTablePoint, LoadAnalysis, RunUpPoint } from '../types';
+import { CsvTable, ColumnMapping } from './csv';
+import { interpolateEnvelope } from './motorPhysics';
+import { calculateLosses } from './losses';
+
+// Speed steps of the run-up integration
+const RUN_UP_STEPS = 400;
+// The run-up curve ends at this fraction of the steady-state speed
+const RUN_UP_END_RATIO = 0.99;
+
+/**
+ * Parses the typed polynomial coefficients; anything that is not a number counts as zero.
+ */
+export const parseCoefficients = (text: string): number[] =>
+  text
+    .split(/[,;\s]+/)
+    .filter(part => part !== '')
+    .map(part => {
+      const value = Number(part);
+      return isFinite(value) ? value : 0;
+    });
+
+/**
+ * Turns the mapped CSV columns into a load table sorted by speed.
+ */
+export const buildLoadTable = (table: CsvTable, mapping: ColumnMapping): LoadTablePoint[] => {
+  const speedCol = mapping.speedRPM;
+  const torqueCol = mapping.torque;
+  if (speedCol == null || torqueCol == null) throw new Error('Speed and torque columns are required');
+
+  const points: LoadTablePoint[] = [];
+  table.rows.forEach(row => {
+    const speedRPM = parseFloat(row[speedCol]);
+    const torque = parseFloat(row[torqueCol]);
+    if (isFinite(speedRPM) && isFinite(torque)) points.push({ speedRPM, torque });
+  });
+  if (points.length === 0) throw new Error('No rows with numeric speed and torque');
+  return points.sort((a, b) => a.speedRPM - b.speedRPM);
+};
+
+/**
+ * Load torque at the given speed.
+ *
+ * constant:    T = T0
+ * quadratic:   T = Trated · (n / nrated)²
+ * polynomial:  T = c0 + c1·n + c2·n² + …   (n in krpm)
+ * table:       linear interpolation, held constant beyond the first and last rows
+ */
+export const evaluateLoadTorque = (load: LoadCurve, speedRPM: number): number => {
+  switch (load.kind) {
+    case 'constant':
+      return load.torque;
+    case 'quadratic':
+      return load.ratedSpeed > 0 ? load.torque * (speedRPM / load.ratedSpeed) ** 2 : 0;
+    case 'polynomial': {
+      const n = speedRPM / 1000;
+      return parseCoefficients(load.coefficients).reduceRight((sum, c) => sum * n + c, 0);
+    }
+    case 'table': {
+      const { table } = load;
+      if (table.length === 0) return 0;
+      if (speedRPM <= table[0].speedRPM) return table[0].torque;
+      const upper = table.findIndex(pt => pt.speedRPM >= speedRPM);
+      if (upper === -1) return table[table.length - 1].torque;
+      const a = table[upper - 1];
+      const b = table[upper];
+      const span = b.speedRPM - a.speedRPM;
+      return span > 0 ? a.torque + ((speedRPM - a.speedRPM) / span) * (b.torque - a.torque) : b.torque;
+    }
+  }
+};
+
+/**
+ * Matches the load against the motoring envelope.
+ *
+ * The available shaft torque is the envelope torque minus friction and windage.
+ * The steady-state point is the first speed where it falls to the load torque.
+ * The run-up is integrated in the speed domain, t = ∫ J·dω / (Tshaft − Tload),
+ * up to 99% of the steady-state speed (the load is only reached asymptotically).
+ */
+export const analyzeLoad = (params: MotorParams, result: SimulationResult, load: LoadCurve): LoadAnalysis => {
+  const { points } = result;
+  const topSpeed = points.length > 0 ? points[points.length - 1].speedRPM : 0;
+
+  const mechanicalTorque = (speedRPM: number) => {
+    const omegaMech = speedRPM * 2 * Math.PI / 60;
+    if (omegaMech <= 0) return params.enableMechanicalLoss ? params.frictionTorque : 0;
+    return calculateLosses(params, speedRPM, 0, 0).mechanical / omegaMech;
+  };
+  const excessTorque = (speedRPM: number) =>
+    (interpolateEnvelope(result, speedRPM, pt => pt.torque) ?? 0) - mechanicalTorque(speedRPM) - evaluateLoadTorque(load, speedRPM);
+
+  const curve = points.map(pt => ({ speedRPM: pt.speedRPM, torque: evaluateLoadTorque(load, pt.speedRPM) }));
+
+  if (points.length === 0 || excessTorque(0) <= 0) {
+    return { curve, steadyState: null, stalled: true, runUp: [], targetTime: null };
+  }
+
+  let steadyState: LoadTablePoint | null = null;
+  for (let i = 1; i < points.length; i++) {
+    const before = excessTorque(points[i - 1].speedRPM);
+    const after = excessTorque(points[i].speedRPM);
+    if (after <= 0) {
+      const speedRPM = points[i - 1].speedRPM + (before / (before - after)) * (points[i].speedRPM - points[i - 1].speedRPM);
+      steadyState = { speedRPM, torque: evaluateLoadTorque(load, speedRPM) };
+      break;
+    }
+  }
+
+  // Beyond the simulated range the envelope is unknown, so without an intersection the run-up stops at the top speed
+  const endSpeed = steadyState ? steadyState.speedRPM * RUN_UP_END_RATIO : topSpeed;
+  const step = endSpeed / RUN_UP_STEPS;
+  const toOmega = (speedRPM: number) => speedRPM * 2 * Math.PI / 60;
+
+  const runUp: RunUpPoint[] = [{ time: 0, speedRPM: 0 }];
+  let targetTime: number | null = load.targetSpeed <= 0 ? 0 : null;
+  let time = 0;
+  const inertia = load.rotorInertia + load.loadInertia;
+  let previous = 1 / excessTorque(0);
+  for (let i = 1; i <= RUN_UP_STEPS; i++) {
+    const speedRPM = step * i;
+    const current = 1 / excessTorque(speedRPM);
+    if (!(current > 0) || !isFinite(current)) break;
+    const dt = inertia * toOmega(step) * (previous + current) / 2;
+    if (targetTime === null && speedRPM >= load.targetSpeed) {
+      const fraction = (load.targetSpeed - (speedRPM - step)) / step;
+      targetTime = time + dt * fraction;
+    }
+    time += dt;
+    previous = current;
+    runUp.push({ time, speedRPM });
+  }
+
+  return { curve, steadyState, stalled: false, runUp, targetTime };
+};
@@ -0,0 +1,37 @@
+import { MotorParams, LossBreakdown } from '../types';
+import { createFluxModel } from './fluxModel';
+import { applyTemperature } from './temperature';
+
+/**
+ * Calculates the loss breakdown of a single operating point.
+ *
+ * Copper loss:  Pcu = 1.5 · Rs · (id² + iq²)
+ * Iron loss:    Pfe = kh · f · ψ² + ke · f² · ψ²   (ψ = stator flux linkage magnitude, f = electrical Hz)
+ * Mechanical:   Pmech = Tf · ωm + kw · ωm³          (only when enabled)
+ */
+export const calculateLosses = (rawParams: MotorParams, speedRPM: number, id: number, iq: number): LossBreakdown => {
+  const params = applyTemperature(rawParams);
+  const { rs, p, ironLossHyst, ironLossEddy, enableMechanicalLoss, frictionTorque, windageCoeff } = params;
+
+  const omegaMech = Math.abs(speedRPM) * 2 * Math.PI / 60;
+  const freq = (omegaMech * p) / (2 * Math.PI);
+
+  const copper = 1.5 * rs * (id * id + iq * iq);
+
+  const fluxModel = createFluxModel(params);
+  const psiD = fluxModel.psiD(id, iq);
+  const psiQ = fluxModel.psiQ(id, iq);
+  const psiSq = psiD * psiD + psiQ * psiQ;
+  const iron = (ironLossHyst * freq + ironLossEddy * freq * freq) * psiSq;
+
+  const mechanical = enableMechanicalLoss
+    ? frictionTorque * omegaMech + windageCoeff * omegaMech * omegaMech * omegaMech
+    : 0;
+
+  return {
+    copper,
+    iron,
+    mechanical,
+    total: copper + iron + mechanical
+  };
+};
@@ -0,0 +1,136 @@
+import {
+  MotorParams,
+  SimulationResult,
+  MeasuredPoint,
+  MeasurementSet,
+  MeasurementChannel,
+  MeasurementComparison,
+  MeasurementComparisonRow
+} from '../types';
+import { CsvTable, ColumnMapping } from './csv';
+import { getVoltageLimit, interpolateEnvelope } from './motorPhysics';
+
+export type MeasurementColumn = 'speedRPM' | MeasurementChannel | 'id' | 'iq';
+
+// Normalized header aliases used to pre-fill the column mapping dialog
+export const MEASUREMENT_COLUMN_ALIASES: Record<MeasurementColumn, string[]> = {
+  speedRPM: ['speed', 'speedrpm', 'rpm', 'n', '转速'],
+  torque: ['torque', 'torquenm', 't', 'tq', '转矩', '扭矩'],
+  current: ['current', 'irms', 'i', 'phasecurrent', '电流'],
+  voltage: ['voltage', 'vrms', 'vll', 'u', 'v', '电压'],
+  power: ['power', 'powerkw', 'p', 'pout', '功率'],
+  id: ['id', 'idref', 'ida'],
+  iq: ['iq', 'iqref', 'iqa']
+};
+
+const CHANNELS: MeasurementChannel[] = ['torque', 'current', 'voltage', 'power'];
+
+/**
+ * Turns the mapped CSV columns into measurement points sorted by speed.
+ * Rows without a numeric speed and torque are skipped; optional channels are kept per row when numeric.
+ */
+export const buildMeasurementSet = (table: CsvTable, mapping: ColumnMapping, name: string): MeasurementSet => {
+  const speedCol = mapping.speedRPM;
+  const torqueCol = mapping.torque;
+  if (speedCol == null || torqueCol == null) {
+    throw new Error('Speed and torque columns are required');
+  }
+
+  const read = (row: string[], col: number | null | undefined) => {
+    if (col == null) return undefined;
+    const value = parseFloat(row[col]);
+    return isFinite(value) ? value : undefined;
+  };
+
+  const points: MeasuredPoint[] = [];
+  table.rows.forEach(row => {
+    const speedRPM = read(row, speedCol);
+    const torque = read(row, torqueCol);
+    if (speedRPM === undefined || torque === undefined) return;
+    const point: MeasuredPoint = { speedRPM, torque };
+    const current = read(row, mapping.current);
+    const voltage = read(row, mapping.voltage);
+    const power = read(row, mapping.power);
+    const id = read(row, mapping.id);
+    const iq = read(row, mapping.iq);
+    if (current !== undefined) point.current = current;
+    if (voltage !== undefined) point.voltage = voltage;
+    if (power !== undefined) point.power = power;
+    // The current vector is only usable when both components are present
+    if (id !== undefined && iq !== undefined) {
+      point.id = id;
+      point.iq = iq;
+    }
+    points.push(point);
+  });
+
+  if (points.length === 0) throw new Error('No rows with numeric speed and torque');
+  points.sort((a, b) => a.speedRPM - b.speedRPM);
+  return { name, points };
+};
+
+/**
+ * Compares every measured point with the predicted envelope at the same speed.
+ *
+ * Predicted current is the phase RMS value |is| / √2 and predicted voltage the
+ * line-to-line RMS value |vs| · √3 / √2, matching what power analyzers report.
+ */
+export const compareMeasurements = (
+  params: MotorParams,
+  result: SimulationResult,
+  measurement: MeasurementSet
+): MeasurementComparison => {
+  const vLim = getVoltageLimit(params);
+  const channels = CHANNELS.filter(ch => measurement.points.some(pt => pt[ch] !== undefined));
+
+  const predict = (speedRPM: number): Record<MeasurementChannel, number | null> => {
+    const current = interpolateEnvelope(result, speedRPM, pt => Math.hypot(pt.id, pt.iq));
+    const voltageIndex = interpolateEnvelope(result, speedRPM, pt => pt.voltageIndex);
+    return {
+      torque: interpolateEnvelope(result, speedRPM, pt => pt.torque),
+      current: current === null ? null : current / Math.SQRT2,
+      voltage: voltageIndex === null ? null : voltageIndex * vLim * Math.sqrt(3) / Math.SQRT2,
+      power: interpolateEnvelope(result, speedRPM, pt => pt.power)
+    };
+  };
+
+  const squared: Partial<Record<MeasurementChannel, number[]>> = {};
+  const squaredPct: Partial<Record<MeasurementChannel, number[]>> = {};
+
+  const rows = measurement.points.map((point): MeasurementComparisonRow => {
+    const predicted = predict(point.speedRPM);
+    const error: MeasurementComparisonRow['error'] = {};
+    const errorPct: MeasurementComparisonRow['errorPct'] = {};
+
+    channels.forEach(ch => {
+      const measured = point[ch];
+      const expected = predicted[ch];
+      if (measured === undefined) return;
+      // Beyond the simulated speed range the prediction is zero output
+      const diff = measured - (expected ?? 0);
+      error[ch] = diff;
+      (squared[ch] ??= []).push(diff * diff);
+      if (expected !== null && Math.abs(expected) > 1e-12) {
+        const pct = (diff / Math.abs(expected)) * 100;
+        errorPct[ch] = pct;
+        (squaredPct[ch] ??= []).push(pct * pct);
+      }
+    });
+
+    return { point, predicted, error, errorPct };
+  });
+
+  const rootMean = (values: number[] | undefined) =>
+    values && values.length > 0 ? Math.sqrt(values.reduce((sum, v) => sum + v, 0) / values.length) : undefined;
+
+  const rms: MeasurementComparison['rms'] = {};
+  const rmsPct: MeasurementComparison['rmsPct'] = {};
+  channels.forEach(ch => {
+    const value = rootMean(squared[ch]);
+    const pct = rootMean(squaredPct[ch]);
+    if (value !== undefined) rms[ch] = value;
+    if (pct !== undefined) rmsPct[ch] = pct;
+  });
+
+  return { channels, rows, rms, rmsPct };
+};
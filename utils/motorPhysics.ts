@@ -1,5 +1,55 @@
 
-import { MotorParams, SimulationPoint, SimulationResult } from '../types';
+import { MotorParams, ModulationScheme, SimulationPoint, SimulationResult, TemperatureCase, TorqueDirection, FourQuadrantResult, ModulationComparison } from '../types';
+import { createFluxModel, getFluxTorque, getFluxVoltageMag } from './fluxModel';
+import { SolverContext, solveStrategyPoint, solveOperatingPoint } from './controlSolver';
+import { applyTemperature } from './temperature';
+
+export const MODULATION_SCHEMES: ModulationScheme[] = ['spwm', 'svpwm', 'dpwm', 'overmodulation', 'sixStep'];
+
+// End of the SVPWM linear range as a modulation index M = V1 / (2·Vdc/π)
+export const SVPWM_MODULATION_INDEX = Math.PI / (2 * Math.sqrt(3));
+
+/**
+ * Fundamental phase voltage peak per volt of DC bus.
+ *
+ * SPWM:            Vdc/2
+ * SVPWM, DPWM:     Vdc/√3 (DPWM clamps one phase per sector but has the same linear range)
+ * Overmodulation:  M · 2·Vdc/π, M between the end of the linear range (0.907) and six-step (1)
+ * Six-step:        2·Vdc/π
+ */
+export const getModulationGain = (scheme: ModulationScheme, overmodulationIndex: number): number => {
+  switch (scheme) {
+    case 'spwm':
+      return 0.5;
+    case 'svpwm':
+    case 'dpwm':
+      return 1 / Math.sqrt(3);
+    case 'overmodulation':
+      return Math.min(1, Math.max(SVPWM_MODULATION_INDEX, overmodulationIndex)) * 2 / Math.PI;
+    case 'sixStep':
+      return 2 / Math.PI;
+  }
+};
+
+/**
+ * Phase voltage peak limit available from the inverter: the modulation ceiling times the utilization factor.
+ */
+export const getVoltageLimit = (params: MotorParams): number => {
+  return params.vdc * getModulationGain(params.modulation, params.overmodulationIndex) * params.voltageUtilization;
+};
+
+// Torque below this fraction of peak torque is treated as the end of the usable speed range
+const NEGLIGIBLE_TORQUE_RATIO = 0.01;
+
+// Upper bound for the max-speed search (RPM)
+const SPEED_SEARCH_LIMIT = 1e6;
+
+export const createSolverContext = (params: MotorParams, direction: TorqueDirection = 'motoring'): SolverContext => ({
+  params,
+  model: createFluxModel(params),
+  vLim: getVoltageLimit(params),
+  sign: direction === 'motoring' ? 1 : -1
+});
 
 /**
  * Calculates the theoretical maximum speed.
@@ -7,49 +57,65 @@ import { MotorParams, SimulationPoint, SimulationResult } from '../types';
  * If Flux Weakening is ENABLED:
  * Checks if the motor has infinite speed capability (Imax * Ld >= Psif).
  * If not, calculates the intersection of voltage ellipse and current limit circle at max FW.
+ * If so, the MTPV torque only decays with speed; the speed where it falls below
+ * 1% of peak torque is returned.
  * 
  * If Flux Weakening is DISABLED:
  * Calculates the no-load speed (Back EMF = Vlim).
  */
-export const calculateTheoreticalMaxSpeed = (params: MotorParams): number => {
-  const { vdc, voltageUtilization, psif, ld, imax, p, enableFluxWeakening } = params;
+export const calculateTheoreticalMaxSpeed = (rawParams: MotorParams): number => {
+  const params = applyTemperature(rawParams);
+  const { imax, p, enableFluxWeakening } = params;
+  const fluxModel = createFluxModel(params);
   
   // Phase Voltage Peak Limit
-  const vLim = (vdc / Math.sqrt(3)) * voltageUtilization;
+  const vLim = getVoltageLimit(params);
   
   // Case 1: Flux Weakening Disabled
   // The motor is limited by the natural Back EMF reaching the voltage limit.
   // Neglecting resistive drop at no-load (I=0): Vlim = omega * Psif
   if (!enableFluxWeakening) {
-    const maxRadS = vLim / psif;
+    const maxRadS = vLim / fluxModel.psiD(0, 0);
     const maxRPM = (maxRadS * 60) / (2 * Math.PI * p);
     // Round to nearest 100
     return Math.ceil(maxRPM / 100) * 100;
   }
 
   // Case 2: Flux Weakening Enabled
-  // Characteristic current (demagnetization current)
-  // The current required to completely nullify the PM flux.
-  const ich = psif / ld;
-  
+  // At max speed (Torque -> 0), Iq -> 0, and we use all current for flux weakening: Id = -Imax.
+  // Voltage equation approx (neglecting Rs): Vlim = w * |Lambda_d|
+  // Lambda_d = Psif + Ld*Id = Psif - Ld*Imax (or the flux map value at Id = -Imax when saturated)
+  const residualFlux = fluxModel.psiD(-imax, 0);
+
   // Infinite Speed Condition:
-  // If the inverter can push enough negative Id (-Imax) to completely oppose Psif,
-  // the net d-axis flux can be zero. The voltage ellipse center is inside the current limit circle.
-  if (imax >= ich) {
-    return 20000; // Return a high default value for simulation limit
+  // If the inverter can push enough negative Id (-Imax) to completely oppose Psif
+  // (Imax >= Ich = Psif / Ld), the net d-axis flux can be zero.
+  // The voltage ellipse center is inside the current limit circle.
+  if (residualFlux < 1e-9) {
+    const ctx = createSolverContext(params);
+    const basePoint = solveStrategyPoint(ctx, imax);
+    const threshold = getFluxTorque(fluxModel, p, basePoint.id, basePoint.iq) * NEGLIGIBLE_TORQUE_RATIO;
+    const torqueAt = (rpm: number) => {
+      const pt = solveOperatingPoint(ctx, (rpm * 2 * Math.PI / 60) * p, basePoint);
+      return getFluxTorque(fluxModel, p, pt.id, pt.iq);
+    };
+
+    // Bracket from the no-load speed upwards, then bisect
+    let low = (vLim / fluxModel.psiD(0, 0)) * 60 / (2 * Math.PI * p);
+    let high = low * 2;
+    while (torqueAt(high) > threshold && high < SPEED_SEARCH_LIMIT) {
+      low = high;
+      high *= 2;
+    }
+    for (let i = 0; i < 30; i++) {
+      const mid = (low + high) / 2;
+      if (torqueAt(mid) > threshold) low = mid; else high = mid;
+    }
+    return Math.ceil(Math.min(high, SPEED_SEARCH_LIMIT) / 100) * 100;
   }
 
   // Finite Max Speed Condition:
   // Current limit circle intersects with the voltage ellipse.
-  // At max speed (Torque -> 0), Iq -> 0, and we use all current for flux weakening: Id = -Imax.
-  // Voltage equation approx (neglecting Rs): Vlim = w * |Lambda_d|
-  // Lambda_d = Psif + Ld*Id = Psif - Ld*Imax
-  
-  const residualFlux = Math.abs(psif - ld * imax);
-  
-  // Avoid division by zero
-  if (residualFlux < 1e-9) return 20000;
-
   const maxRadS = vLim / residualFlux; // Electrical rad/s
   const maxRPM = (maxRadS * 60) / (2 * Math.PI * p);
   
@@ -59,16 +125,19 @@ export const calculateTheoreticalMaxSpeed = (params: MotorParams): number => {
 
 /**
  * Calculates the Torque-Speed curve based on PMSM parameters.
- * Implements MTPA (Max Torque Per Ampere) and Flux Weakening control logic approximations.
+ * Implements MTPA (Max Torque Per Ampere), Flux Weakening and MTPV (Max Torque Per Volt) control.
+ * The generating direction yields the negative-torque (braking) envelope at positive speed.
  */
-export const calculateMotorCharacteristics = (params: MotorParams): SimulationResult => {
-  const { rs, ld, lq, psif, p, vdc, voltageUtilization, imax, maxSpeed, controlStrategy, enableFluxWeakening } = params;
-  
-  // Voltage Limit (Phase Peak) with Utilization Factor
-  const vLim = (vdc / Math.sqrt(3)) * voltageUtilization;
+export const calculateMotorCharacteristics = (
+  rawParams: MotorParams,
+  direction: TorqueDirection = 'motoring'
+): SimulationResult => {
+  // Resistance and magnet flux at the operating temperatures
+  const params = applyTemperature(rawParams);
+  const { p, imax, maxSpeed } = params;
+  const ctx = createSolverContext(params, direction);
   
   const points: SimulationPoint[] = [];
-  let maxTorque = 0;
   let maxPower = 0;
   let baseSpeed = 0;
   let baseSpeedFound = false;
@@ -76,190 +145,48 @@ export const calculateMotorCharacteristics = (params: MotorParams): SimulationRe
   // Simulation resolution
   const stepRPM = Math.max(10, Math.ceil(maxSpeed / 100)); 
 
-  // --- Helper: Calculate Torque ---
-  const getTorque = (i_mag: number, rad: number) => {
-    const i_d = -i_mag * Math.sin(rad);
-    const i_q = i_mag * Math.cos(rad);
-    return 1.5 * p * (psif * i_q + (ld - lq) * i_d * i_q);
-  };
-
   // --- 1. Determine Constant Torque Region Operating Point ---
-  let betaStart = 0;
-  let maxT_static = 0;
-
-  if (controlStrategy === 'Id=0') {
-    // Force Id = 0 (Beta = 0)
-    betaStart = 0;
-    maxT_static = getTorque(imax, 0);
-  } else {
-    // MTPA Strategy
-    // Scan for optimal angle
-    for (let b = 0; b <= 90; b += 0.5) {
-      const rad = (b * Math.PI) / 180;
-      const t = getTorque(imax, rad);
-      if (t > maxT_static) {
-        maxT_static = t;
-        betaStart = rad;
-      }
-    }
-  }
-
-  // Define Base Operating Point currents
-  const id_base = -imax * Math.sin(betaStart);
-  const iq_base = imax * Math.cos(betaStart);
-  maxTorque = maxT_static;
+  // MTPA (closed form) or Id = 0 at the current limit
+  const basePoint = solveStrategyPoint(ctx, imax);
+  const maxTorque = getFluxTorque(ctx.model, p, basePoint.id, basePoint.iq);
 
   // --- 2. Generate Curve Points ---
   for (let rpm = 0; rpm <= maxSpeed; rpm += stepRPM) {
     const omega = (rpm * 2 * Math.PI / 60) * p; // Electrical rad/s
 
-    let currentId = id_base;
-    let currentIq = iq_base;
-    let currentBeta = betaStart;
+    const { id: currentId, iq: currentIq, region } = solveOperatingPoint(ctx, omega, basePoint);
 
-    // Helper: Calculate Voltage Magnitude
-    const getVoltageMag = (cId: number, cIq: number) => {
-        const vd = rs * cId - omega * lq * cIq;
-        const vq = rs * cIq + omega * (ld * cId + psif);
-        return Math.sqrt(vd * vd + vq * vq);
-    };
-
-    // Check voltage at base point
-    const vMag_base = getVoltageMag(id_base, iq_base);
-
-    if (vMag_base <= vLim) {
-      // Region 1: Constant Torque
-      // We can sustain the chosen strategy (MTPA or Id=0)
-    } else {
-      // Region 2: Flux Weakening or Natural Characteristics
-      // Voltage limit exceeded.
-      
-      if (!baseSpeedFound) {
-        baseSpeed = Math.max(0, rpm - stepRPM); // Previous step was safe
-        baseSpeedFound = true;
-      }
-
-      if (enableFluxWeakening) {
-        // Active Flux Weakening: Increase beta (more negative Id) to satisfy voltage limit
-        // Binary search for beta that satisfies V <= Vlim within current limit constraint
-        let low = currentBeta;
-        let high = Math.PI / 2; // 90 degrees
-        let optimalB = high;
-        let foundSolution = false;
-
-        for (let i = 0; i < 20; i++) {
-          const mid = (low + high) / 2;
-          const testId = -imax * Math.sin(mid);
-          const testIq = imax * Math.cos(mid);
-          
-          if (getVoltageMag(testId, testIq) <= vLim) {
-            foundSolution = true;
-            optimalB = mid;
-            high = mid; // Try to get closer to original angle (more torque) while safe
-          } else {
-            low = mid; // Need more FW
-          }
-        }
-
-        if (foundSolution) {
-          currentBeta = optimalB;
-          currentId = -imax * Math.sin(currentBeta);
-          currentIq = imax * Math.cos(currentBeta);
-        } else {
-          // Voltage cannot be satisfied even at full negative Id (or close to it)
-          currentId = 0;
-          currentIq = 0;
-        }
-      } else {
-        // Flux Weakening Disabled: Voltage Limited Mode (Natural Characteristic)
-        // We do not change the angle strategy actively to weaken flux.
-        // Instead, the current magnitude naturally drops as voltage is clamped.
-        // We find the maximum Current Magnitude that fits in Vlim given the strategy.
-        
-        let lowI = 0;
-        let highI = imax;
-        let validId = 0;
-        let validIq = 0;
-        let validBeta = 0;
-        
-        // Binary search for max feasible current magnitude
-        for (let i = 0; i < 15; i++) {
-            const midI = (lowI + highI) / 2;
-            let tBeta = 0;
-            
-            if (controlStrategy === 'Id=0') {
-                tBeta = 0;
-            } else {
-                // Find MTPA angle for this reduced current level
-                // Coarse scan followed by fine scan
-                let maxT_local = -1e9;
-                
-                // Coarse scan
-                for (let b = 0; b <= 90; b += 5) {
-                    const rad = (b * Math.PI) / 180;
-                    const t = 1.5 * p * (psif * (midI * Math.cos(rad)) + (ld - lq) * (-midI * Math.sin(rad)) * (midI * Math.cos(rad)));
-                    if (t > maxT_local) {
-                        maxT_local = t;
-                        tBeta = rad;
-                    }
-                }
-                
-                // Fine scan around best coarse
-                const bestDeg = tBeta * 180 / Math.PI;
-                for (let b = bestDeg - 4; b <= bestDeg + 4; b += 1) {
-                    const rad = (b * Math.PI) / 180;
-                    const t = 1.5 * p * (psif * (midI * Math.cos(rad)) + (ld - lq) * (-midI * Math.sin(rad)) * (midI * Math.cos(rad)));
-                    if (t > maxT_local) {
-                        maxT_local = t;
-                        tBeta = rad;
-                    }
-                }
-            }
-            
-            const tId = -midI * Math.sin(tBeta);
-            const tIq = midI * Math.cos(tBeta);
-            
-            if (getVoltageMag(tId, tIq) <= vLim) {
-                validId = tId;
-                validIq = tIq;
-                validBeta = tBeta;
-                lowI = midI; // Can potentially support more current
-            } else {
-                highI = midI; // Voltage too high, reduce current
-            }
-        }
-        
-        currentId = validId;
-        currentIq = validIq;
-        currentBeta = validBeta;
-      }
+    if (region !== 'constantTorque' && !baseSpeedFound) {
+      baseSpeed = Math.max(0, rpm - stepRPM); // Previous step was safe
+      baseSpeedFound = true;
     }
 
     // Calculate final torque and power for this point
-    const torque = 1.5 * p * (psif * currentIq + (ld - lq) * currentId * currentIq);
+    const torque = getFluxTorque(ctx.model, p, currentId, currentIq);
     const powerW = torque * (rpm * 2 * Math.PI / 60); // Mechanical power P = T * w_m
     const powerkW = powerW / 1000;
 
-    const vMag_final = getVoltageMag(currentId, currentIq);
+    const vMag_final = getFluxVoltageMag(ctx.model, params.rs, omega, currentId, currentIq);
     
-    // Safety clamp
-    const safeTorque = Math.max(0, torque);
-    const safePower = Math.max(0, powerkW);
+    // Safety clamp: torque and power never change sign within one direction
+    const safeTorque = ctx.sign * Math.max(0, ctx.sign * torque);
+    const safePower = ctx.sign * Math.max(0, ctx.sign * powerkW);
 
-    if (safePower > maxPower) maxPower = safePower;
+    if (Math.abs(safePower) > Math.abs(maxPower)) maxPower = safePower;
 
     points.push({
       speedRPM: rpm,
       torque: safeTorque,
       power: safePower,
-      voltageIndex: Math.min(1, vMag_final / vLim),
-      currentAngle: (currentBeta * 180) / Math.PI,
+      voltageIndex: Math.min(1, vMag_final / ctx.vLim),
+      currentAngle: (Math.atan2(-currentId, currentIq) * 180) / Math.PI,
       id: currentId,
-      iq: currentIq
+      iq: currentIq,
+      region
     });
 
     // If torque drops to effectively zero, stop simulation to keep chart clean
-    if (rpm > 100 && safeTorque < 0.01) break;
+    if (rpm > 100 && Math.abs(safeTorque) < 0.01) break;
   }
 
   return {
@@ -269,3 +196,108 @@ export const calculateMotorCharacteristics = (params: MotorParams): SimulationRe
     maxPower
   };
 };
+
+/**
+ * Computes the envelopes of all four quadrants.
+ *
+ * Forward motoring and braking are solved separately, since the Rs drop supports the
+ * back-EMF when motoring but opposes it when generating. Reverse speed is the point
+ * mirror (ω → −ω, iq → −iq leaves |v| unchanged), so Q3 mirrors Q1 and Q2 mirrors Q4.
+ */
+export const calculateFourQuadrantCharacteristics = (params: MotorParams): FourQuadrantResult => {
+  const motoring = calculateMotorCharacteristics(params, 'motoring');
+  const generating = calculateMotorCharacteristics(params, 'generating');
+
+  const mirror = (pts: SimulationPoint[]): SimulationPoint[] =>
+    pts.map(pt => ({
+      ...pt,
+      speedRPM: -pt.speedRPM,
+      torque: -pt.torque,
+      iq: -pt.iq,
+      currentAngle: (Math.atan2(-pt.id, -pt.iq) * 180) / Math.PI
+    }));
+
+  return {
+    motoring,
+    generating,
+    reverseMotoring: mirror(motoring.points),
+    reverseGenerating: mirror(generating.points)
+  };
+};
+
+/**
+ * Linearly interpolates any point quantity along the envelope at an arbitrary speed.
+ * Speeds below the first point take the first value; speeds beyond the last point return null.
+ */
+export const interpolateEnvelope = (
+  result: SimulationResult,
+  speedRPM: number,
+  valueOf: (point: SimulationPoint) => number
+): number | null => {
+  const { points } = result;
+  if (points.length === 0) return null;
+  if (speedRPM <= points[0].speedRPM) return valueOf(points[0]);
+
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const next = points[i];
+    if (speedRPM <= next.speedRPM) {
+      const ratio = (speedRPM - prev.speedRPM) / (next.speedRPM - prev.speedRPM);
+      return valueOf(prev) + (valueOf(next) - valueOf(prev)) * ratio;
+    }
+  }
+  return null;
+};
+
+/**
+ * Linearly interpolates the envelope torque at an arbitrary speed.
+ * Speeds beyond the last simulated point return 0 (outside the envelope).
+ */
+export const getEnvelopeTorque = (result: SimulationResult, speedRPM: number): number => {
+  return interpolateEnvelope(result, speedRPM, pt => pt.torque) ?? 0;
+};
+
+/**
+ * Computes T-N envelopes with winding and magnet at each of the given temperatures,
+ * and the drop of the key figures relative to the coldest case.
+ */
+export const calculateTemperatureSweep = (params: MotorParams, temperatures: number[]): TemperatureCase[] => {
+  const sorted = [...temperatures].sort((a, b) => a - b);
+  const results = sorted.map(temperature => ({
+    temperature,
+    result: calculateMotorCharacteristics({ ...params, windingTemp: temperature, magnetTemp: temperature })
+  }));
+  if (results.length === 0) return [];
+
+  const reference = results[0].result;
+  const drop = (value: number, ref: number) => ref > 0 ? ((ref - value) / ref) * 100 : 0;
+
+  return results.map(({ temperature, result }) => ({
+    temperature,
+    result,
+    maxTorqueDrop: drop(result.maxTorque, reference.maxTorque),
+    baseSpeedDrop: drop(result.baseSpeed, reference.baseSpeed),
+    maxPowerDrop: drop(result.maxPower, reference.maxPower)
+  }));
+};
+
+/**
+ * Computes the T-N envelope with every modulation scheme (same utilization and speed range)
+ * and the torque each one reaches in the field-weakening range of the selected scheme,
+ * halfway between its base speed and the last speed where it still produces torque.
+ */
+export const calculateModulationComparison = (params: MotorParams, active: SimulationResult): ModulationComparison => {
+  const lastDriven = active.points.reduce((last, pt) => (pt.torque > 0 ? pt.speedRPM : last), active.baseSpeed);
+  const referenceSpeed = (active.baseSpeed + lastDriven) / 2;
+  const cases = MODULATION_SCHEMES.map(scheme => {
+    const variant = { ...params, modulation: scheme };
+    const result = scheme === params.modulation ? active : calculateMotorCharacteristics(variant);
+    return {
+      scheme,
+      vLim: getVoltageLimit(variant),
+      result,
+      referenceTorque: getEnvelopeTorque(result, referenceSpeed)
+    };
+  });
+  return { referenceSpeed, cases };
+};
@@ -0,0 +1,54 @@
+import { MotorParams } from '../types';
+import { TRANSLATIONS } from '../constants';
+
+export type Translation = typeof TRANSLATIONS['en'];
+
+/**
+ * Form labels of the motor parameters, for the panels and the report that list parameter names.
+ */
+export const getParamLabels = (t: Translation): Record<keyof MotorParams, string> => ({
+  motorType: t.motorType,
+  controlStrategy: t.controlStrategy,
+  enableFluxWeakening: t.enableFw,
+  rs: t.statorResistance,
+  ld: t.dAxisInductance,
+  lq: t.qAxisInductance,
+  psif: t.fluxLinkage,
+  p: t.polePairs,
+  vdc: t.dcBusVoltage,
+  modulation: t.modulationScheme,
+  overmodulationIndex: t.overmodulationIndex,
+  voltageUtilization: t.voltageUtil,
+  imax: t.maxCurrent,
+  maxSpeed: t.maxSpeed,
+  ironLossHyst: t.ironLossHyst,
+  ironLossEddy: t.ironLossEddy,
+  enableMechanicalLoss: t.enableMechLoss,
+  frictionTorque: t.frictionTorque,
+  windageCoeff: t.windageCoeff,
+  enableSaturation: t.enableSaturation,
+  fluxMap: t.fluxMapHistory,
+  referenceTemp: t.referenceTemp,
+  windingTemp: t.windingTemp,
+  magnetTemp: t.magnetTemp,
+  copperTempCoeff: t.copperTempCoeff,
+  magnetTempCoeff: t.magnetTempCoeff,
+  ambientTemp: t.ambientTemp,
+  thermalResWinding: t.thermalResWinding,
+  thermalResMagnet: t.thermalResMagnet,
+  thermalResCooling: t.thermalResCooling,
+  thermalCapWinding: t.thermalCapWinding,
+  thermalCapMagnet: t.thermalCapMagnet,
+  thermalCapHousing: t.thermalCapHousing,
+  maxWindingTemp: t.maxWindingTemp,
+  maxMagnetTemp: t.maxMagnetTemp
+});
+
+// Compact display of a parameter value (4 significant digits, flux map by name)
+export const formatParamValue = (value: MotorParams[keyof MotorParams]): string => {
+  if (typeof value === 'number') return parseFloat(value.toPrecision(4)).toString();
+  if (typeof value === 'boolean') return value ? '✓' : '✗';
+  if (value === null) return '—';
+  if (typeof value === 'object') return value.name;
+  return value;
+};
@@ -0,0 +1,230 @@
+import { MotorParams, MeasuredPoint, FitParameter, FitEstimate, FitResidual, ParameterFitResult } from '../types';
+import { createFluxModel, getFluxTorque, getFluxVoltageMag } from './fluxModel';
+import { createSolverContext } from './motorPhysics';
+import { solveStrategyPoint } from './controlSolver';
+import { applyTemperature } from './temperature';
+
+export const FIT_PARAMETERS: FitParameter[] = ['rs', 'ld', 'lq', 'psif'];
+
+const MAX_ITERATIONS = 100;
+const SSR_TOLERANCE = 1e-12;
+const JACOBIAN_STEP = 1e-6; // Relative perturbation of the scaled parameters
+
+// Line-to-line RMS <-> phase peak (amplitude-invariant dq)
+const LL_RMS_PER_PHASE_PEAK = Math.sqrt(3) / Math.SQRT2;
+
+/**
+ * Points usable for identification: they need a current vector (id/iq) or a phase current.
+ */
+export const getFitPoints = (points: MeasuredPoint[]) =>
+  points.filter(pt => (pt.id !== undefined && pt.iq !== undefined) || pt.current !== undefined);
+
+// Current vector of a usable point: measured id/iq, else the phase current at the strategy's angle
+const getPointCurrent = (pt: MeasuredPoint, ctx: ReturnType<typeof createSolverContext>) => {
+  if (pt.id !== undefined && pt.iq !== undefined) return { id: pt.id, iq: pt.iq };
+  if (pt.current !== undefined) return solveStrategyPoint(ctx, pt.current * Math.SQRT2);
+  throw new Error('Point has neither id/iq nor a phase current');
+};
+
+// Solves A·x = b for a small dense system (Gaussian elimination with partial pivoting)
+const solveLinear = (a: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    if (Math.abs(m[pivot][col]) < 1e-14) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= factor * m[col][c];
+    }
+  }
+  return m.map((row, i) => row[n] / row[i]);
+};
+
+const invert = (a: number[][]): number[][] | null => {
+  const n = a.length;
+  const columns: number[][] = [];
+  for (let i = 0; i < n; i++) {
+    const col = solveLinear(a, a.map((_, r) => (r === i ? 1 : 0)));
+    if (!col) return null;
+    columns.push(col);
+  }
+  return a.map((_, r) => columns.map(col => col[r]));
+};
+
+// Two-sided 97.5% quantile of Student's t (Cornish-Fisher expansion around the normal quantile)
+const studentT975 = (dof: number) => {
+  const z = 1.959964;
+  return z + (z ** 3 + z) / (4 * dof) + (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * dof * dof);
+};
+
+/**
+ * Least-squares identification of Rs, Ld, Lq and ψf from measured operating points (Levenberg-Marquardt).
+ *
+ * Residuals per point, each normalized by the RMS of the measured channel:
+ *   torque   T = 1.5 · p · [ψf·iq + (Ld − Lq)·id·iq]
+ *   voltage  |vs| from the steady-state dq voltage equations (only when measured)
+ *
+ * Points without id/iq use the phase current with the current angle of the selected
+ * control strategy, so they should lie in the constant-torque region.
+ * The fit runs at operating temperature with the linear (unsaturated) model;
+ * the returned `fitted` values and the estimates are referred back to the reference temperature.
+ */
+export const fitMotorParameters = (
+  rawParams: MotorParams,
+  points: MeasuredPoint[],
+  keys: FitParameter[]
+): ParameterFitResult => {
+  const usable = getFitPoints(points);
+  if (keys.length === 0) throw new Error('Select at least one parameter to fit');
+  if (usable.length === 0) throw new Error('No measured points with id/iq or phase current');
+
+  const base: MotorParams = { ...applyTemperature(rawParams), enableSaturation: false };
+  const initial = keys.map(key => base[key]);
+  if (initial.some(v => !(v > 0))) throw new Error('Starting values must be positive');
+
+  const torqueScale = Math.sqrt(usable.reduce((sum, pt) => sum + pt.torque * pt.torque, 0) / usable.length) || 1;
+  const measuredVoltages = usable.flatMap(pt => (pt.voltage !== undefined ? [pt.voltage] : []));
+  const voltageScale = measuredVoltages.length > 0
+    ? Math.sqrt(measuredVoltages.reduce((sum, v) => sum + v * v, 0) / measuredVoltages.length) || 1
+    : 1;
+
+  // Parameters are fitted as ratios to their starting values to keep the problem well scaled
+  const toParams = (x: number[]): MotorParams => {
+    const candidate = { ...base };
+    keys.forEach((key, i) => { candidate[key] = initial[i] * x[i]; });
+    if (candidate.motorType === 'SPMSM' && !keys.includes('lq')) candidate.lq = candidate.ld;
+    return candidate;
+  };
+
+  const evaluate = (candidate: MotorParams): FitResidual[] => {
+    const model = createFluxModel(candidate);
+    const ctx = createSolverContext(candidate);
+    return usable.map(pt => {
+      const current = getPointCurrent(pt, ctx);
+      const omega = (pt.speedRPM * 2 * Math.PI / 60) * candidate.p;
+      const residual: FitResidual = {
+        speedRPM: pt.speedRPM,
+        torque: pt.torque - getFluxTorque(model, candidate.p, current.id, current.iq)
+      };
+      if (pt.voltage !== undefined) {
+        residual.voltage = pt.voltage - getFluxVoltageMag(model, candidate.rs, omega, current.id, current.iq) * LL_RMS_PER_PHASE_PEAK;
+      }
+      return residual;
+    });
+  };
+
+  const residualVector = (x: number[]) => evaluate(toParams(x)).flatMap(r => [
+    r.torque / torqueScale,
+    ...(r.voltage !== undefined ? [r.voltage / voltageScale] : [])
+  ]);
+  const sumSquares = (r: number[]) => r.reduce((sum, v) => sum + v * v, 0);
+
+  const jacobian = (x: number[], r0: number[]) => {
+    const columns = x.map((_, j) => {
+      const h = JACOBIAN_STEP * Math.max(1, Math.abs(x[j]));
+      const shifted = [...x];
+      shifted[j] += h;
+      return residualVector(shifted).map((v, i) => (v - r0[i]) / h);
+    });
+    return r0.map((_, i) => columns.map(col => col[i]));
+  };
+
+  const normalMatrix = (jac: number[][]) =>
+    keys.map((_, a) => keys.map((__, b) => jac.reduce((sum, row) => sum + row[a] * row[b], 0)));
+
+  let x = keys.map(() => 1);
+  let r = residualVector(x);
+  let ssr = sumSquares(r);
+  let lambda = 1e-3;
+  let iterations = 0;
+  let converged = false;
+
+  while (iterations < MAX_ITERATIONS && !converged) {
+    iterations++;
+    const jac = jacobian(x, r);
+    const jtj = normalMatrix(jac);
+    const jtr = keys.map((_, a) => jac.reduce((sum, row, i) => sum + row[a] * r[i], 0));
+
+    let improved = false;
+    while (lambda < 1e12) {
+      const damped = jtj.map((row, a) => row.map((v, b) => (a === b ? v + lambda * Math.max(v, 1e-12) : v)));
+      const step = solveLinear(damped, jtr.map(v => -v));
+      const trial = step ? x.map((v, i) => v + step[i]) : null;
+      if (step && trial && trial.every(v => v > 0)) {
+        const trialR = residualVector(trial);
+        const trialSsr = sumSquares(trialR);
+        if (isFinite(trialSsr) && trialSsr < ssr) {
+          converged = (ssr - trialSsr) <= SSR_TOLERANCE * Math.max(ssr, 1e-30)
+            || step.every((s, i) => Math.abs(s) <= 1e-10 * Math.abs(trial[i]));
+          x = trial;
+          r = trialR;
+          ssr = trialSsr;
+          lambda = Math.max(lambda / 10, 1e-12);
+          improved = true;
+          break;
+        }
+      }
+      lambda *= 10;
+    }
+    // No downhill step left: at a (local) minimum
+    if (!improved) converged = true;
+  }
+
+  // Covariance of the scaled parameters: s² · (JᵀJ)⁻¹
+  const dof = r.length - keys.length;
+  const covariance = dof > 0 ? invert(normalMatrix(jacobian(x, r))) : null;
+  const variance = dof > 0 ? ssr / dof : 0;
+  const tValue = dof > 0 ? studentT975(dof) : 0;
+
+  // Undo the temperature correction so the values can be stored in MotorParams
+  const rsFactor = base.rs / (rawParams.rs || 1);
+  const fluxFactor = base.psif / (rawParams.psif || 1);
+  const referenceFactors: Record<FitParameter, number> = {
+    rs: rsFactor > 0 ? rsFactor : 1,
+    ld: 1,
+    lq: 1,
+    psif: fluxFactor > 0 ? fluxFactor : 1
+  };
+
+  // Reported at the reference temperature, like the values `fitted` writes into the design
+  const estimates: FitEstimate[] = keys.map((key, i) => {
+    const diag = covariance ? covariance[i][i] : NaN;
+    const scale = initial[i] / referenceFactors[key];
+    return {
+      key,
+      initial: scale,
+      value: scale * x[i],
+      ci95: isFinite(diag) && diag >= 0 ? tValue * Math.sqrt(variance * diag) * scale : null
+    };
+  });
+
+  const rms = (residuals: FitResidual[]) => {
+    const voltages = residuals.flatMap(res => (res.voltage !== undefined ? [res.voltage] : []));
+    return {
+      torque: Math.sqrt(residuals.reduce((sum, res) => sum + res.torque * res.torque, 0) / residuals.length),
+      ...(voltages.length > 0 ? { voltage: Math.sqrt(voltages.reduce((sum, v) => sum + v * v, 0) / voltages.length) } : {})
+    };
+  };
+
+  const fittedParams = toParams(x);
+  const residuals = evaluate(fittedParams);
+
+  return {
+    estimates,
+    residuals,
+    rmsBefore: rms(evaluate(base)),
+    rmsAfter: rms(residuals),
+    iterations,
+    converged,
+    fitted: {
+      rs: fittedParams.rs / referenceFactors.rs,
+      ld: fittedParams.ld,
+      lq: fittedParams.lq,
+      psif: fittedParams.psif / referenceFactors.psif
+    }
+  };
+};
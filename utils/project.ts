@@ -0,0 +1,207 @@
+import { ChartSettings, Design, FluxMap, Language, MotorParams, ProjectFile, ResultsView } from '../types';
+import { DEFAULT_CHART_SETTINGS, DEFAULT_PARAMS, SERIES_PALETTE } from '../constants';
+import { MODULATION_SCHEMES, SVPWM_MODULATION_INDEX } from './motorPhysics';
+
+/**
+ * Current project file schema.
+ *
+ * Version history:
+ *   0  A bare MotorParams object (e.g. copied out of the dev tools)
+ *   1  Workspace of named designs with language, chart settings and notes
+ *   2  Modulation scheme per design; voltageUtilization is relative to the scheme's ceiling
+ *
+ * Bump this whenever the stored shape changes and add a step to MIGRATIONS.
+ */
+export const PROJECT_SCHEMA_VERSION = 2;
+
+export const AUTOSAVE_KEY = 'pmsm-analyzer.project';
+
+const RESULTS_VIEWS: ResultsView[] = ['curve', 'fourQuadrant', 'efficiency', 'currentPlane'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version n document to version n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  0: params => ({
+    schemaVersion: 1,
+    name: '',
+    language: 'en',
+    designs: [{ id: 'design-1', name: 'Design 1', color: SERIES_PALETTE[0], visible: true, params }],
+    activeDesignId: 'design-1',
+    baselineDesignId: 'design-1',
+    chartSettings: DEFAULT_CHART_SETTINGS,
+    notes: ''
+  }),
+  // Utilization used to be a fraction of Vdc/√3, which is the SVPWM ceiling
+  1: data => ({
+    ...data,
+    schemaVersion: 2,
+    designs: Array.isArray(data.designs)
+      ? data.designs.map((design: unknown) => (isObject(design) && isObject(design.params)
+        ? { ...design, params: { ...design.params, modulation: 'svpwm' } }
+        : design))
+      : data.designs
+  })
+};
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'number');
+
+const isNumberTable = (value: unknown): value is number[][] =>
+  Array.isArray(value) && value.every(isNumberArray);
+
+type NumberParam = { [K in keyof MotorParams]: MotorParams[K] extends number ? K : never }[keyof MotorParams];
+type BooleanParam = { [K in keyof MotorParams]: MotorParams[K] extends boolean ? K : never }[keyof MotorParams];
+
+const PARAM_KEYS = Object.keys(DEFAULT_PARAMS) as (keyof MotorParams)[];
+const NUMBER_PARAMS = PARAM_KEYS.filter((key): key is NumberParam => typeof DEFAULT_PARAMS[key] === 'number');
+const BOOLEAN_PARAMS = PARAM_KEYS.filter((key): key is BooleanParam => typeof DEFAULT_PARAMS[key] === 'boolean');
+
+const normalizeFluxMap = (raw: unknown): FluxMap | null => {
+  if (!isObject(raw)) return null;
+  const { name, kind, idAxis, iqAxis, d, q } = raw;
+  if ((kind !== 'flux' && kind !== 'inductance') || !isNumberArray(idAxis) || !isNumberArray(iqAxis)) return null;
+  if (!isNumberTable(d) || !isNumberTable(q)) return null;
+  if (d.length !== iqAxis.length || d.some(row => row.length !== idAxis.length)) return null;
+  if (q.length !== iqAxis.length || q.some(row => row.length !== idAxis.length)) return null;
+  return { name: typeof name === 'string' ? name : '', kind, idAxis, iqAxis, d, q };
+};
+
+/**
+ * Fills fields missing from older files with their defaults and drops values of the wrong type.
+ */
+export const normalizeParams = (raw: unknown): MotorParams => {
+  if (!isObject(raw)) throw new Error('Motor parameters must be a JSON object');
+  const params: MotorParams = { ...DEFAULT_PARAMS, fluxMap: normalizeFluxMap(raw.fluxMap) };
+  NUMBER_PARAMS.forEach(key => {
+    const value = raw[key];
+    if (typeof value === 'number' && isFinite(value)) params[key] = value;
+  });
+  BOOLEAN_PARAMS.forEach(key => {
+    const value = raw[key];
+    if (typeof value === 'boolean') params[key] = value;
+  });
+  if (raw.motorType === 'IPMSM' || raw.motorType === 'SPMSM') params.motorType = raw.motorType;
+  if (raw.controlStrategy === 'MTPA' || raw.controlStrategy === 'Id=0') params.controlStrategy = raw.controlStrategy;
+  params.modulation = MODULATION_SCHEMES.find(scheme => scheme === raw.modulation) ?? DEFAULT_PARAMS.modulation;
+  params.overmodulationIndex = Math.min(1, Math.max(SVPWM_MODULATION_INDEX, params.overmodulationIndex));
+  if (!params.fluxMap) params.enableSaturation = false;
+  return params;
+};
+
+const normalizeChartSettings = (raw: unknown): ChartSettings => {
+  const settings: ChartSettings = { ...DEFAULT_CHART_SETTINGS };
+  if (!isObject(raw)) return settings;
+  settings.view = RESULTS_VIEWS.find(view => view === raw.view) ?? settings.view;
+  if (typeof raw.showFormulas === 'boolean') settings.showFormulas = raw.showFormulas;
+  if (typeof raw.compareSaturation === 'boolean') settings.compareSaturation = raw.compareSaturation;
+  if (typeof raw.showTemperatureSweep === 'boolean') settings.showTemperatureSweep = raw.showTemperatureSweep;
+  if (typeof raw.compareModulation === 'boolean') settings.compareModulation = raw.compareModulation;
+  if (typeof raw.sweepTemperatures === 'string') settings.sweepTemperatures = raw.sweepTemperatures;
+  if (typeof raw.showThermalEnvelopes === 'boolean') settings.showThermalEnvelopes = raw.showThermalEnvelopes;
+  if (typeof raw.peakDurations === 'string') settings.peakDurations = raw.peakDurations;
+  return settings;
+};
+
+const normalizeDesigns = (raw: unknown): Design[] => {
+  if (!Array.isArray(raw) || raw.length === 0) throw new Error('Project contains no designs');
+  const usedIds = new Set<string>();
+  return raw.map((entry, idx) => {
+    if (!isObject(entry)) throw new Error(`Design ${idx + 1} is not a JSON object`);
+    let id = typeof entry.id === 'string' && entry.id ? entry.id : `design-${idx + 1}`;
+    while (usedIds.has(id)) id = `${id}-${idx + 1}`;
+    usedIds.add(id);
+    return {
+      id,
+      name: typeof entry.name === 'string' ? entry.name : `Design ${idx + 1}`,
+      color: typeof entry.color === 'string' && /^#[0-9a-f]{6}$/i.test(entry.color)
+        ? entry.color
+        : SERIES_PALETTE[idx % SERIES_PALETTE.length],
+      visible: typeof entry.visible === 'boolean' ? entry.visible : true,
+      params: normalizeParams(entry.params)
+    };
+  });
+};
+
+/**
+ * Parses a project file of any known schema version into the current shape.
+ * Throws an Error describing the problem when the file cannot be used.
+ */
+export const parseProject = (text: string): ProjectFile => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  if (!isObject(parsed)) throw new Error('Project file must contain a JSON object');
+  let data = parsed;
+
+  let version = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`Project was saved by a newer version (schema ${version}, supported up to ${PROJECT_SCHEMA_VERSION})`);
+  }
+  while (version < PROJECT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Unsupported project schema version ${version}`);
+    data = migrate(data);
+    version += 1;
+  }
+
+  const designs = normalizeDesigns(data.designs);
+  const hasDesign = (id: unknown): id is string => designs.some(d => d.id === id);
+  const language: Language = data.language === 'zh' ? 'zh' : 'en';
+
+  return {
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    name: typeof data.name === 'string' ? data.name : '',
+    savedAt: typeof data.savedAt === 'string' ? data.savedAt : '',
+    language,
+    designs,
+    activeDesignId: hasDesign(data.activeDesignId) ? data.activeDesignId : designs[0].id,
+    baselineDesignId: hasDesign(data.baselineDesignId) ? data.baselineDesignId : designs[0].id,
+    chartSettings: normalizeChartSettings(data.chartSettings),
+    notes: typeof data.notes === 'string' ? data.notes : ''
+  };
+};
+
+/**
+ * Serializes a project with stable key order and indentation so files diff cleanly in git.
+ */
+export const serializeProject = (project: Omit<ProjectFile, 'schemaVersion' | 'savedAt'>): string => {
+  const file: ProjectFile = {
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    name: project.name,
+    savedAt: new Date().toISOString(),
+    language: project.language,
+    designs: project.designs,
+    activeDesignId: project.activeDesignId,
+    baselineDesignId: project.baselineDesignId,
+    chartSettings: project.chartSettings,
+    notes: project.notes
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Reads the autosaved project, or null when there is none or it cannot be parsed.
+ */
+export const loadAutosave = (): ProjectFile | null => {
+  try {
+    const text = localStorage.getItem(AUTOSAVE_KEY);
+    return text ? parseProject(text) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const writeAutosave = (text: string) => {
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, text);
+  } catch {
+    // Storage full or disabled (private mode); autosave is best effort
+  }
+};
@@ -0,0 +1,71 @@
+import { MotorParams, SweepAxis, SweepParameter, SweepSettings, SweepResult } from '../types';
+import { calculateMotorCharacteristics } from './motorPhysics';
+
+export const SWEEP_PARAMETERS: SweepParameter[] = [
+  'vdc',
+  'voltageUtilization',
+  'imax',
+  'psif',
+  'ld',
+  'lq',
+  'rs',
+  'windingTemp',
+  'magnetTemp'
+];
+
+// Bounds that keep a run responsive
+export const MAX_SWEEP_STEPS = 50;
+export const MAX_SWEEP_RUNS = 2500;
+
+/**
+ * Evenly spaced values from `from` to `to`, both included.
+ */
+export const getSweepValues = (axis: SweepAxis): number[] => {
+  if (axis.steps <= 1) return [axis.from];
+  return Array.from({ length: axis.steps }, (_, i) => axis.from + ((axis.to - axis.from) * i) / (axis.steps - 1));
+};
+
+/**
+ * Sets one swept field. Ld and Lq move together for SPMSM so the motor stays non-salient.
+ */
+const isInductance = (key: SweepParameter) => key === 'ld' || key === 'lq';
+
+const applySweepValue = (params: MotorParams, key: SweepParameter, value: number): MotorParams => {
+  if (params.motorType === 'SPMSM' && isInductance(key)) return { ...params, ld: value, lq: value };
+  return { ...params, [key]: value };
+};
+
+const validateAxis = (axis: SweepAxis) => {
+  if (!Number.isInteger(axis.steps) || axis.steps < 1 || axis.steps > MAX_SWEEP_STEPS) {
+    throw new Error(`Steps must be a whole number from 1 to ${MAX_SWEEP_STEPS}`);
+  }
+  if (!isFinite(axis.from) || !isFinite(axis.to)) throw new Error('Sweep range must be numeric');
+};
+
+/**
+ * Computes the T-N envelope at every combination of the swept values.
+ * One field gives a single row (a curve family), two fields a grid for heatmaps of the scalar outputs.
+ */
+export const runSweep = (params: MotorParams, settings: SweepSettings): SweepResult => {
+  const { primary, useSecondary } = settings;
+  const secondary = useSecondary ? settings.secondary : null;
+  validateAxis(primary);
+  if (secondary) {
+    validateAxis(secondary);
+    if (secondary.key === primary.key) throw new Error('Pick two different fields');
+    // The second axis would overwrite the first, leaving one axis without effect
+    if (params.motorType === 'SPMSM' && isInductance(primary.key) && isInductance(secondary.key)) {
+      throw new Error('Ld and Lq are one inductance on an SPMSM; sweep only one of them');
+    }
+    if (primary.steps * secondary.steps > MAX_SWEEP_RUNS) throw new Error(`At most ${MAX_SWEEP_RUNS} combinations per run`);
+  }
+
+  const xValues = getSweepValues(primary);
+  const yValues = secondary ? getSweepValues(secondary) : [params[primary.key]];
+  const results = yValues.map(y => {
+    const row = secondary ? applySweepValue(params, secondary.key, y) : params;
+    return xValues.map(x => calculateMotorCharacteristics(applySweepValue(row, primary.key, x)));
+  });
+
+  return { primary, secondary, xValues, yValues, results };
+};
@@ -0,0 +1,38 @@
+import { MotorParams } from '../types';
+
+/**
+ * Returns the parameters at their operating temperature.
+ *
+ * Rs(T)  = Rs,ref · (1 + αcu · (Tw − Tref))
+ * ψf(T)  = ψf,ref · (1 + αBr · (Tm − Tref))
+ *
+ * For a ψd/ψq flux map the magnet share ψd(0, 0) of every ψd entry is scaled the same way.
+ * The returned parameters have both temperatures set to the reference temperature,
+ * so applying the correction twice is a no-op.
+ */
+export const applyTemperature = (params: MotorParams): MotorParams => {
+  const { rs, psif, fluxMap, referenceTemp, windingTemp, magnetTemp, copperTempCoeff, magnetTempCoeff } = params;
+
+  if (windingTemp === referenceTemp && magnetTemp === referenceTemp) return params;
+
+  const rsFactor = 1 + (copperTempCoeff / 100) * (windingTemp - referenceTemp);
+  const fluxFactor = 1 + (magnetTempCoeff / 100) * (magnetTemp - referenceTemp);
+
+  let adjustedMap = fluxMap;
+  if (fluxMap && fluxMap.kind === 'flux') {
+    // Magnet flux at zero current, taken from the table itself
+    const zeroIdx = fluxMap.idAxis.reduce((best, v, i) => Math.abs(v) < Math.abs(fluxMap.idAxis[best]) ? i : best, 0);
+    const zeroIq = fluxMap.iqAxis.reduce((best, v, j) => Math.abs(v) < Math.abs(fluxMap.iqAxis[best]) ? j : best, 0);
+    const magnetShift = fluxMap.d[zeroIq][zeroIdx] * (fluxFactor - 1);
+    adjustedMap = { ...fluxMap, d: fluxMap.d.map(row => row.map(v => v + magnetShift)) };
+  }
+
+  return {
+    ...params,
+    rs: rs * Math.max(0, rsFactor),
+    psif: psif * Math.max(0, fluxFactor),
+    fluxMap: adjustedMap,
+    windingTemp: referenceTemp,
+    magnetTemp: referenceTemp
+  };
+};
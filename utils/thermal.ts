@@ -0,0 +1,184 @@
+import { MotorParams, LossBreakdown, ThermalEnvelope, ThermalPoint, ThermalLimit } from '../types';
+import { calculateMotorCharacteristics } from './motorPhysics';
+import { solveMinLossPoint } from './efficiencyMap';
+
+// Speed points per thermal envelope
+const THERMAL_SPEED_STEPS = 40;
+// Bisection steps of the torque at each speed
+const TORQUE_ITERATIONS = 20;
+// The transient is stepped 2^n times (Crank-Nicolson, squared up)
+const TRANSIENT_DOUBLINGS = 12;
+// Solutions per speed with Rs and ψf updated to the reached temperatures
+const TEMPERATURE_PASSES = 3;
+
+// Node order: winding, magnet (rotor), housing (stator core and frame)
+type Vector3 = [number, number, number];
+type Matrix3 = number[][];
+
+const multiply = (a: Matrix3, b: Matrix3): Matrix3 =>
+  a.map(row => b[0].map((_, j) => row.reduce((sum, v, k) => sum + v * b[k][j], 0)));
+
+const invert = (m: Matrix3): Matrix3 => {
+  const [[a, b, c], [d, e, f], [g, h, i]] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  return [
+    [(e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det],
+    [(f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det],
+    [(d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det]
+  ];
+};
+
+const identity = (): Matrix3 => [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+
+const validateNetwork = (params: MotorParams) => {
+  const { thermalResWinding, thermalResMagnet, thermalResCooling, thermalCapWinding, thermalCapMagnet, thermalCapHousing } = params;
+  if (!([thermalResWinding, thermalResMagnet, thermalResCooling].every(r => r > 0))) {
+    throw new Error('Thermal resistances must be positive');
+  }
+  if (!([thermalCapWinding, thermalCapMagnet, thermalCapHousing].every(c => c > 0))) {
+    throw new Error('Heat capacities must be positive');
+  }
+};
+
+/**
+ * Heat input of each node: copper loss in the winding, friction and windage in the rotor,
+ * iron loss in the stator core (housing node). Magnet eddy-current loss is not modelled.
+ */
+const nodeLosses = (losses: LossBreakdown): Vector3 => [losses.copper, losses.mechanical, losses.iron];
+
+/**
+ * Steady-state temperature rise over ambient of each node:
+ *   ΔTh = (Pw + Pm + Ph) · Rcool,  ΔTw = ΔTh + Pw · Rw,  ΔTm = ΔTh + Pm · Rm
+ */
+const steadyStateRise = (params: MotorParams, [pw, pm, ph]: Vector3): Vector3 => {
+  const housing = (pw + pm + ph) * params.thermalResCooling;
+  return [housing + pw * params.thermalResWinding, housing + pm * params.thermalResMagnet, housing];
+};
+
+/**
+ * State transition Φ(t) = exp(A·t) of the network C·dT/dt = −G·T + P, so that with
+ * constant losses the rise from cold is ΔT(t) = (I − Φ(t)) · ΔTss.
+ * Evaluated as the Crank-Nicolson step matrix raised to 2^n by repeated squaring.
+ */
+const transitionMatrix = (params: MotorParams, duration: number): Matrix3 => {
+  const gw = 1 / params.thermalResWinding;
+  const gm = 1 / params.thermalResMagnet;
+  const gc = 1 / params.thermalResCooling;
+  const capacity = [params.thermalCapWinding, params.thermalCapMagnet, params.thermalCapHousing];
+  const conductance = [[gw, 0, -gw], [0, gm, -gm], [-gw, -gm, gw + gm + gc]];
+  const h = duration / 2 ** TRANSIENT_DOUBLINGS;
+  // (I ∓ h·A/2) with A = −C⁻¹·G
+  const half = (sign: number) => identity().map((row, i) =>
+    row.map((v, j) => v - sign * (h / 2) * conductance[i][j] / capacity[i]));
+  let phi = multiply(invert(half(-1)), half(1));
+  for (let i = 0; i < TRANSIENT_DOUBLINGS; i++) phi = multiply(phi, phi);
+  return phi;
+};
+
+/**
+ * Torque-speed envelope limited by the winding and magnet temperatures.
+ *
+ * At each speed the torque is bisected for the largest value whose loss-optimal operating point
+ * keeps both nodes within their limits, either in steady state (duration null, S1) or after running
+ * the given time from ambient (S2). Rs and ψf follow the node temperatures: the losses are first
+ * evaluated with both nodes at their limits, then with the temperatures the previous pass reached.
+ * Torque beyond the current and voltage limits is never reached, so short durations end on the peak envelope.
+ */
+export const calculateThermalEnvelope = (params: MotorParams, duration: number | null): ThermalEnvelope => {
+  validateNetwork(params);
+  const { ambientTemp, maxWindingTemp, maxMagnetTemp } = params;
+  const phi = duration === null ? null : transitionMatrix(params, duration);
+
+  const rise = (losses: LossBreakdown): Vector3 => {
+    const ss = steadyStateRise(params, nodeLosses(losses));
+    if (!phi) return ss;
+    return ss.map((v, i) => v - phi[i].reduce((sum, p, j) => sum + p * ss[j], 0)) as Vector3;
+  };
+
+  // Node temperatures of the loss-optimal point, null when the torque is beyond the peak envelope
+  const evaluate = (heated: MotorParams, rpm: number, torque: number) => {
+    const point = solveMinLossPoint(heated, rpm, torque);
+    if (!point) return null;
+    const [riseW, riseM] = rise(point.losses);
+    return { windingTemp: ambientTemp + riseW, magnetTemp: ambientTemp + riseM };
+  };
+  type NodeTemps = ReturnType<typeof evaluate>;
+  const withinLimits = (temps: NodeTemps) =>
+    temps !== null && temps.windingTemp <= maxWindingTemp && temps.magnetTemp <= maxMagnetTemp;
+  // The node over its limit, or the peak envelope when the torque cannot be produced at all
+  const limitOf = (temps: NodeTemps): ThermalLimit =>
+    temps === null ? 'peak' : temps.windingTemp > maxWindingTemp ? 'winding' : 'magnet';
+
+  // Speed range and bisection bracket from the envelopes at both temperature extremes
+  const cold = calculateMotorCharacteristics({ ...params, windingTemp: ambientTemp, magnetTemp: ambientTemp });
+  const hot = calculateMotorCharacteristics({ ...params, windingTemp: maxWindingTemp, magnetTemp: maxMagnetTemp });
+  const lastSpeed = Math.max(
+    ...[cold, hot].map(result => result.points.reduce((last, pt) => (pt.torque > 0 ? pt.speedRPM : last), 0))
+  );
+  const torqueBound = Math.max(cold.maxTorque, hot.maxTorque) * 1.5;
+
+  const solveSpeed = (heated: MotorParams, rpm: number): { torque: number; temps: NodeTemps; limit: ThermalLimit } => {
+    let low = 0;
+    let high = torqueBound;
+    let lowTemps = evaluate(heated, rpm, 0);
+    let highTemps: NodeTemps = null;
+    if (!withinLimits(lowTemps)) {
+      // Iron and mechanical loss alone overheat the motor at this speed
+      return { torque: 0, temps: lowTemps, limit: limitOf(lowTemps) };
+    }
+    for (let i = 0; i < TORQUE_ITERATIONS; i++) {
+      const mid = (low + high) / 2;
+      const midTemps = evaluate(heated, rpm, mid);
+      if (withinLimits(midTemps)) {
+        low = mid;
+        lowTemps = midTemps;
+      } else {
+        high = mid;
+        highTemps = midTemps;
+      }
+    }
+    return { torque: low, temps: lowTemps, limit: limitOf(highTemps) };
+  };
+
+  const points: ThermalPoint[] = [];
+  for (let step = 0; step <= THERMAL_SPEED_STEPS; step++) {
+    const rpm = (lastSpeed * step) / THERMAL_SPEED_STEPS;
+    let windingTemp = maxWindingTemp;
+    let magnetTemp = maxMagnetTemp;
+    let solution = solveSpeed({ ...params, windingTemp, magnetTemp }, rpm);
+    for (let pass = 1; pass < TEMPERATURE_PASSES && solution.temps; pass++) {
+      const next = {
+        windingTemp: Math.min(maxWindingTemp, solution.temps.windingTemp),
+        magnetTemp: Math.min(maxMagnetTemp, solution.temps.magnetTemp)
+      };
+      if (Math.abs(next.windingTemp - windingTemp) < 1 && Math.abs(next.magnetTemp - magnetTemp) < 1) break;
+      windingTemp = next.windingTemp;
+      magnetTemp = next.magnetTemp;
+      solution = solveSpeed({ ...params, windingTemp, magnetTemp }, rpm);
+    }
+
+    points.push({
+      speedRPM: rpm,
+      torque: solution.torque,
+      power: solution.torque * (rpm * 2 * Math.PI / 60) / 1000,
+      windingTemp: solution.temps?.windingTemp ?? ambientTemp,
+      magnetTemp: solution.temps?.magnetTemp ?? ambientTemp,
+      limit: solution.limit
+    });
+  }
+
+  return {
+    duration,
+    points,
+    maxTorque: Math.max(...points.map(pt => pt.torque)),
+    maxPower: Math.max(...points.map(pt => pt.power))
+  };
+};
+
+/**
+ * Continuous (S1) envelope followed by one short-time (S2) envelope per duration, shortest first.
+ */
+export const calculateThermalEnvelopes = (params: MotorParams, durations: number[]): ThermalEnvelope[] => {
+  const sorted = Array.from(new Set(durations.filter(d => d > 0))).sort((a, b) => a - b);
+  return [calculateThermalEnvelope(params, null), ...sorted.map(d => calculateThermalEnvelope(params, d))];
+};
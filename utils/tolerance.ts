@@ -0,0 +1,130 @@
+import {
+  MotorParams,
+  SimulationResult,
+  ToleranceSettings,
+  ToleranceSpec,
+  ToleranceResult,
+  ToleranceStatistic,
+  ToleranceBandPoint,
+  HistogramBin
+} from '../types';
+import { calculateMotorCharacteristics } from './motorPhysics';
+
+// Upper bound on samples per run, keeps the UI responsive
+export const MAX_TOLERANCE_SAMPLES = 2000;
+const HISTOGRAM_BINS = 20;
+
+/**
+ * Small seeded generator (mulberry32) so a run can be repeated exactly.
+ */
+const createRandom = (seed: number) => {
+  let state = Math.floor(seed) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Relative deviation of one sample: uniform within ±tolerance, or normal with 3σ = tolerance (Box-Muller).
+ */
+const sampleDeviation = (spec: ToleranceSpec, random: () => number): number => {
+  const range = spec.tolerance / 100;
+  if (spec.distribution === 'uniform') return (2 * random() - 1) * range;
+  const u = Math.max(random(), Number.EPSILON);
+  const gaussian = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  return gaussian * (range / 3);
+};
+
+/**
+ * Percentile of an ascending array, linearly interpolated between ranks.
+ */
+const percentile = (sorted: number[], pct: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = (Math.min(100, Math.max(0, pct)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.min(sorted.length - 1, lower + 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+const buildHistogram = (sorted: number[]): HistogramBin[] => {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (!(max > min)) return [{ from: min, to: max, count: sorted.length }];
+  const width = (max - min) / HISTOGRAM_BINS;
+  const bins = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, count: 0 }));
+  sorted.forEach(v => {
+    bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((v - min) / width))].count += 1;
+  });
+  return bins;
+};
+
+const summarize = (values: number[], nominal: number, settings: ToleranceSettings): ToleranceStatistic => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / Math.max(1, values.length - 1);
+  return {
+    nominal,
+    mean,
+    std: Math.sqrt(variance),
+    low: percentile(sorted, settings.lowPercentile),
+    high: percentile(sorted, settings.highPercentile),
+    histogram: buildHistogram(sorted)
+  };
+};
+
+/**
+ * Draws the parameter sets of a run. For SPMSM Lq follows Ld, so the motor stays non-salient.
+ */
+export const sampleParams = (params: MotorParams, settings: ToleranceSettings): MotorParams[] => {
+  const random = createRandom(settings.seed);
+  const specs = settings.specs.filter(spec => spec.enabled && spec.tolerance > 0);
+  return Array.from({ length: settings.samples }, () => {
+    const sample = { ...params };
+    specs.forEach(spec => {
+      sample[spec.key] = params[spec.key] * (1 + sampleDeviation(spec, random));
+    });
+    if (params.motorType === 'SPMSM') sample.lq = sample.ld;
+    return sample;
+  });
+};
+
+/**
+ * Monte Carlo tolerance analysis: one T-N envelope per sampled parameter set, reduced to a
+ * percentile band per speed and the distributions of peak torque, base speed and peak power.
+ * All samples share the speed grid of the nominal curve (maxSpeed is not varied); beyond the end
+ * of a sample's envelope its torque and power count as zero.
+ */
+export const runToleranceAnalysis = (params: MotorParams, nominal: SimulationResult, settings: ToleranceSettings): ToleranceResult => {
+  if (!(settings.samples >= 2)) throw new Error('At least two samples are required');
+  if (settings.samples > MAX_TOLERANCE_SAMPLES) throw new Error(`At most ${MAX_TOLERANCE_SAMPLES} samples per run`);
+  if (!(settings.lowPercentile < settings.highPercentile)) throw new Error('The lower percentile must be below the upper one');
+
+  const results = sampleParams(params, settings).map(sample => calculateMotorCharacteristics(sample));
+
+  const longest = results.reduce((best, r) => (r.points.length > best.points.length ? r : best), nominal);
+  const band: ToleranceBandPoint[] = longest.points.map((pt, i) => {
+    const torques = results.map(r => r.points[i]?.torque ?? 0).sort((a, b) => a - b);
+    const powers = results.map(r => r.points[i]?.power ?? 0).sort((a, b) => a - b);
+    return {
+      speedRPM: pt.speedRPM,
+      torqueNominal: nominal.points[i]?.torque ?? 0,
+      torqueLow: percentile(torques, settings.lowPercentile),
+      torqueHigh: percentile(torques, settings.highPercentile),
+      powerNominal: nominal.points[i]?.power ?? 0,
+      powerLow: percentile(powers, settings.lowPercentile),
+      powerHigh: percentile(powers, settings.highPercentile)
+    };
+  });
+
+  return {
+    samples: results.length,
+    band,
+    maxTorque: summarize(results.map(r => r.maxTorque), nominal.maxTorque, settings),
+    baseSpeed: summarize(results.map(r => r.baseSpeed), nominal.baseSpeed, settings),
+    maxPower: summarize(results.map(r => r.maxPower), nominal.maxPower, settings)
+  };
+};
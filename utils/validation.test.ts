@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_PARAMS } from '../constants';
+import { calculateMotorCharacteristics } from './motorPhysics';
+import { diagnoseDesign } from './validation';
+
+test('default design with field weakening has no findings', () => {
+  for (const maxSpeed of [DEFAULT_PARAMS.maxSpeed, 10000]) {
+    const params = { ...DEFAULT_PARAMS, enableFluxWeakening: true, maxSpeed };
+    assert.deepEqual(diagnoseDesign(params, calculateMotorCharacteristics(params)), []);
+  }
+});
+
+test('default design without field weakening has no findings', () => {
+  assert.deepEqual(diagnoseDesign(DEFAULT_PARAMS, calculateMotorCharacteristics(DEFAULT_PARAMS)), []);
+});
+
+test('out-of-range inputs are errors on their field', () => {
+  const params = { ...DEFAULT_PARAMS, p: 2.5, imax: 0 };
+  const errors = diagnoseDesign(params, calculateMotorCharacteristics(params)).filter(d => d.severity === 'error');
+  assert.ok(errors.some(d => d.code === 'polePairsNotInteger' && d.field === 'p'));
+  assert.ok(errors.some(d => d.code === 'nonPositiveValue' && d.field === 'imax'));
+});
@@ -0,0 +1,154 @@
+import { MotorParams, Diagnostic, DiagnosticCode, DiagnosticSeverity, SimulationResult } from '../types';
+import { Translation } from './paramLabels';
+import { createSolverContext, calculateTheoreticalMaxSpeed, SVPWM_MODULATION_INDEX } from './motorPhysics';
+import { solveStrategyPoint, solveOperatingPoint } from './controlSolver';
+import { getFluxVoltageMag } from './fluxModel';
+import { applyTemperature } from './temperature';
+
+// Inputs that may be zero but not negative
+const NON_NEGATIVE_FIELDS: (keyof MotorParams)[] = ['rs', 'psif', 'ironLossHyst', 'ironLossEddy', 'frictionTorque', 'windageCoeff'];
+// Inputs that must be above zero
+const POSITIVE_FIELDS: (keyof MotorParams)[] = [
+  'ld', 'lq', 'vdc', 'imax', 'maxSpeed', 'voltageUtilization',
+  'thermalResWinding', 'thermalResMagnet', 'thermalResCooling',
+  'thermalCapWinding', 'thermalCapMagnet', 'thermalCapHousing'
+];
+
+// calculateTheoreticalMaxSpeed rounds up to this (RPM)
+const MAX_SPEED_ROUNDING = 100;
+
+const SEVERITY_ORDER: Record<DiagnosticSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+const format = (value: number) => parseFloat(value.toPrecision(4)).toString();
+
+/**
+ * Checks the inputs on their own: values outside their physical range are errors,
+ * combinations that are legal but probably not intended are warnings.
+ */
+export const validateParams = (params: MotorParams): Diagnostic[] => {
+  const findings: Diagnostic[] = [];
+  const add = (severity: DiagnosticSeverity, code: Diagnostic['code'], field: keyof MotorParams | null, detail?: string) =>
+    findings.push({ severity, code, field, detail });
+
+  NON_NEGATIVE_FIELDS.forEach(field => {
+    const value = params[field] as number;
+    if (!(value >= 0)) add('error', 'negativeValue', field, format(value));
+  });
+  POSITIVE_FIELDS.forEach(field => {
+    const value = params[field] as number;
+    if (!(value > 0)) add('error', 'nonPositiveValue', field, format(value));
+  });
+  if (!Number.isInteger(params.p) || params.p < 1) add('error', 'polePairsNotInteger', 'p', format(params.p));
+
+  if (params.voltageUtilization > 1) add('warning', 'utilizationAboveOne', 'voltageUtilization', format(params.voltageUtilization));
+  if (params.modulation === 'overmodulation' &&
+    !(params.overmodulationIndex >= SVPWM_MODULATION_INDEX && params.overmodulationIndex <= 1)) {
+    add('warning', 'overmodulationRange', 'overmodulationIndex', format(params.overmodulationIndex));
+  }
+
+  if (params.ld > 0 && params.lq > 0) {
+    if (params.motorType === 'IPMSM' && params.lq < params.ld) {
+      add('warning', 'inverseSaliency', 'lq', `Lq/Ld = ${format(params.lq / params.ld)}`);
+    } else if (params.motorType === 'IPMSM' && params.lq === params.ld) {
+      add('info', 'noSaliency', 'lq');
+    } else if (params.motorType === 'SPMSM' && params.lq !== params.ld) {
+      add('warning', 'spmsmSaliency', 'lq', `Lq/Ld = ${format(params.lq / params.ld)}`);
+    }
+  }
+  if (params.psif === 0) {
+    if (params.motorType === 'SPMSM' || params.lq === params.ld) add('error', 'zeroFluxSpmsm', 'psif');
+    else add('warning', 'zeroFluxIpmsm', 'psif');
+  }
+
+  if (params.windingTemp > params.maxWindingTemp) {
+    add('warning', 'windingOverLimit', 'windingTemp', `${format(params.windingTemp)} °C > ${format(params.maxWindingTemp)} °C`);
+  }
+  if (params.magnetTemp > params.maxMagnetTemp) {
+    add('warning', 'magnetOverLimit', 'magnetTemp', `${format(params.magnetTemp)} °C > ${format(params.maxMagnetTemp)} °C`);
+  }
+  if (params.copperTempCoeff < 0) add('warning', 'copperCoeffSign', 'copperTempCoeff', `${format(params.copperTempCoeff)} %/K`);
+  if (params.magnetTempCoeff > 0) add('warning', 'magnetCoeffSign', 'magnetTempCoeff', `${format(params.magnetTempCoeff)} %/K`);
+  if (params.enableSaturation && !params.fluxMap) add('info', 'saturationWithoutMap', 'enableSaturation');
+
+  return findings;
+};
+
+/**
+ * Findings from the solver itself, for inputs that pass validation but cannot be operated as set.
+ * The operating points are solved again on the speed grid of the envelope, since the envelope
+ * keeps only the current vectors and not whether the solver found one.
+ */
+export const diagnoseEngine = (rawParams: MotorParams, result: SimulationResult): Diagnostic[] => {
+  const findings: Diagnostic[] = [];
+  const params = applyTemperature(rawParams);
+  const ctx = createSolverContext(params);
+  const basePoint = solveStrategyPoint(ctx, params.imax);
+
+  // Resistive drop alone at rated current
+  const standstillVoltage = getFluxVoltageMag(ctx.model, params.rs, 0, basePoint.id, basePoint.iq);
+  if (standstillVoltage > ctx.vLim) {
+    findings.push({
+      severity: 'error',
+      code: 'voltageAtStandstill',
+      field: 'vdc',
+      detail: `|V| = ${format(standstillVoltage)} V > Vmax = ${format(ctx.vLim)} V`
+    });
+  }
+
+  if (params.enableFluxWeakening) {
+    // The envelope always ends on an unsolvable point near the theoretical maximum speed;
+    // only a failure clearly below it (beyond the rounding and the speed step) cuts the curve short
+    const { points } = result;
+    const speedStep = points.length > 1 ? points[1].speedRPM - points[0].speedRPM : 0;
+    const earlyLimit = calculateTheoreticalMaxSpeed(rawParams) - Math.max(MAX_SPEED_ROUNDING, speedStep);
+    const failed = points.find(pt => {
+      if (pt.speedRPM >= earlyLimit) return false;
+      const omega = ((pt.speedRPM * 2 * Math.PI) / 60) * params.p;
+      return !solveOperatingPoint(ctx, omega, basePoint).foundSolution;
+    });
+    if (failed) {
+      findings.push({ severity: 'warning', code: 'fieldWeakeningFailed', field: null, detail: `${failed.speedRPM} RPM` });
+    }
+  }
+
+  if (!(result.maxTorque > 0) || result.points.length === 0) {
+    findings.push({ severity: 'error', code: 'noTorque', field: null });
+  }
+
+  return findings;
+};
+
+/**
+ * All findings for a design, most severe first.
+ */
+export const diagnoseDesign = (params: MotorParams, result: SimulationResult): Diagnostic[] =>
+  [...validateParams(params), ...diagnoseEngine(params, result)]
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+// Translated severity names and messages, for the panels and the design report
+export const getSeverityLabels = (t: Translation): Record<DiagnosticSeverity, string> => ({
+  error: t.severityError,
+  warning: t.severityWarning,
+  info: t.severityInfo
+});
+
+export const getDiagnosticMessages = (t: Translation): Record<DiagnosticCode, string> => ({
+  negativeValue: t.diagNegativeValue,
+  nonPositiveValue: t.diagNonPositiveValue,
+  polePairsNotInteger: t.diagPolePairsNotInteger,
+  utilizationAboveOne: t.diagUtilizationAboveOne,
+  overmodulationRange: t.diagOvermodulationRange,
+  inverseSaliency: t.diagInverseSaliency,
+  noSaliency: t.diagNoSaliency,
+  spmsmSaliency: t.diagSpmsmSaliency,
+  zeroFluxSpmsm: t.diagZeroFluxSpmsm,
+  zeroFluxIpmsm: t.diagZeroFluxIpmsm,
+  windingOverLimit: t.diagWindingOverLimit,
+  magnetOverLimit: t.diagMagnetOverLimit,
+  copperCoeffSign: t.diagCopperCoeffSign,
+  magnetCoeffSign: t.diagMagnetCoeffSign,
+  saturationWithoutMap: t.diagSaturationWithoutMap,
+  voltageAtStandstill: t.diagVoltageAtStandstill,
+  fieldWeakeningFailed: t.diagFieldWeakeningFailed,
+  noTorque: t.diagNoTorque
+});
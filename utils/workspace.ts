@@ -0,0 +1,34 @@
+import { Design, DesignSummary, MotorParams, SimulationResult } from '../types';
+import { SERIES_PALETTE } from '../constants';
+
+let designCounter = 0;
+
+/**
+ * Creates a new design, picking the first palette color not yet used in the workspace.
+ */
+export const createDesign = (params: MotorParams, name: string, existing: Design[]): Design => {
+  const usedColors = new Set(existing.map(d => d.color));
+  const color = SERIES_PALETTE.find(c => !usedColors.has(c)) ?? SERIES_PALETTE[existing.length % SERIES_PALETTE.length];
+  designCounter += 1;
+  return {
+    id: `design-${Date.now().toString(36)}-${designCounter}`,
+    name,
+    color,
+    visible: true,
+    params
+  };
+};
+
+export const summarizeResult = (result: SimulationResult): DesignSummary => ({
+  maxTorque: result.maxTorque,
+  baseSpeed: result.baseSpeed,
+  maxPower: result.maxPower,
+  mtpaAngle: result.points[0]?.currentAngle ?? 0
+});
+
+/**
+ * Relative change against the baseline (%). Null when the baseline value is zero.
+ */
+export const relativeDelta = (value: number, baseline: number): number | null => {
+  return Math.abs(baseline) > 1e-12 ? ((value - baseline) / Math.abs(baseline)) * 100 : null;
+};